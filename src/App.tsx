@@ -1,28 +1,23 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryClientProvider } from "@tanstack/react-query";
+import { ThemeProvider } from "next-themes";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider, useAuth } from "@/contexts/AuthContext";
-
-// Pages
+import { queryClient } from "@/data/queryClient";
+import { RequireRole } from "@/components/auth/RequireRole";
+import { getHomePath } from "@/lib/roles";
+import { useStaffNotifications } from "@/hooks/use-staff-notifications";
+import { useApplyPreferences } from "@/hooks/use-apply-preferences";
+import { GUARDED_ROUTES } from "./routes";
 import Auth from "./pages/Auth";
-import ChatbotTriage from "./pages/ChatbotTriage";
-import PatientIntake from "./pages/PatientIntake";
-import TriageResults from "./pages/TriageResults";
-import CaseSummary from "./pages/CaseSummary";
-import PriorityQueue from "./pages/PriorityQueue";
-import PatientCases from "./pages/PatientCases";
-import AlertsFlags from "./pages/AlertsFlags";
-import WorkloadAnalytics from "./pages/WorkloadAnalytics";
-import Settings from "./pages/Settings";
+import PendingApproval from "./pages/PendingApproval";
 import NotFound from "./pages/NotFound";
 import { Loader2 } from "lucide-react";
 
-const queryClient = new QueryClient();
-
 function RoleBasedRedirect() {
-  const { user, userRole, loading } = useAuth();
+  const { user, userRole, roleStatus, loading } = useAuth();
 
   if (loading) {
     return (
@@ -37,14 +32,14 @@ function RoleBasedRedirect() {
   }
 
   // Redirect based on role
-  if (userRole === 'healthcare_staff') {
-    return <Navigate to="/queue" replace />;
-  }
-  
-  return <Navigate to="/triage" replace />;
+  return <Navigate to={getHomePath(userRole, roleStatus)} replace />;
 }
 
 function AppRoutes() {
+  // Mounted above the routes so notifications and preferences survive page changes
+  useStaffNotifications();
+  useApplyPreferences();
+
   return (
     <Routes>
       {/* Root redirects based on auth status and role */}
@@ -52,21 +47,11 @@ function AppRoutes() {
       
       {/* Auth */}
       <Route path="/auth" element={<Auth />} />
+      <Route path="/pending-approval" element={<PendingApproval />} />
       
-      {/* Patient Routes */}
-      <Route path="/triage" element={<ChatbotTriage />} />
-      <Route path="/intake" element={<PatientIntake />} />
-      <Route path="/results" element={<TriageResults />} />
-      <Route path="/case-summary" element={<CaseSummary />} />
-      
-      {/* Healthcare Staff Routes */}
-      <Route path="/queue" element={<PriorityQueue />} />
-      <Route path="/patient-cases" element={<PatientCases />} />
-      <Route path="/alerts" element={<AlertsFlags />} />
-      <Route path="/analytics" element={<WorkloadAnalytics />} />
-      
-      {/* Shared Routes */}
-      <Route path="/settings" element={<Settings />} />
+      {GUARDED_ROUTES.map(({ path, element, roles }) => (
+        <Route key={path} path={path} element={<RequireRole roles={roles}>{element}</RequireRole>} />
+      ))}
       
       {/* 404 */}
       <Route path="*" element={<NotFound />} />
@@ -76,15 +61,17 @@ function AppRoutes() {
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <AuthProvider>
-          <AppRoutes />
-        </AuthProvider>
-      </BrowserRouter>
-    </TooltipProvider>
+    <ThemeProvider attribute="class" defaultTheme="system" enableSystem disableTransitionOnChange>
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        <BrowserRouter>
+          <AuthProvider>
+            <AppRoutes />
+          </AuthProvider>
+        </BrowserRouter>
+      </TooltipProvider>
+    </ThemeProvider>
   </QueryClientProvider>
 );
 
@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { AlertHistory } from '@/components/alerts/AlertHistory';
+import { Alert, isAlertRead } from '@/data/alerts';
+import { ALERT_SEVERITY_LABELS, ALERT_TYPE_LABELS, AlertType } from '@/lib/alertTypes';
+import {
+  AlertTriangle,
+  ArrowDownCircle,
+  Bell,
+  CheckCircle,
+  ChevronDown,
+  Clock,
+  Siren,
+  TrendingUp,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatDateTime } from '@/lib/dates';
+
+interface AlertCardProps {
+  alert: Alert;
+  acknowledgedByName: string | null;
+  isBusy: boolean;
+  onMarkRead: () => void;
+  onAcknowledge: () => void;
+  /** Omitted for users who cannot open patient cases */
+  onViewCase?: () => void;
+}
+
+const alertTypeIcons: Record<AlertType, React.ComponentType<{ className?: string }>> = {
+  high_urgency: AlertTriangle,
+  emergency_keyword: Siren,
+  wait_time_breach: Clock,
+  urgency_downgrade: ArrowDownCircle,
+};
+
+export function AlertCard({
+  alert,
+  acknowledgedByName,
+  isBusy,
+  onMarkRead,
+  onAcknowledge,
+  onViewCase,
+}: AlertCardProps) {
+  const [showHistory, setShowHistory] = useState(false);
+  const isRead = isAlertRead(alert);
+  const AlertIcon = alertTypeIcons[alert.alert_type] ?? Bell;
+
+  return (
+    <Card
+      className={cn(
+        'border-border shadow-healthcare transition-all',
+        !isRead && 'bg-primary/5 border-primary/20',
+        alert.severity === 'critical' && !alert.acknowledged_at && 'border-l-4 border-l-urgency-high'
+      )}
+    >
+      <CardContent className="py-4">
+        <div className="flex items-start gap-3">
+          <div className={cn(
+            'flex h-8 w-8 shrink-0 items-center justify-center rounded-full',
+            isRead ? 'bg-muted' : 'bg-primary/10'
+          )}>
+            <AlertIcon className={cn(
+              'h-4 w-4',
+              isRead ? 'text-muted-foreground' : 'text-primary'
+            )} />
+          </div>
+          <div className="flex-1 min-w-0">
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <p className="font-medium text-foreground">
+                    {ALERT_TYPE_LABELS[alert.alert_type]}
+                  </p>
+                  {alert.severity !== 'normal' && (
+                    <span className="urgency-badge-high text-xs">
+                      {ALERT_SEVERITY_LABELS[alert.severity]}
+                    </span>
+                  )}
+                  {alert.escalated_at && (
+                    <span className="inline-flex items-center gap-1 rounded-full border border-border px-2 py-0.5 text-xs text-muted-foreground">
+                      <TrendingUp className="h-3 w-3" />
+                      Escalated
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground mt-1">
+                  {alert.message}
+                </p>
+              </div>
+              <div className="flex shrink-0 gap-1">
+                {!isRead && (
+                  <Button variant="ghost" size="sm" disabled={isBusy} onClick={onMarkRead}>
+                    Mark read
+                  </Button>
+                )}
+                {!alert.acknowledged_at && (
+                  <Button variant="outline" size="sm" disabled={isBusy} onClick={onAcknowledge}>
+                    Acknowledge
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {alert.acknowledged_at && (
+              <p className="flex items-center gap-1.5 text-xs text-urgency-low mt-2">
+                <CheckCircle className="h-3.5 w-3.5" />
+                Acknowledged by {acknowledgedByName ?? 'a clinician'} ·{' '}
+                {formatDateTime(alert.acknowledged_at)}
+              </p>
+            )}
+
+            <Collapsible open={showHistory} onOpenChange={setShowHistory}>
+              <div className="flex items-center justify-between gap-2 mt-2">
+                <p className="text-xs text-muted-foreground">
+                  {formatDateTime(alert.created_at)}
+                </p>
+                <div className="flex items-center gap-3">
+                  <CollapsibleTrigger asChild>
+                    <Button variant="link" size="sm" className="h-auto p-0 text-xs">
+                      History
+                      <ChevronDown className={cn('ml-1 h-3 w-3 transition-transform', showHistory && 'rotate-180')} />
+                    </Button>
+                  </CollapsibleTrigger>
+                  {alert.triage_result_id && onViewCase && (
+                    <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={onViewCase}>
+                      View case
+                    </Button>
+                  )}
+                </div>
+              </div>
+              <CollapsibleContent className="mt-2">
+                <AlertHistory alertId={alert.id} />
+              </CollapsibleContent>
+            </Collapsible>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
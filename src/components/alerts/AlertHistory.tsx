@@ -0,0 +1,43 @@
+import { Loader2 } from 'lucide-react';
+import { getDisplayName } from '@/data/profiles';
+import { useAlertEvents } from '@/data/hooks/alerts';
+import { useProfilesByIds } from '@/data/hooks/profiles';
+import { ALERT_EVENT_LABELS, AlertEventType } from '@/lib/alertTypes';
+import { formatDateTime } from '@/lib/dates';
+
+interface AlertHistoryProps {
+  alertId: string;
+}
+
+export function AlertHistory({ alertId }: AlertHistoryProps) {
+  const { data: events = [], isLoading } = useAlertEvents(alertId);
+  const { data: actors = [] } = useProfilesByIds(events.map(e => e.actor_id).filter(Boolean));
+
+  const getActorName = (actorId: string | null) => {
+    if (!actorId) return null;
+    const actor = actors.find(a => a.user_id === actorId);
+    return actor ? getDisplayName(actor, 'Unknown user') : null;
+  };
+
+  if (isLoading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-primary" />;
+  }
+
+  return (
+    <ol className="space-y-1 border-l border-border pl-3">
+      {events.map((event) => {
+        const actorName = getActorName(event.actor_id);
+        return (
+          <li key={event.id} className="text-xs text-muted-foreground">
+            <span className="font-medium text-foreground">
+              {ALERT_EVENT_LABELS[event.event as AlertEventType]}
+            </span>
+            {actorName && ` by ${actorName}`}
+            {' · '}
+            {formatDateTime(event.created_at)}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,65 @@
+import { Card, CardContent } from '@/components/ui/card';
+import { useHighRiskPatients } from '@/data/hooks/triageResults';
+import { formatDateTime } from '@/lib/dates';
+import { AlertTriangle, CheckCircle, Loader2 } from 'lucide-react';
+
+export function HighRiskPatients() {
+  const { items: highRiskPatients, isLoading } = useHighRiskPatients();
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-4">
+        <AlertTriangle className="h-5 w-5 text-urgency-high" />
+        <h2 className="text-lg font-semibold text-foreground">High-Risk Patients</h2>
+        <span className="ml-auto inline-flex items-center rounded-full bg-urgency-high-bg px-2.5 py-0.5 text-xs font-medium text-urgency-high">
+          {highRiskPatients.length}
+        </span>
+      </div>
+
+      {highRiskPatients.length === 0 ? (
+        <Card className="border-border">
+          <CardContent className="flex flex-col items-center justify-center py-8">
+            <CheckCircle className="h-10 w-10 text-urgency-low mb-3" />
+            <p className="text-muted-foreground text-sm">No high-risk patients</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {highRiskPatients.map((patient) => (
+            <Card
+              key={patient.id}
+              className="border-border border-l-4 border-l-urgency-high shadow-healthcare"
+            >
+              <CardContent className="py-4">
+                <div className="flex items-start gap-3">
+                  <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-urgency-high-bg">
+                    <AlertTriangle className="h-4 w-4 text-urgency-high" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-foreground">
+                      Patient requires immediate attention
+                    </p>
+                    <p className="text-sm text-muted-foreground mt-1 line-clamp-2">
+                      {patient.recommended_action || 'Emergency symptoms detected'}
+                    </p>
+                    <p className="text-xs text-muted-foreground mt-2">
+                      {formatDateTime(patient.created_at)}
+                    </p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { ReactNode } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import type { AppRole } from '@/lib/roles';
+import Forbidden from '@/pages/Forbidden';
+
+interface RequireRoleProps {
+  roles: AppRole[];
+  children: ReactNode;
+}
+
+export function RequireRole({ roles, children }: RequireRoleProps) {
+  const { user, userRole, roleStatus, loading } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    const returnTo = `${location.pathname}${location.search}`;
+    return <Navigate to={`/auth?redirect=${encodeURIComponent(returnTo)}`} replace />;
+  }
+
+  if (userRole && roleStatus !== 'approved') {
+    return <Navigate to="/pending-approval" replace />;
+  }
+
+  if (!userRole || !roles.includes(userRole)) {
+    return <Forbidden />;
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,137 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useSaveCaseReview } from '@/data/hooks/triageResults';
+import { DISPOSITION_LABELS, Disposition, SavedCaseReview, UrgencyLevel } from '@/lib/caseReview';
+import { CheckCircle, Loader2, Pencil } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatDateTime } from '@/lib/dates';
+
+interface ClinicianReviewPanelProps {
+  caseId: string;
+  review: SavedCaseReview;
+  reviewerName: string | null;
+}
+
+const urgencyLabels: Record<UrgencyLevel, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+};
+
+export function ClinicianReviewPanel({ caseId, review, reviewerName }: ClinicianReviewPanelProps) {
+  const { toast } = useToast();
+  const [urgency, setUrgency] = useState<UrgencyLevel>(review.urgency);
+  const [notes, setNotes] = useState(review.clinician_notes ?? '');
+  const [disposition, setDisposition] = useState<Disposition | ''>(review.disposition ?? '');
+  const saveReview = useSaveCaseReview();
+
+  // Reset the form when another case is selected or the saved review changes
+  useEffect(() => {
+    setUrgency(review.urgency);
+    setNotes(review.clinician_notes ?? '');
+    setDisposition(review.disposition ?? '');
+  }, [caseId, review.urgency, review.clinician_notes, review.disposition]);
+
+  const isOverride = urgency !== review.machine_urgency;
+
+  const handleSave = () => {
+    saveReview.mutate(
+      {
+        id: caseId,
+        review: {
+          urgency,
+          clinician_notes: notes.trim() || null,
+          disposition: disposition || null,
+        },
+      },
+      {
+        onSuccess: () => {
+          toast({
+            title: isOverride ? 'Urgency overridden' : 'Review saved',
+            description: isOverride
+              ? `Urgency changed from ${urgencyLabels[review.machine_urgency]} to ${urgencyLabels[urgency]}.`
+              : 'The triage result has been confirmed.',
+          });
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border border-border p-4">
+      <div className="flex items-start justify-between gap-2">
+        <h4 className="font-semibold text-foreground">Clinician Review</h4>
+        {review.reviewed_at ? (
+          <p className="text-xs text-muted-foreground text-right">
+            Reviewed by {reviewerName || 'a clinician'}
+            <br />
+            {formatDateTime(review.reviewed_at)}
+          </p>
+        ) : (
+          <span className="text-xs text-muted-foreground">Not yet reviewed</span>
+        )}
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label>Urgency</Label>
+          <Select value={urgency} onValueChange={(value) => setUrgency(value as UrgencyLevel)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(urgencyLabels) as UrgencyLevel[]).map(level => (
+                <SelectItem key={level} value={level}>{urgencyLabels[level]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className={cn('text-xs', isOverride ? 'text-urgency-medium' : 'text-muted-foreground')}>
+            Triage engine: {urgencyLabels[review.machine_urgency]}
+            {isOverride && ' (overridden)'}
+          </p>
+        </div>
+        <div className="space-y-2">
+          <Label>Disposition</Label>
+          <Select value={disposition} onValueChange={(value) => setDisposition(value as Disposition)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select disposition" />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(DISPOSITION_LABELS) as Disposition[]).map(value => (
+                <SelectItem key={value} value={value}>{DISPOSITION_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="clinician-notes">Clinician Notes</Label>
+        <Textarea
+          id="clinician-notes"
+          placeholder="Assessment, actions taken, follow-up..."
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          rows={4}
+        />
+      </div>
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={saveReview.isPending}>
+          {saveReview.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : isOverride ? (
+            <Pencil className="h-4 w-4 mr-2" />
+          ) : (
+            <CheckCircle className="h-4 w-4 mr-2" />
+          )}
+          {isOverride ? 'Save Override' : 'Confirm Urgency'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import type { DataExport } from '@/data/dataExport';
+import { useFetchDataExport } from '@/data/hooks/dataExport';
+import { renderDataExportPdf } from '@/lib/dataExportPdf';
+import { downloadBlob } from '@/lib/download';
+import { Download, FileJson, FileText, Loader2 } from 'lucide-react';
+
+type ExportFormat = 'json' | 'pdf';
+
+const exportFilename = (format: ExportFormat) =>
+  `smart-triage-data-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+interface DataExportMenuProps {
+  size?: 'default' | 'sm';
+}
+
+/** Downloads the signed-in patient's data as a JSON archive or a PDF report */
+export function DataExportMenu({ size = 'default' }: DataExportMenuProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const fetchExport = useFetchDataExport(user?.id);
+  const [isRendering, setIsRendering] = useState(false);
+  const isBusy = fetchExport.isPending || isRendering;
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!user) return;
+
+    let data: DataExport;
+    try {
+      data = await fetchExport.mutateAsync();
+    } catch {
+      // Reported by the mutation cache
+      return;
+    }
+
+    setIsRendering(true);
+    try {
+      const blob = format === 'json'
+        ? new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' })
+        : await renderDataExportPdf(data);
+      downloadBlob(blob, exportFilename(format));
+    } catch (error) {
+      console.error('Error creating export:', error);
+      toast({
+        title: 'Export failed',
+        description: 'Your data could not be prepared for download. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size={size} disabled={isBusy}>
+          {isBusy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+          Download My Data
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onSelect={() => handleExport('pdf')}>
+          <FileText className="mr-2 h-4 w-4" />
+          PDF report
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => handleExport('json')}>
+          <FileJson className="mr-2 h-4 w-4" />
+          JSON archive
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
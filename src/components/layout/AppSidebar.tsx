@@ -12,9 +12,13 @@ import {
   LogOut,
   Stethoscope,
   Menu,
+  UserCog,
+  Search,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
+import { PatientSearch } from '@/components/search/PatientSearch';
+import { useUnreadAlertCount } from '@/data/hooks/alerts';
 import { useState } from 'react';
 
 interface NavItem {
@@ -39,13 +43,30 @@ const staffNavItems: NavItem[] = [
   { title: 'Settings & Privacy', href: '/settings', icon: Settings },
 ];
 
+const adminNavItems: NavItem[] = [
+  { title: 'User Management', href: '/admin/users', icon: UserCog },
+  { title: 'Escalated Alerts', href: '/alerts', icon: AlertTriangle },
+  { title: 'Settings & Privacy', href: '/settings', icon: Settings },
+];
+
+const portalLabels = {
+  patient: 'Patient Portal',
+  healthcare_staff: 'Staff Portal',
+  admin: 'Admin Portal',
+};
+
 export function AppSidebar() {
   const { userRole, signOut, user } = useAuth();
   const location = useLocation();
   const navigate = useNavigate();
   const [collapsed, setCollapsed] = useState(false);
+  const [searchOpen, setSearchOpen] = useState(false);
+  const isStaff = userRole === 'healthcare_staff';
+  const { data: unreadAlerts = 0 } = useUnreadAlertCount(isStaff || userRole === 'admin');
 
-  const navItems = userRole === 'healthcare_staff' ? staffNavItems : patientNavItems;
+  const navItems = userRole === 'admin'
+    ? adminNavItems
+    : isStaff ? staffNavItems : patientNavItems;
 
   const handleSignOut = async () => {
     await signOut();
@@ -78,7 +99,7 @@ export function AppSidebar() {
               <div className="flex flex-col">
                 <span className="text-sm font-semibold text-sidebar-foreground">Smart Triage</span>
                 <span className="text-xs text-muted-foreground">
-                  {userRole === 'healthcare_staff' ? 'Staff Portal' : 'Patient Portal'}
+                  {portalLabels[userRole ?? 'patient']}
                 </span>
               </div>
             </div>
@@ -87,6 +108,21 @@ export function AppSidebar() {
 
         {/* Navigation */}
         <nav className="flex-1 overflow-y-auto p-3">
+          {isStaff && (
+            <button
+              onClick={() => setSearchOpen(true)}
+              className="sidebar-item mb-3 w-full border border-sidebar-border"
+              title={collapsed ? 'Search patients' : undefined}
+            >
+              <Search className="h-5 w-5 shrink-0" />
+              {!collapsed && (
+                <>
+                  <span className="flex-1 text-left">Search patients</span>
+                  <kbd className="rounded border border-sidebar-border px-1.5 text-xs text-muted-foreground">⌘K</kbd>
+                </>
+              )}
+            </button>
+          )}
           <ul className="space-y-1">
             {navItems.map((item) => {
               const isActive = location.pathname === item.href;
@@ -95,13 +131,24 @@ export function AppSidebar() {
                   <button
                     onClick={() => navigate(item.href)}
                     className={cn(
-                      'sidebar-item w-full',
+                      'sidebar-item relative w-full',
                       isActive && 'sidebar-item-active'
                     )}
                     title={collapsed ? item.title : undefined}
                   >
                     <item.icon className="h-5 w-5 shrink-0" />
-                    {!collapsed && <span>{item.title}</span>}
+                    {!collapsed && <span className="flex-1 text-left">{item.title}</span>}
+                    {item.href === '/alerts' && unreadAlerts > 0 && (
+                      <span
+                        className={cn(
+                          'rounded-full bg-urgency-high px-1.5 text-xs font-semibold leading-5 text-primary-foreground',
+                          collapsed && 'absolute right-1 top-1 px-1 leading-4'
+                        )}
+                        aria-label={`${unreadAlerts} unread alerts`}
+                      >
+                        {unreadAlerts > 99 ? '99+' : unreadAlerts}
+                      </span>
+                    )}
                   </button>
                 </li>
               );
@@ -131,6 +178,7 @@ export function AppSidebar() {
           </button>
         </div>
       </div>
+      {isStaff && <PatientSearch open={searchOpen} onOpenChange={setSearchOpen} />}
     </aside>
   );
 }
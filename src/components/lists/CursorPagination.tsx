@@ -0,0 +1,58 @@
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+import { cn } from '@/lib/utils';
+
+interface CursorPaginationProps {
+  page: number;
+  hasNext: boolean;
+  isFetching?: boolean;
+  onPrevious: () => void;
+  onNext: () => void;
+  className?: string;
+}
+
+// Cursor pages have no total, so only the current page number is shown
+export function CursorPagination({ page, hasNext, isFetching, onPrevious, onNext, className }: CursorPaginationProps) {
+  const hasPrevious = page > 1;
+  if (!hasPrevious && !hasNext) return null;
+
+  const disabledClass = 'pointer-events-none opacity-50';
+
+  return (
+    <Pagination className={className}>
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            href="#"
+            aria-disabled={!hasPrevious || isFetching}
+            className={cn((!hasPrevious || isFetching) && disabledClass)}
+            onClick={(e) => {
+              e.preventDefault();
+              if (hasPrevious) onPrevious();
+            }}
+          />
+        </PaginationItem>
+        <PaginationItem>
+          <PaginationLink isActive>{page}</PaginationLink>
+        </PaginationItem>
+        <PaginationItem>
+          <PaginationNext
+            href="#"
+            aria-disabled={!hasNext || isFetching}
+            className={cn((!hasNext || isFetching) && disabledClass)}
+            onClick={(e) => {
+              e.preventDefault();
+              if (hasNext) onNext();
+            }}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+}
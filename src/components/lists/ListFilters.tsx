@@ -0,0 +1,134 @@
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SORT_LABELS, SortOrder } from '@/data/pagination';
+import { UNASSIGNED } from '@/data/triageResults';
+import { ALL, ListFilterValues } from '@/lib/listFilters';
+import type { UrgencyLevel } from '@/lib/caseReview';
+import type { StaffMember } from '@/lib/queueClaims';
+import { Search } from 'lucide-react';
+
+interface ListFiltersProps {
+  values: ListFilterValues;
+  onChange: (changes: Partial<ListFilterValues>) => void;
+  searchPlaceholder: string;
+  showUrgency?: boolean;
+  statusLabel?: string;
+  statusOptions?: { value: string; label: string }[];
+  /** Shows the assigned clinician filter */
+  staff?: StaffMember[];
+  currentUserId?: string;
+  sortOptions?: SortOrder[];
+}
+
+const urgencyOptions: { value: UrgencyLevel; label: string }[] = [
+  { value: 'high', label: 'High' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'low', label: 'Low' },
+];
+
+export function ListFilters({
+  values,
+  onChange,
+  searchPlaceholder,
+  showUrgency,
+  statusLabel = 'All statuses',
+  statusOptions,
+  staff,
+  currentUserId,
+  sortOptions,
+}: ListFiltersProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <div className="relative min-w-[200px] flex-1">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          placeholder={searchPlaceholder}
+          value={values.search}
+          onChange={(e) => onChange({ search: e.target.value })}
+          className="pl-10"
+        />
+      </div>
+
+      {showUrgency && (
+        <Select value={values.urgency} onValueChange={(urgency) => onChange({ urgency: urgency as ListFilterValues['urgency'] })}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All urgencies</SelectItem>
+            {urgencyOptions.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {statusOptions && (
+        <Select value={values.status} onValueChange={(status) => onChange({ status })}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>{statusLabel}</SelectItem>
+            {statusOptions.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {staff && (
+        <Select value={values.assignedTo} onValueChange={(assignedTo) => onChange({ assignedTo })}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Any clinician</SelectItem>
+            <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+            {currentUserId && <SelectItem value={currentUserId}>Assigned to me</SelectItem>}
+            {staff
+              .filter(s => s.user_id !== currentUserId)
+              .map(s => (
+                <SelectItem key={s.user_id} value={s.user_id}>{s.name}</SelectItem>
+              ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Input
+          type="date"
+          aria-label="From date"
+          title="From date"
+          className="w-40"
+          value={values.from}
+          max={values.to || undefined}
+          onChange={(e) => onChange({ from: e.target.value })}
+        />
+        <span className="text-sm text-muted-foreground">to</span>
+        <Input
+          type="date"
+          aria-label="To date"
+          title="To date"
+          className="w-40"
+          value={values.to}
+          min={values.from || undefined}
+          onChange={(e) => onChange({ to: e.target.value })}
+        />
+      </div>
+
+      {sortOptions && (
+        <Select value={values.sort} onValueChange={(sort) => onChange({ sort: sort as SortOrder })}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {sortOptions.map(sort => (
+              <SelectItem key={sort} value={sort}>{SORT_LABELS[sort]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+}
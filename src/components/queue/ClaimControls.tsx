@@ -0,0 +1,83 @@
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Claim, StaffMember, isClaimActive, minutesUntilExpiry } from '@/lib/queueClaims';
+import { Hand, Lock, RotateCcw, Undo2 } from 'lucide-react';
+
+interface ClaimControlsProps {
+  claim: Claim;
+  currentUserId: string | undefined;
+  staff: StaffMember[];
+  expiryMinutes: number;
+  now: number;
+  isBusy: boolean;
+  onClaim: () => void;
+  onRelease: () => void;
+  onReassign: (assigneeId: string) => void;
+}
+
+export function ClaimControls({
+  claim,
+  currentUserId,
+  staff,
+  expiryMinutes,
+  now,
+  isBusy,
+  onClaim,
+  onRelease,
+  onReassign,
+}: ClaimControlsProps) {
+  const isActive = isClaimActive(claim, expiryMinutes, now);
+  const isMine = isActive && claim.assigned_to === currentUserId;
+  const ownerName = staff.find(s => s.user_id === claim.assigned_to)?.name ?? 'another clinician';
+  const minutesLeft = minutesUntilExpiry(claim, expiryMinutes, now);
+
+  if (!isActive) {
+    return (
+      <Button size="sm" variant="outline" disabled={isBusy} onClick={onClaim}>
+        <Hand className="h-4 w-4 mr-1" />
+        Claim
+      </Button>
+    );
+  }
+
+  if (!isMine) {
+    return (
+      <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+        <Lock className="h-3.5 w-3.5" />
+        <span>
+          {ownerName} · {minutesLeft} min left
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-end gap-2">
+      <p className="text-xs font-medium text-primary">
+        Claimed by you · {minutesLeft} min left
+      </p>
+      <div className="flex items-center gap-2">
+        <Button size="sm" variant="ghost" disabled={isBusy} onClick={onClaim} title="Reset the idle timer">
+          <RotateCcw className="h-4 w-4 mr-1" />
+          Extend
+        </Button>
+        <Button size="sm" variant="ghost" disabled={isBusy} onClick={onRelease}>
+          <Undo2 className="h-4 w-4 mr-1" />
+          Release
+        </Button>
+        <Select value="" disabled={isBusy} onValueChange={onReassign}>
+          <SelectTrigger className="h-9 w-36">
+            <SelectValue placeholder="Reassign..." />
+          </SelectTrigger>
+          <SelectContent>
+            {staff
+              .filter(s => s.user_id !== currentUserId)
+              .map(s => (
+                <SelectItem key={s.user_id} value={s.user_id}>{s.name}</SelectItem>
+              ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { useTriageSearch } from '@/data/hooks/triageResults';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { QUEUE_STATUS_LABELS, QueueStatus } from '@/lib/queueStatus';
+import { cn } from '@/lib/utils';
+import { formatDate } from '@/lib/dates';
+
+interface PatientSearchProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// The server marks matched words with << and >>, so odd segments are matches
+function Headline({ text }: { text: string }) {
+  return (
+    <>
+      {text.split(/<<|>>/).map((segment, i) =>
+        i % 2 === 1 ? (
+          <mark key={i} className="rounded-sm bg-primary/15 px-0.5 text-foreground">
+            {segment}
+          </mark>
+        ) : (
+          segment
+        )
+      )}
+    </>
+  );
+}
+
+/** Command palette over the full-text search index; Ctrl/Cmd+K toggles it */
+export function PatientSearch({ open, onOpenChange }: PatientSearchProps) {
+  const navigate = useNavigate();
+  const [query, setQuery] = useState('');
+  const debouncedQuery = useDebouncedValue(query);
+  const { data: results = [], isFetching } = useTriageSearch(debouncedQuery);
+  const hasQuery = debouncedQuery.trim().length >= 2;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === 'k' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [open, onOpenChange]);
+
+  const handleSelect = (triageResultId: string) => {
+    onOpenChange(false);
+    setQuery('');
+    navigate(`/patient-cases?case=${triageResultId}`);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg">
+        <DialogTitle className="sr-only">Search patients</DialogTitle>
+        {/* Results are already ranked by the server, so cmdk must not filter them */}
+        <Command shouldFilter={false}>
+          <CommandInput
+            placeholder="Search by name, symptom, condition or note..."
+            value={query}
+            onValueChange={setQuery}
+          />
+          <CommandList>
+            {isFetching && (
+              <div className="flex items-center justify-center py-6">
+                <Loader2 className="h-4 w-4 animate-spin text-primary" />
+              </div>
+            )}
+            {!isFetching && (
+              <CommandEmpty>
+                {hasQuery ? 'No patients match this search.' : 'Type at least two characters to search.'}
+              </CommandEmpty>
+            )}
+            {hasQuery && results.length > 0 && (
+              <CommandGroup heading="Patients">
+                {results.map((result) => (
+                  <CommandItem
+                    key={result.triage_result_id}
+                    value={result.triage_result_id}
+                    onSelect={handleSelect}
+                    className="flex-col items-start gap-1 py-3"
+                  >
+                    <div className="flex w-full items-center gap-2">
+                      <span className="flex-1 truncate font-medium text-foreground">
+                        {result.patient_name || 'Anonymous Patient'}
+                      </span>
+                      <span className={cn('urgency-badge-' + result.urgency, 'text-xs')}>
+                        {result.urgency}
+                      </span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {QUEUE_STATUS_LABELS[result.queue_status as QueueStatus]} ·{' '}
+                      {formatDate(result.created_at)}
+                    </p>
+                    {result.headline && (
+                      <p className="line-clamp-2 text-xs text-muted-foreground">
+                        <Headline text={result.headline} />
+                      </p>
+                    )}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,124 @@
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { useAuth } from '@/contexts/AuthContext';
+import { AccountDeletionReport, deleteMyAccount } from '@/data/account';
+import { useToast } from '@/hooks/use-toast';
+import { DeleteAccountSection } from './DeleteAccountSection';
+
+vi.mock('@/contexts/AuthContext', () => ({ useAuth: vi.fn() }));
+vi.mock('@/data/account', () => ({ deleteMyAccount: vi.fn() }));
+vi.mock('@/hooks/use-toast', () => ({ useToast: vi.fn() }));
+
+const signOut = vi.fn();
+const toast = vi.fn();
+
+const report: AccountDeletionReport = {
+  deleted: {
+    chat_sessions: 2,
+    patient_intake: 1,
+    triage_results: 1,
+    alerts: 0,
+    alert_reads: 0,
+    user_preferences: 1,
+    user_roles: 1,
+    profiles: 1,
+  },
+  anonymised: {
+    reviewed_cases: 0,
+    assigned_cases: 0,
+    acknowledged_alerts: 0,
+    alert_events: 0,
+    staff_invitations: 0,
+  },
+  deleted_at: '2026-05-18T09:00:00Z',
+};
+
+function renderSection() {
+  const queryClient = new QueryClient({ defaultOptions: { mutations: { retry: false } } });
+  render(
+    <QueryClientProvider client={queryClient}>
+      <MemoryRouter initialEntries={['/settings']}>
+        <Routes>
+          <Route path="/settings" element={<DeleteAccountSection />} />
+          <Route path="/auth" element={<p>Sign in page</p>} />
+        </Routes>
+      </MemoryRouter>
+    </QueryClientProvider>
+  );
+}
+
+function confirmDeletion() {
+  fireEvent.click(screen.getByRole('button', { name: 'Delete My Account' }));
+  fireEvent.change(screen.getByLabelText('Type DELETE to confirm'), { target: { value: 'DELETE' } });
+  fireEvent.click(screen.getByRole('button', { name: 'Delete Account' }));
+}
+
+describe('DeleteAccountSection', () => {
+  beforeEach(() => {
+    vi.mocked(deleteMyAccount).mockReset();
+    signOut.mockReset().mockResolvedValue(undefined);
+    toast.mockReset();
+    vi.mocked(useAuth).mockReturnValue({ signOut } as unknown as ReturnType<typeof useAuth>);
+    vi.mocked(useToast).mockReturnValue({ toast } as unknown as ReturnType<typeof useToast>);
+  });
+
+  it('only deletes once DELETE has been typed', () => {
+    renderSection();
+    fireEvent.click(screen.getByRole('button', { name: 'Delete My Account' }));
+
+    const confirm = screen.getByRole('button', { name: 'Delete Account' });
+    expect(confirm).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Type DELETE to confirm'), { target: { value: 'delete' } });
+    expect(confirm).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Type DELETE to confirm'), { target: { value: 'DELETE' } });
+    expect(confirm).toBeEnabled();
+  });
+
+  it('signs out and summarises the report once the account is deleted', async () => {
+    vi.mocked(deleteMyAccount).mockResolvedValue(report);
+    renderSection();
+    confirmDeletion();
+
+    expect(await screen.findByText('Sign in page')).toBeInTheDocument();
+    expect(deleteMyAccount).toHaveBeenCalledTimes(1);
+    expect(signOut).toHaveBeenCalledTimes(1);
+    expect(toast).toHaveBeenCalledWith({
+      title: 'Account deleted',
+      description: 'Removed your profile, 1 triage result, 1 intake form and 2 conversations.',
+    });
+  });
+
+  it('mentions the records a clinician is taken off', async () => {
+    vi.mocked(deleteMyAccount).mockResolvedValue({
+      ...report,
+      deleted: { ...report.deleted, chat_sessions: 0, patient_intake: 0, triage_results: 0 },
+      anonymised: { ...report.anonymised, reviewed_cases: 3, acknowledged_alerts: 1 },
+    });
+    renderSection();
+    confirmDeletion();
+
+    await waitFor(() => expect(toast).toHaveBeenCalled());
+    expect(toast).toHaveBeenCalledWith({
+      title: 'Account deleted',
+      description: 'Removed your profile. Your name was taken off 4 case and alert records you worked on.',
+    });
+  });
+
+  it('stays signed in when the server refuses, e.g. for the last admin', async () => {
+    vi.mocked(deleteMyAccount).mockRejectedValue(
+      new Error('Approve another administrator before deleting the only admin account')
+    );
+    renderSection();
+    confirmDeletion();
+
+    await waitFor(() => expect(deleteMyAccount).toHaveBeenCalledTimes(1));
+    await waitFor(() => expect(screen.getByRole('button', { name: 'Delete Account' })).toBeEnabled());
+    expect(signOut).not.toHaveBeenCalled();
+    expect(toast).not.toHaveBeenCalled();
+    expect(screen.queryByText('Sign in page')).not.toBeInTheDocument();
+  });
+});
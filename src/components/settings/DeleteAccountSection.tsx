@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import type { AccountDeletionReport } from '@/data/account';
+import { useDeleteAccount } from '@/data/hooks/account';
+import { Loader2, Trash2 } from 'lucide-react';
+
+const CONFIRMATION = 'DELETE';
+
+const pluralise = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+function summariseReport({ deleted, anonymised }: AccountDeletionReport) {
+  const records = [
+    [deleted.triage_results, 'triage result'],
+    [deleted.patient_intake, 'intake form'],
+    [deleted.chat_sessions, 'conversation'],
+    [deleted.alerts, 'alert'],
+  ] as const;
+  const removed = ['your profile', ...records.filter(([count]) => count > 0).map(([count, noun]) => pluralise(count, noun))];
+  const list = removed.length > 1 ? `${removed.slice(0, -1).join(', ')} and ${removed[removed.length - 1]}` : removed[0];
+
+  const worked = anonymised.reviewed_cases + anonymised.assigned_cases + anonymised.acknowledged_alerts;
+  return worked > 0
+    ? `Removed ${list}. Your name was taken off ${pluralise(worked, 'case and alert record')} you worked on.`
+    : `Removed ${list}.`;
+}
+
+export function DeleteAccountSection() {
+  const { signOut } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [confirmation, setConfirmation] = useState('');
+  const deleteAccount = useDeleteAccount();
+
+  const handleOpenChange = (next: boolean) => {
+    if (deleteAccount.isPending) return;
+    setOpen(next);
+    setConfirmation('');
+  };
+
+  const handleDelete = () => {
+    deleteAccount.mutate(undefined, {
+      onSuccess: async (report) => {
+        setOpen(false);
+        await signOut();
+        navigate('/auth');
+        toast({
+          title: 'Account deleted',
+          description: summariseReport(report),
+        });
+      },
+    });
+  };
+
+  return (
+    <div className="rounded-lg border border-destructive/20 bg-destructive/5 p-4">
+      <div className="flex items-start gap-3">
+        <Trash2 className="h-5 w-5 text-destructive mt-0.5" />
+        <div className="flex-1">
+          <h4 className="font-medium text-destructive mb-1">Delete My Account</h4>
+          <p className="text-sm text-muted-foreground mb-3">
+            This will permanently delete your account along with all your chat sessions, intake
+            forms and triage results. This action cannot be undone.
+          </p>
+          <AlertDialog open={open} onOpenChange={handleOpenChange}>
+            <AlertDialogTrigger asChild>
+              <Button variant="destructive" size="sm">
+                Delete My Account
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete your account?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Your profile and every record about you will be permanently deleted and you will be
+                  signed out. Cases and alerts you handled as a clinician are kept without your name.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <div className="space-y-2">
+                <Label htmlFor="deleteConfirmation">Type {CONFIRMATION} to confirm</Label>
+                <Input
+                  id="deleteConfirmation"
+                  autoComplete="off"
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                />
+              </div>
+              <AlertDialogFooter>
+                <AlertDialogCancel disabled={deleteAccount.isPending}>Cancel</AlertDialogCancel>
+                <Button
+                  variant="destructive"
+                  onClick={handleDelete}
+                  disabled={confirmation !== CONFIRMATION || deleteAccount.isPending}
+                >
+                  {deleteAccount.isPending ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Deleting...
+                    </>
+                  ) : (
+                    'Delete Account'
+                  )}
+                </Button>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </div>
+    </div>
+  );
+}
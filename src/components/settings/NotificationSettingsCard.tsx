@@ -0,0 +1,217 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { usePreferences } from '@/hooks/use-preferences';
+import type { UrgencyLevel } from '@/lib/caseReview';
+import { DEFAULT_PREFERENCES, NotificationPreferences } from '@/lib/preferences';
+import {
+  playChime,
+  requestNotificationPermission,
+  showBrowserNotification,
+  supportsBrowserNotifications,
+} from '@/lib/notifications';
+import { BellRing, Loader2 } from 'lucide-react';
+
+const urgencyOptions: { value: UrgencyLevel; label: string }[] = [
+  { value: 'high', label: 'High' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'low', label: 'Low' },
+];
+
+const DEFAULT_QUIET_HOURS = { quiet_hours_start: '22:00', quiet_hours_end: '07:00' };
+
+export function NotificationSettingsCard() {
+  const { toast } = useToast();
+  const [values, setValues] = useState<NotificationPreferences>(DEFAULT_PREFERENCES.notifications);
+  const { preferences, savePreferences } = usePreferences();
+
+  useEffect(() => {
+    setValues(preferences.notifications);
+  }, [preferences.notifications]);
+
+  const update = (changes: Partial<NotificationPreferences>) => setValues(prev => ({ ...prev, ...changes }));
+
+  const hasQuietHours = !!values.quiet_hours_start;
+
+  const handleEnabledChange = async (enabled: boolean) => {
+    if (!enabled) {
+      update({ enabled });
+      return;
+    }
+
+    const permission = await requestNotificationPermission();
+    if (permission !== 'granted') {
+      toast({
+        title: 'Notifications blocked',
+        description: supportsBrowserNotifications()
+          ? 'Allow notifications for this site in your browser settings, then try again.'
+          : 'This browser does not support notifications.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    update({ enabled });
+  };
+
+  const toggleUrgency = (urgency: UrgencyLevel, checked: boolean) => {
+    update({
+      urgencies: checked
+        ? [...values.urgencies, urgency]
+        : values.urgencies.filter(u => u !== urgency),
+    });
+  };
+
+  const handleTest = () => {
+    showBrowserNotification('Test notification', 'New patients will appear like this.', 'test', () => undefined);
+    if (values.sound) playChime();
+  };
+
+  const handleSave = () => {
+    savePreferences.mutate({ notifications: values }, {
+      onSuccess: () => {
+        toast({
+          title: 'Notification settings saved',
+          description: values.enabled
+            ? 'You will be notified of new patients in this browser.'
+            : 'Browser notifications are off.',
+        });
+      },
+    });
+  };
+
+  return (
+    <Card className="border-border shadow-healthcare">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <BellRing className="h-5 w-5 text-primary" />
+          <CardTitle className="font-display">Notifications</CardTitle>
+        </div>
+        <CardDescription>Get notified of new patients even when the queue is not open.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label htmlFor="notificationsEnabled">Browser notifications</Label>
+            <p className="text-sm text-muted-foreground">
+              Show a system notification when a matching patient arrives
+            </p>
+          </div>
+          <Switch id="notificationsEnabled" checked={values.enabled} onCheckedChange={handleEnabledChange} />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label htmlFor="notificationSound">Sound</Label>
+            <p className="text-sm text-muted-foreground">Play a chime with each notification</p>
+          </div>
+          <Switch
+            id="notificationSound"
+            checked={values.sound}
+            disabled={!values.enabled}
+            onCheckedChange={(sound) => update({ sound })}
+          />
+        </div>
+
+        <Separator />
+
+        <div className="space-y-3">
+          <div className="space-y-0.5">
+            <Label>Notify me about</Label>
+            <p className="text-sm text-muted-foreground">New triage results at these urgency levels</p>
+          </div>
+          <div className="flex flex-wrap gap-4">
+            {urgencyOptions.map(option => (
+              <div key={option.value} className="flex items-center gap-2">
+                <Checkbox
+                  id={`notify-${option.value}`}
+                  checked={values.urgencies.includes(option.value)}
+                  disabled={!values.enabled}
+                  onCheckedChange={(checked) => toggleUrgency(option.value, checked === true)}
+                />
+                <Label htmlFor={`notify-${option.value}`} className="font-normal">
+                  {option.label}
+                </Label>
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="notifyCriticalAlerts"
+              checked={values.critical_alerts}
+              disabled={!values.enabled}
+              onCheckedChange={(checked) => update({ critical_alerts: checked === true })}
+            />
+            <Label htmlFor="notifyCriticalAlerts" className="font-normal">
+              Critical alerts, such as emergency keywords in chat
+            </Label>
+          </div>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="quietHours">Quiet hours</Label>
+              <p className="text-sm text-muted-foreground">No notifications or sounds during these hours</p>
+            </div>
+            <Switch
+              id="quietHours"
+              checked={hasQuietHours}
+              disabled={!values.enabled}
+              onCheckedChange={(checked) =>
+                update(checked ? DEFAULT_QUIET_HOURS : { quiet_hours_start: null, quiet_hours_end: null })
+              }
+            />
+          </div>
+          {hasQuietHours && (
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="quietHoursStart">From</Label>
+                <Input
+                  id="quietHoursStart"
+                  type="time"
+                  value={values.quiet_hours_start ?? ''}
+                  disabled={!values.enabled}
+                  onChange={(e) => e.target.value && update({ quiet_hours_start: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="quietHoursEnd">Until</Label>
+                <Input
+                  id="quietHoursEnd"
+                  type="time"
+                  value={values.quiet_hours_end ?? ''}
+                  disabled={!values.enabled}
+                  onChange={(e) => e.target.value && update({ quiet_hours_end: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={handleSave} disabled={savePreferences.isPending}>
+            {savePreferences.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Save Notification Settings'
+            )}
+          </Button>
+          <Button variant="outline" onClick={handleTest} disabled={!values.enabled}>
+            Send Test
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,205 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { usePreferences } from '@/hooks/use-preferences';
+import { ALL } from '@/lib/listFilters';
+import {
+  DEFAULT_PREFERENCES,
+  LANGUAGE_LABELS,
+  Language,
+  QueueFilterPreferences,
+  THEME_LABELS,
+  Theme,
+  UserPreferences,
+} from '@/lib/preferences';
+import { QUEUE_STATUS_LABELS, QueueView } from '@/lib/queueStatus';
+import { Loader2, SlidersHorizontal } from 'lucide-react';
+
+type PreferenceValues = Omit<UserPreferences, 'notifications'>;
+
+const pickValues = ({ notifications, ...values }: UserPreferences): PreferenceValues => values;
+
+const viewOptions: { value: QueueView; label: string }[] = [
+  { value: 'active', label: 'Active' },
+  ...(Object.keys(QUEUE_STATUS_LABELS) as QueueView[]).map(status => ({
+    value: status,
+    label: QUEUE_STATUS_LABELS[status],
+  })),
+];
+
+const urgencyOptions: { value: QueueFilterPreferences['urgency']; label: string }[] = [
+  { value: ALL, label: 'All urgencies' },
+  { value: 'high', label: 'High' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'low', label: 'Low' },
+];
+
+const assignmentOptions: { value: QueueFilterPreferences['assigned_to']; label: string }[] = [
+  { value: ALL, label: 'All clinicians' },
+  { value: 'mine', label: 'Assigned to me' },
+  { value: 'unassigned', label: 'Unassigned' },
+];
+
+export function PreferencesCard() {
+  const { userRole } = useAuth();
+  const { toast } = useToast();
+  const [values, setValues] = useState<PreferenceValues>(pickValues(DEFAULT_PREFERENCES));
+  const { preferences, savePreferences } = usePreferences();
+
+  useEffect(() => {
+    setValues(pickValues(preferences));
+  }, [preferences]);
+
+  const update = (changes: Partial<PreferenceValues>) => setValues(prev => ({ ...prev, ...changes }));
+
+  const updateQueueFilters = (changes: Partial<QueueFilterPreferences>) =>
+    update({ queue_filters: { ...values.queue_filters, ...changes } });
+
+  const handleSave = () => {
+    savePreferences.mutate(values, {
+      onSuccess: () => {
+        toast({
+          title: 'Preferences saved',
+          description: 'Your preferences will apply wherever you sign in.',
+        });
+      },
+    });
+  };
+
+  return (
+    <Card className="border-border shadow-healthcare">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <SlidersHorizontal className="h-5 w-5 text-primary" />
+          <CardTitle className="font-display">Preferences</CardTitle>
+        </div>
+        <CardDescription>Configure how the app looks and what it keeps.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="theme">Theme</Label>
+            <Select value={values.theme} onValueChange={(theme) => update({ theme: theme as Theme })}>
+              <SelectTrigger id="theme">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(THEME_LABELS) as Theme[]).map(theme => (
+                  <SelectItem key={theme} value={theme}>{THEME_LABELS[theme]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="language">Language & region</Label>
+            <Select value={values.language} onValueChange={(language) => update({ language: language as Language })}>
+              <SelectTrigger id="language">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(LANGUAGE_LABELS) as Language[]).map(language => (
+                  <SelectItem key={language} value={language}>{LANGUAGE_LABELS[language]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">Used for dates and times</p>
+          </div>
+        </div>
+
+        {userRole === 'patient' && (
+          <>
+            <Separator />
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="retention">Session-Based Data</Label>
+                <p className="text-sm text-muted-foreground">
+                  Delete your chats, intake forms and results when you sign out. Cases still being
+                  handled by staff are deleted once they close.
+                </p>
+              </div>
+              <Switch
+                id="retention"
+                checked={values.session_data}
+                onCheckedChange={(session_data) => update({ session_data })}
+              />
+            </div>
+          </>
+        )}
+
+        {userRole === 'healthcare_staff' && (
+          <>
+            <Separator />
+            <div className="space-y-3">
+              <div className="space-y-0.5">
+                <Label>Default queue filters</Label>
+                <p className="text-sm text-muted-foreground">What the priority queue shows when you open it</p>
+              </div>
+              <div className="grid gap-4 sm:grid-cols-3">
+                <Select
+                  value={values.queue_filters.view}
+                  onValueChange={(view) => updateQueueFilters({ view: view as QueueView })}
+                >
+                  <SelectTrigger aria-label="Queue view">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {viewOptions.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={values.queue_filters.urgency}
+                  onValueChange={(urgency) =>
+                    updateQueueFilters({ urgency: urgency as QueueFilterPreferences['urgency'] })
+                  }
+                >
+                  <SelectTrigger aria-label="Urgency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {urgencyOptions.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={values.queue_filters.assigned_to}
+                  onValueChange={(assigned_to) =>
+                    updateQueueFilters({ assigned_to: assigned_to as QueueFilterPreferences['assigned_to'] })
+                  }
+                >
+                  <SelectTrigger aria-label="Assigned clinician">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {assignmentOptions.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </>
+        )}
+
+        <Button onClick={handleSave} disabled={savePreferences.isPending}>
+          {savePreferences.isPending ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            'Save Preferences'
+          )}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,195 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { DEFAULT_QUEUE_SETTINGS, QueueSettings } from '@/data/queueSettings';
+import { useQueueSettings, useUpdateQueueSettings } from '@/data/hooks/queueSettings';
+import { ListOrdered, Loader2 } from 'lucide-react';
+
+type NumericSetting = Exclude<keyof QueueSettings, 'flagged_conditions'>;
+
+interface NumericField {
+  key: NumericSetting;
+  label: string;
+  min: number;
+  max: number;
+}
+
+const urgencyFields: { label: string; points: NumericField; maxWait: NumericField }[] = [
+  {
+    label: 'High',
+    points: { key: 'urgency_points_high', label: 'Points', min: 0, max: 1000 },
+    maxWait: { key: 'max_wait_high_minutes', label: 'Max wait (min)', min: 1, max: 1440 },
+  },
+  {
+    label: 'Medium',
+    points: { key: 'urgency_points_medium', label: 'Points', min: 0, max: 1000 },
+    maxWait: { key: 'max_wait_medium_minutes', label: 'Max wait (min)', min: 1, max: 1440 },
+  },
+  {
+    label: 'Low',
+    points: { key: 'urgency_points_low', label: 'Points', min: 0, max: 1000 },
+    maxWait: { key: 'max_wait_low_minutes', label: 'Max wait (min)', min: 1, max: 1440 },
+  },
+];
+
+const modifierFields: NumericField[] = [
+  { key: 'wait_points', label: 'Points per full target waited', min: 0, max: 1000 },
+  { key: 'age_risk_points', label: 'Age under 2 or 65+', min: 0, max: 1000 },
+  { key: 'flagged_condition_points', label: 'Flagged condition', min: 0, max: 1000 },
+];
+
+const claimExpiryField: NumericField = { key: 'claim_expiry_minutes', label: 'Claim expiry (minutes)', min: 1, max: 480 };
+
+const alertEscalationField: NumericField = {
+  key: 'alert_escalation_minutes',
+  label: 'Escalate alerts after (minutes)',
+  min: 1,
+  max: 1440,
+};
+
+const allNumericFields = [
+  claimExpiryField,
+  alertEscalationField,
+  ...urgencyFields.flatMap(f => [f.points, f.maxWait]),
+  ...modifierFields,
+];
+
+type FormValues = Record<NumericSetting, string>;
+
+const toFormValues = (settings: QueueSettings) =>
+  Object.fromEntries(allNumericFields.map(f => [f.key, String(settings[f.key])])) as FormValues;
+
+export function QueueSettingsCard() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [values, setValues] = useState<FormValues>(toFormValues(DEFAULT_QUEUE_SETTINGS));
+  const [flaggedConditions, setFlaggedConditions] = useState(DEFAULT_QUEUE_SETTINGS.flagged_conditions.join(', '));
+  const { data: settings } = useQueueSettings();
+  const saveSettings = useUpdateQueueSettings(user?.id);
+
+  useEffect(() => {
+    if (!settings) return;
+    setValues(toFormValues(settings));
+    setFlaggedConditions(settings.flagged_conditions.join(', '));
+  }, [settings]);
+
+  const handleSave = () => {
+    if (!user) return;
+
+    const changes: Partial<QueueSettings> = {};
+    for (const field of allNumericFields) {
+      const value = Number(values[field.key]);
+      if (!Number.isInteger(value) || value < field.min || value > field.max) {
+        toast({
+          title: 'Invalid value',
+          description: `${field.label} must be a whole number between ${field.min} and ${field.max}.`,
+          variant: 'destructive',
+        });
+        return;
+      }
+      changes[field.key] = value;
+    }
+    changes.flagged_conditions = flaggedConditions
+      .split(',')
+      .map(c => c.trim().toLowerCase())
+      .filter(Boolean);
+
+    saveSettings.mutate(changes, {
+      onSuccess: () => {
+        toast({
+          title: 'Queue settings saved',
+          description: 'The priority queue will use the new settings.',
+        });
+      },
+    });
+  };
+
+  const renderInput = (field: NumericField) => (
+    <div key={field.key} className="space-y-2">
+      <Label htmlFor={field.key}>{field.label}</Label>
+      <Input
+        id={field.key}
+        type="number"
+        min={field.min}
+        max={field.max}
+        value={values[field.key]}
+        onChange={(e) => setValues(prev => ({ ...prev, [field.key]: e.target.value }))}
+      />
+    </div>
+  );
+
+  return (
+    <Card className="border-border shadow-healthcare">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <ListOrdered className="h-5 w-5 text-primary" />
+          <CardTitle className="font-display">Queue Settings</CardTitle>
+        </div>
+        <CardDescription>Configure how the priority queue behaves for all staff.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          {renderInput(claimExpiryField)}
+          <p className="text-sm text-muted-foreground">
+            A claimed case is released to the queue after this long without activity.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          {renderInput(alertEscalationField)}
+          <p className="text-sm text-muted-foreground">
+            High-severity alerts nobody has acknowledged by then are escalated to administrators.
+          </p>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-4">
+          <div>
+            <h4 className="font-medium text-foreground">Priority Score</h4>
+            <p className="text-sm text-muted-foreground">
+              Patients are ordered by urgency points plus wait and risk modifiers. Waiting longer
+              than the maximum wait for their urgency flags the patient as over target.
+            </p>
+          </div>
+          {urgencyFields.map(field => (
+            <div key={field.label} className="grid gap-4 sm:grid-cols-3 sm:items-end">
+              <p className="text-sm font-medium text-foreground sm:pb-2">{field.label} urgency</p>
+              {renderInput(field.points)}
+              {renderInput(field.maxWait)}
+            </div>
+          ))}
+          <div className="grid gap-4 sm:grid-cols-3">
+            {modifierFields.map(renderInput)}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="flaggedConditions">Flagged conditions</Label>
+            <Input
+              id="flaggedConditions"
+              placeholder="e.g. diabetes, asthma"
+              value={flaggedConditions}
+              onChange={(e) => setFlaggedConditions(e.target.value)}
+            />
+            <p className="text-sm text-muted-foreground">Comma-separated, matched against intake conditions.</p>
+          </div>
+        </div>
+
+        <Button onClick={handleSave} disabled={saveSettings.isPending}>
+          {saveSettings.isPending ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            'Save Queue Settings'
+          )}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
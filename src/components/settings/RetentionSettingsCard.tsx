@@ -0,0 +1,152 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import type { RetentionPolicy, RetentionPolicyChanges } from '@/data/retentionPolicies';
+import { useRetentionPolicies, useUpdateRetentionPolicies } from '@/data/hooks/retentionPolicies';
+import {
+  MAX_RETENTION_DAYS,
+  RETENTION_ACTION_LABELS,
+  RETENTION_TABLE_LABELS,
+  RetentionAction,
+  RetentionTable,
+} from '@/lib/retention';
+import { Archive, Loader2 } from 'lucide-react';
+
+// Days are kept as typed; an empty field keeps rows indefinitely
+interface PolicyValues {
+  days: string;
+  action: RetentionAction;
+}
+
+type FormValues = Partial<Record<RetentionTable, PolicyValues>>;
+
+const toFormValues = (policies: RetentionPolicy[]): FormValues =>
+  Object.fromEntries(policies.map(p => [
+    p.table_name,
+    { days: p.retention_days === null ? '' : String(p.retention_days), action: p.action },
+  ]));
+
+export function RetentionSettingsCard() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [values, setValues] = useState<FormValues>({});
+  const { data: policies, isLoading } = useRetentionPolicies();
+  const savePolicies = useUpdateRetentionPolicies(user?.id);
+
+  useEffect(() => {
+    if (policies) setValues(toFormValues(policies));
+  }, [policies]);
+
+  const update = (table: RetentionTable, changes: Partial<PolicyValues>) =>
+    setValues(prev => ({ ...prev, [table]: { ...prev[table], ...changes } }));
+
+  const handleSave = () => {
+    if (!user || !policies) return;
+
+    const changes: Partial<Record<RetentionTable, RetentionPolicyChanges>> = {};
+    for (const policy of policies) {
+      const { days, action } = values[policy.table_name];
+      const retentionDays = days.trim() === '' ? null : Number(days);
+      if (retentionDays !== null && (!Number.isInteger(retentionDays) || retentionDays < 1 || retentionDays > MAX_RETENTION_DAYS)) {
+        toast({
+          title: 'Invalid value',
+          description: `${RETENTION_TABLE_LABELS[policy.table_name]} must be kept for a whole number of days between 1 and ${MAX_RETENTION_DAYS}, or left empty.`,
+          variant: 'destructive',
+        });
+        return;
+      }
+      changes[policy.table_name] = { retention_days: retentionDays, action };
+    }
+
+    savePolicies.mutate(changes, {
+      onSuccess: () => {
+        toast({
+          title: 'Retention settings saved',
+          description: 'The nightly purge will use the new periods.',
+        });
+      },
+    });
+  };
+
+  return (
+    <Card className="border-border shadow-healthcare">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Archive className="h-5 w-5 text-primary" />
+          <CardTitle className="font-display">Data Retention</CardTitle>
+        </div>
+        <CardDescription>
+          How long patient data is kept. Expired records are purged every night; cases still in the
+          queue are never purged.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {policies?.map(policy => values[policy.table_name] && (
+              <div key={policy.table_name} className="grid gap-4 sm:grid-cols-3 sm:items-end">
+                <p className="text-sm font-medium text-foreground sm:pb-2">
+                  {RETENTION_TABLE_LABELS[policy.table_name]}
+                </p>
+                <div className="space-y-2">
+                  <Label htmlFor={`retention-${policy.table_name}`}>Keep for (days)</Label>
+                  <Input
+                    id={`retention-${policy.table_name}`}
+                    type="number"
+                    min={1}
+                    max={MAX_RETENTION_DAYS}
+                    placeholder="Indefinitely"
+                    value={values[policy.table_name].days}
+                    onChange={(e) => update(policy.table_name, { days: e.target.value })}
+                  />
+                </div>
+                {policy.table_name === 'triage_results' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="retention-action">Then</Label>
+                    <Select
+                      value={values[policy.table_name].action}
+                      onValueChange={(action) => update(policy.table_name, { action: action as RetentionAction })}
+                    >
+                      <SelectTrigger id="retention-action">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(RETENTION_ACTION_LABELS) as RetentionAction[]).map(action => (
+                          <SelectItem key={action} value={action}>{RETENTION_ACTION_LABELS[action]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+            ))}
+            <p className="text-sm text-muted-foreground">
+              Anonymised triage results keep their urgency, status and timings for analytics, with the
+              patient, notes and linked records removed.
+            </p>
+          </div>
+        )}
+
+        <Button onClick={handleSave} disabled={savePolicies.isPending || isLoading}>
+          {savePolicies.isPending ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            'Save Retention Settings'
+          )}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
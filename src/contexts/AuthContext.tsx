@@ -1,16 +1,22 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { queryClient } from '@/data/queryClient';
+import { getUserRole } from '@/data/userRoles';
+import { purgeSessionData } from '@/data/retentionPolicies';
+import type { AppRole, RoleStatus as AppRoleStatus } from '@/lib/roles';
 
-type UserRole = 'patient' | 'healthcare_staff' | null;
+type UserRole = AppRole | null;
+type RoleStatus = AppRoleStatus | null;
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
   userRole: UserRole;
+  roleStatus: RoleStatus;
   loading: boolean;
   signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
-  signUp: (email: string, password: string, role: 'patient' | 'healthcare_staff', fullName?: string) => Promise<{ error: Error | null }>;
+  signUp: (email: string, password: string, role: 'patient' | 'healthcare_staff', fullName?: string, invitationCode?: string) => Promise<{ error: Error | null }>;
   signOut: () => Promise<void>;
 }
 
@@ -20,21 +26,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [userRole, setUserRole] = useState<UserRole>(null);
+  const [roleStatus, setRoleStatus] = useState<RoleStatus>(null);
   const [loading, setLoading] = useState(true);
 
   const fetchUserRole = async (userId: string) => {
     try {
-      const { data, error } = await supabase
-        .from('user_roles')
-        .select('role')
-        .eq('user_id', userId)
-        .single();
-
-      if (error) {
-        console.error('Error fetching role:', error);
-        return null;
-      }
-      return data?.role as UserRole;
+      return await getUserRole(userId);
     } catch (error) {
       console.error('Error fetching role:', error);
       return null;
@@ -52,11 +49,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         if (session?.user) {
           setTimeout(async () => {
             const role = await fetchUserRole(session.user.id);
-            setUserRole(role);
+            setUserRole(role?.role ?? null);
+            setRoleStatus(role?.status ?? null);
             setLoading(false);
           }, 0);
         } else {
           setUserRole(null);
+          setRoleStatus(null);
           setLoading(false);
         }
       }
@@ -69,7 +68,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       
       if (session?.user) {
         const role = await fetchUserRole(session.user.id);
-        setUserRole(role);
+        setUserRole(role?.role ?? null);
+        setRoleStatus(role?.status ?? null);
       }
       setLoading(false);
     });
@@ -82,15 +82,21 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return { error: error as Error | null };
   };
 
-  const signUp = async (email: string, password: string, role: 'patient' | 'healthcare_staff', fullName?: string) => {
+  const signUp = async (email: string, password: string, role: 'patient' | 'healthcare_staff', fullName?: string, invitationCode?: string) => {
     const redirectUrl = `${window.location.origin}/`;
     
-    const { data, error } = await supabase.auth.signUp({
+    // The role is assigned by the signup trigger; staff stay pending unless
+    // the invitation code is valid
+    const { error } = await supabase.auth.signUp({
       email,
       password,
       options: {
         emailRedirectTo: redirectUrl,
-        data: { full_name: fullName }
+        data: {
+          full_name: fullName,
+          requested_role: role,
+          invitation_code: invitationCode?.trim() || undefined,
+        }
       }
     });
 
@@ -98,28 +104,28 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       return { error: error as Error };
     }
 
-    // Insert user role
-    if (data.user) {
-      const { error: roleError } = await supabase
-        .from('user_roles')
-        .insert({ user_id: data.user.id, role });
-
-      if (roleError) {
-        console.error('Error setting role:', roleError);
-        return { error: new Error('Failed to set user role') };
-      }
-    }
-
     return { error: null };
   };
 
   const signOut = async () => {
+    if (userRole === 'patient') {
+      // Needs the session, so runs first; a failure must not keep the user signed in
+      try {
+        await purgeSessionData();
+      } catch (error) {
+        console.error('Error purging session data:', error);
+      }
+    }
+
     await supabase.auth.signOut();
+    // Cached data belongs to the previous user
+    queryClient.clear();
     setUserRole(null);
+    setRoleStatus(null);
   };
 
   return (
-    <AuthContext.Provider value={{ user, session, userRole, loading, signIn, signUp, signOut }}>
+    <AuthContext.Provider value={{ user, session, userRole, roleStatus, loading, signIn, signUp, signOut }}>
       {children}
     </AuthContext.Provider>
   );
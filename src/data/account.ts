@@ -0,0 +1,30 @@
+import { supabase } from '@/integrations/supabase/client';
+
+/** Row counts from public.delete_my_account */
+export interface AccountDeletionReport {
+  deleted: {
+    chat_sessions: number;
+    patient_intake: number;
+    triage_results: number;
+    alerts: number;
+    alert_reads: number;
+    user_preferences: number;
+    user_roles: number;
+    profiles: number;
+  };
+  /** Records that stay but no longer name the user */
+  anonymised: {
+    reviewed_cases: number;
+    assigned_cases: number;
+    acknowledged_alerts: number;
+    alert_events: number;
+    staff_invitations: number;
+  };
+  deleted_at: string;
+}
+
+export async function deleteMyAccount(): Promise<AccountDeletionReport> {
+  const { data, error } = await supabase.rpc('delete_my_account');
+  if (error) throw error;
+  return data as unknown as AccountDeletionReport;
+}
@@ -0,0 +1,111 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { DateRange, includesSearch, isInDateRange, toCreatedAtBounds, toSearchPattern } from '@/data/filters';
+import { CATCH_UP_LIMIT, Cursor, Page, SortOrder, paginate, toPage } from '@/data/pagination';
+
+export interface Alert extends Tables<'alerts'> {
+  /** The current user's read, if any; other users' reads are not visible */
+  reads?: { read_at: string }[];
+}
+
+export type AlertEvent = Tables<'alert_events'>;
+
+export const isAlertRead = (alert: Alert) => !!alert.reads?.length;
+
+export type ReadState = 'unread' | 'read';
+
+export interface AlertFilters extends DateRange {
+  readState?: ReadState;
+  /** Matches the alert message */
+  search?: string;
+}
+
+const ALERT_COLUMNS = '*, reads:alert_reads(read_at)';
+
+const selectAlerts = (options?: { count: 'exact'; head: boolean }) =>
+  supabase.from('alerts').select(ALERT_COLUMNS, options);
+
+type AlertQuery = ReturnType<typeof selectAlerts>;
+
+function applyAlertFilters(query: AlertQuery, filters: AlertFilters): AlertQuery {
+  let filtered = query;
+  const { since, before } = toCreatedAtBounds(filters);
+  const pattern = toSearchPattern(filters.search ?? '');
+
+  // reads only ever holds the caller's own read
+  if (filters.readState === 'unread') filtered = filtered.is('reads', null);
+  if (filters.readState === 'read') filtered = filtered.not('reads', 'is', null);
+  if (since) filtered = filtered.gte('created_at', since);
+  if (before) filtered = filtered.lt('created_at', before);
+  if (pattern) filtered = filtered.ilike('message', pattern);
+  return filtered;
+}
+
+/** Client-side mirror of applyAlertFilters, for rows arriving over realtime */
+export function matchesAlertFilters(alert: Alert, filters: AlertFilters) {
+  if (filters.readState === 'unread' && isAlertRead(alert)) return false;
+  if (filters.readState === 'read' && !isAlertRead(alert)) return false;
+  if (!isInDateRange(alert.created_at, filters)) return false;
+  return !filters.search?.trim() || includesSearch(alert.message, filters.search);
+}
+
+export async function listAlerts(
+  filters: AlertFilters,
+  sort: Exclude<SortOrder, 'urgency'>,
+  cursor: Cursor | null
+): Promise<Page<Alert>> {
+  const { data, error } = await paginate(applyAlertFilters(selectAlerts(), filters), sort, cursor);
+
+  if (error) throw error;
+  return toPage(data as unknown as Alert[]);
+}
+
+export async function countUnreadAlerts(): Promise<number> {
+  const { count, error } = await applyAlertFilters(selectAlerts({ count: 'exact', head: true }), { readState: 'unread' });
+
+  if (error) throw error;
+  return count ?? 0;
+}
+
+export async function listAlertsChangedSince(since: string): Promise<Alert[]> {
+  const { data, error } = await selectAlerts()
+    .gte('updated_at', since)
+    .limit(CATCH_UP_LIMIT);
+
+  if (error) throw error;
+  return data as unknown as Alert[];
+}
+
+export async function markAlertAsRead(alertId: string, userId: string): Promise<{ read_at: string }> {
+  const { data, error } = await supabase
+    .from('alert_reads')
+    .upsert({ alert_id: alertId, user_id: userId }, { onConflict: 'alert_id,user_id', ignoreDuplicates: true })
+    .select('read_at')
+    .maybeSingle();
+
+  if (error) throw error;
+  // Already read, e.g. in another tab
+  return data ?? { read_at: new Date().toISOString() };
+}
+
+/**
+ * Takes ownership of an alert. The acknowledging user and time are stamped
+ * by the database, which also records the read.
+ */
+export async function acknowledgeAlert(id: string) {
+  const { data, error } = await supabase.rpc('acknowledge_alert', { _alert_id: id });
+
+  if (error) throw error;
+  return data;
+}
+
+export async function listAlertEvents(alertId: string): Promise<AlertEvent[]> {
+  const { data, error } = await supabase
+    .from('alert_events')
+    .select('*')
+    .eq('alert_id', alertId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,99 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+
+export type ChatSessionStatus = 'active' | 'completed' | 'abandoned' | 'escalated';
+
+export interface StoredChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+  is_emergency?: boolean;
+}
+
+export interface ChatSessionRecord {
+  id: string;
+  status: ChatSessionStatus;
+  messages: StoredChatMessage[];
+  created_at: string;
+  updated_at: string;
+}
+
+// Active sessions untouched for longer than this are not resumed
+export const SESSION_RESUME_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const toRecord = (row: { id: string; status: string; messages: Json | null; created_at: string; updated_at: string }): ChatSessionRecord => ({
+  id: row.id,
+  status: row.status as ChatSessionStatus,
+  messages: Array.isArray(row.messages) ? (row.messages as unknown as StoredChatMessage[]) : [],
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+export async function startChatSession(userId: string, messages: StoredChatMessage[]): Promise<ChatSessionRecord> {
+  const { data, error } = await supabase
+    .from('chat_sessions')
+    .insert({
+      user_id: userId,
+      messages: messages as unknown as Json,
+      status: 'active',
+    })
+    .select('*')
+    .single();
+
+  if (error) throw error;
+  return toRecord(data);
+}
+
+export async function appendChatMessages(sessionId: string, messages: StoredChatMessage[]): Promise<void> {
+  const { error } = await supabase.rpc('append_chat_messages', {
+    _session_id: sessionId,
+    _messages: messages as unknown as Json,
+  });
+
+  if (error) throw error;
+}
+
+export async function closeChatSession(sessionId: string, status: Exclude<ChatSessionStatus, 'active'>): Promise<void> {
+  const { error } = await supabase
+    .from('chat_sessions')
+    .update({ status, closed_at: new Date().toISOString() })
+    .eq('id', sessionId)
+    .eq('status', 'active');
+
+  if (error) throw error;
+}
+
+/**
+ * Returns the patient's most recent active session, if it is recent enough to
+ * resume. Older active sessions are closed as abandoned.
+ */
+export async function resumeActiveChatSession(userId: string): Promise<ChatSessionRecord | null> {
+  const { data, error } = await supabase
+    .from('chat_sessions')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .order('updated_at', { ascending: false });
+
+  if (error) throw error;
+  if (!data || data.length === 0) return null;
+
+  const [latest, ...stale] = data;
+  const isResumable = Date.now() - new Date(latest.updated_at).getTime() < SESSION_RESUME_WINDOW_MS;
+  const toAbandon = isResumable ? stale : data;
+
+  await Promise.all(toAbandon.map(session => closeChatSession(session.id, 'abandoned')));
+
+  return isResumable ? toRecord(latest) : null;
+}
+
+export async function listChatSessionsForUser(userId: string): Promise<ChatSessionRecord[]> {
+  const { data, error } = await supabase
+    .from('chat_sessions')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data.map(toRecord);
+}
@@ -0,0 +1,35 @@
+import { ChatSessionRecord, listChatSessionsForUser } from '@/data/chatSessions';
+import { Intake, listIntakesForUser } from '@/data/intakes';
+import { Profile, getProfile } from '@/data/profiles';
+import { TriageResult, listTriageResultsForUser } from '@/data/triageResults';
+
+// Bump when the archive's shape changes, so readers can tell versions apart
+export const DATA_EXPORT_VERSION = 1;
+
+/** Everything stored about a patient, as served to them by RLS */
+export interface DataExport {
+  version: typeof DATA_EXPORT_VERSION;
+  exported_at: string;
+  profile: Profile | null;
+  intakes: Intake[];
+  chat_sessions: ChatSessionRecord[];
+  triage_results: TriageResult[];
+}
+
+export async function fetchDataExport(userId: string): Promise<DataExport> {
+  const [profile, intakes, chatSessions, triageResults] = await Promise.all([
+    getProfile(userId),
+    listIntakesForUser(userId),
+    listChatSessionsForUser(userId),
+    listTriageResultsForUser(userId),
+  ]);
+
+  return {
+    version: DATA_EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    profile,
+    intakes,
+    chat_sessions: chatSessions,
+    triage_results: triageResults,
+  };
+}
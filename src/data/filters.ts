@@ -0,0 +1,45 @@
+/** Dates are yyyy-mm-dd from date inputs, read as local days */
+export interface DateRange {
+  from?: string;
+  to?: string;
+}
+
+const startOfLocalDay = (date: string) => new Date(`${date}T00:00:00`);
+
+/** Inclusive date range as created_at bounds; `before` is the start of the day after `to` */
+export function toCreatedAtBounds({ from, to }: DateRange) {
+  const before = to ? startOfLocalDay(to) : null;
+  before?.setDate(before.getDate() + 1);
+  return {
+    since: from ? startOfLocalDay(from).toISOString() : null,
+    before: before ? before.toISOString() : null,
+  };
+}
+
+export function isInDateRange(createdAt: string, range: DateRange) {
+  const { since, before } = toCreatedAtBounds(range);
+  const time = new Date(createdAt).getTime();
+  return (!since || time >= new Date(since).getTime()) && (!before || time < new Date(before).getTime());
+}
+
+/**
+ * ILIKE pattern for a search term. Characters that PostgREST treats as
+ * syntax in or() filters are dropped rather than escaped.
+ */
+export function toSearchPattern(search: string) {
+  const term = search.replace(/[%_*,()"\\]/g, ' ').trim();
+  return term ? `*${term}*` : null;
+}
+
+export const includesSearch = (value: string | null | undefined, search: string) =>
+  !!value?.toLowerCase().includes(search.trim().toLowerCase());
+
+/**
+ * to_tsquery text for a search box: every word must match, the last one as
+ * a prefix so results appear while typing. Mirrors to_prefix_tsquery in SQL.
+ */
+export function toPrefixTsQuery(search: string) {
+  const words = search.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  if (words.length === 0) return null;
+  return words.map((word, i) => (i === words.length - 1 ? `${word}:*` : word)).join(' & ');
+}
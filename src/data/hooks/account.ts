@@ -0,0 +1,10 @@
+import { useMutation } from '@tanstack/react-query';
+import { deleteMyAccount } from '@/data/account';
+
+// The caller signs out afterwards, which clears every cached query
+export function useDeleteAccount() {
+  return useMutation({
+    mutationFn: deleteMyAccount,
+    meta: { errorTitle: 'Account not deleted' },
+  });
+}
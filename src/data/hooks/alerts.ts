@@ -0,0 +1,91 @@
+import { useCallback } from 'react';
+import { QueryClient, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/data/queryKeys';
+import {
+  Alert,
+  AlertFilters,
+  acknowledgeAlert,
+  countUnreadAlerts,
+  listAlertEvents,
+  listAlerts,
+  listAlertsChangedSince,
+  markAlertAsRead,
+  matchesAlertFilters,
+} from '@/data/alerts';
+import { Cursor, Page, compareBySort } from '@/data/pagination';
+import { useRealtimeList } from '@/hooks/use-realtime-list';
+
+type AlertSort = 'newest' | 'oldest';
+
+const compareAlerts = { newest: compareBySort('newest'), oldest: compareBySort('oldest') };
+
+// Patches one alert in every cached page, so a mutation shows up at once
+function patchCachedAlert(queryClient: QueryClient, id: string, changes: Partial<Alert>) {
+  queryClient.setQueriesData<Page<Alert>>({ queryKey: queryKeys.alerts.list() }, prev =>
+    prev ? { ...prev, items: prev.items.map(a => (a.id === id ? { ...a, ...changes } : a)) } : prev
+  );
+}
+
+export function useAlerts(filters: AlertFilters, sort: AlertSort, cursor: Cursor | null) {
+  const queryClient = useQueryClient();
+  const matches = useCallback((alert: Alert) => matchesAlertFilters(alert, filters), [filters]);
+
+  return useRealtimeList<Alert>({
+    queryKey: queryKeys.alerts.list(filters, sort, cursor),
+    queryFn: () => listAlerts(filters, sort, cursor),
+    channel: 'alerts-changes',
+    table: 'alerts',
+    fetchSince: listAlertsChangedSince,
+    matches,
+    compare: compareAlerts[sort],
+    onChange: () => queryClient.invalidateQueries({ queryKey: queryKeys.alerts.unreadCount() }),
+    errorMessage: 'Failed to load alerts.',
+  });
+}
+
+export function useUnreadAlertCount(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.alerts.unreadCount(),
+    queryFn: countUnreadAlerts,
+    enabled,
+    meta: { errorMessage: 'Failed to load unread alerts.' },
+  });
+}
+
+export function useAlertEvents(alertId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.alerts.events(alertId ?? ''),
+    queryFn: () => listAlertEvents(alertId),
+    enabled: !!alertId,
+    meta: { errorMessage: 'Failed to load the alert history.' },
+  });
+}
+
+export function useMarkAlertAsRead(userId: string | undefined) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (alertId: string) => markAlertAsRead(alertId, userId),
+    onSuccess: (read, alertId) => {
+      patchCachedAlert(queryClient, alertId, { reads: [read] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.alerts.unreadCount() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.alerts.events(alertId) });
+    },
+    meta: { errorMessage: 'Could not mark the alert as read.' },
+  });
+}
+
+export function useAcknowledgeAlert() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: acknowledgeAlert,
+    onSuccess: (acknowledgement, alertId) => {
+      patchCachedAlert(queryClient, alertId, {
+        ...acknowledgement,
+        reads: [{ read_at: acknowledgement.acknowledged_at }],
+      });
+      queryClient.invalidateQueries({ queryKey: queryKeys.alerts.unreadCount() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.alerts.events(alertId) });
+    },
+    meta: { errorTitle: 'Could not acknowledge alert' },
+  });
+}
@@ -0,0 +1,10 @@
+import { useMutation } from '@tanstack/react-query';
+import { fetchDataExport } from '@/data/dataExport';
+
+// A mutation rather than a query: each download should read the latest data
+export function useFetchDataExport(userId: string | undefined) {
+  return useMutation({
+    mutationFn: () => fetchDataExport(userId),
+    meta: { errorMessage: 'Failed to export your data. Please try again.' },
+  });
+}
@@ -0,0 +1,41 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/data/queryKeys';
+import { listChatSessionsForUser } from '@/data/chatSessions';
+import { IntakeSubmission, listIntakesForUser, submitIntakeForTriage } from '@/data/intakes';
+
+export function useChatSessionsForUser(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.chatSessions.forUser(userId ?? ''),
+    queryFn: () => listChatSessionsForUser(userId),
+    enabled: !!userId,
+    meta: { errorMessage: 'Failed to load your conversations.' },
+  });
+}
+
+export function useIntakesForUser(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.intakes.forUser(userId ?? ''),
+    queryFn: () => listIntakesForUser(userId),
+    enabled: !!userId,
+    meta: { errorMessage: 'Failed to load your intake forms.' },
+  });
+}
+
+// A submission creates an intake and a triage result, and may close a chat
+export function useInvalidatePatientRecords() {
+  const queryClient = useQueryClient();
+  return () => Promise.all([
+    queryClient.invalidateQueries({ queryKey: queryKeys.intakes.all }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.triageResults.all }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.chatSessions.all }),
+  ]);
+}
+
+export function useSubmitIntake() {
+  const invalidate = useInvalidatePatientRecords();
+  return useMutation({
+    mutationFn: (submission: IntakeSubmission) => submitIntakeForTriage(submission),
+    onSuccess: () => invalidate(),
+    meta: { errorTitle: 'Could not submit intake' },
+  });
+}
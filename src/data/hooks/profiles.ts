@@ -0,0 +1,40 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/data/queryKeys';
+import { getProfile, listProfilesByIds, listStaffMembers, updateProfile } from '@/data/profiles';
+
+export function useProfile(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.profiles.detail(userId ?? ''),
+    queryFn: () => getProfile(userId),
+    enabled: !!userId,
+    meta: { errorMessage: 'Failed to load your profile.' },
+  });
+}
+
+export function useProfilesByIds(userIds: string[]) {
+  const sortedIds = [...new Set(userIds)].sort();
+  return useQuery({
+    queryKey: queryKeys.profiles.byIds(sortedIds),
+    queryFn: () => listProfilesByIds(sortedIds),
+    enabled: sortedIds.length > 0,
+    meta: { errorMessage: 'Failed to load clinician names.' },
+  });
+}
+
+export function useStaffMembers() {
+  return useQuery({
+    queryKey: queryKeys.profiles.staff(),
+    queryFn: listStaffMembers,
+    staleTime: 5 * 60 * 1000,
+    meta: { errorMessage: 'Failed to load staff members.' },
+  });
+}
+
+export function useUpdateProfile(userId: string | undefined) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (fullName: string) => updateProfile(userId, { full_name: fullName }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.profiles.all }),
+    meta: { errorMessage: 'Failed to update profile.' },
+  });
+}
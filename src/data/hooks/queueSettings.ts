@@ -0,0 +1,21 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/data/queryKeys';
+import { QueueSettings, fetchQueueSettings, updateQueueSettings } from '@/data/queueSettings';
+
+export function useQueueSettings() {
+  return useQuery({
+    queryKey: queryKeys.queueSettings,
+    queryFn: fetchQueueSettings,
+    staleTime: 5 * 60 * 1000,
+    meta: { errorMessage: 'Failed to load queue settings.' },
+  });
+}
+
+export function useUpdateQueueSettings(updatedBy: string | undefined) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (changes: Partial<QueueSettings>) => updateQueueSettings(changes, updatedBy),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.queueSettings }),
+    meta: { errorMessage: 'Failed to save queue settings.' },
+  });
+}
@@ -0,0 +1,27 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/data/queryKeys';
+import { RetentionPolicyChanges, listRetentionPolicies, updateRetentionPolicy } from '@/data/retentionPolicies';
+import type { RetentionTable } from '@/lib/retention';
+
+export function useRetentionPolicies() {
+  return useQuery({
+    queryKey: queryKeys.retentionPolicies,
+    queryFn: listRetentionPolicies,
+    staleTime: 5 * 60 * 1000,
+    meta: { errorMessage: 'Failed to load data retention settings.' },
+  });
+}
+
+export function useUpdateRetentionPolicies(updatedBy: string | undefined) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (changes: Partial<Record<RetentionTable, RetentionPolicyChanges>>) =>
+      Promise.all(
+        (Object.entries(changes) as [RetentionTable, RetentionPolicyChanges][]).map(([table, policy]) =>
+          updateRetentionPolicy(table, policy, updatedBy)
+        )
+      ),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.retentionPolicies }),
+    meta: { errorMessage: 'Failed to save data retention settings.' },
+  });
+}
@@ -0,0 +1,207 @@
+import { useCallback, useMemo } from 'react';
+import { QueryClient, keepPreviousData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/data/queryKeys';
+import {
+  HighRiskPatient,
+  PatientCase,
+  QueueItem,
+  TriageFilters,
+  TriageResult,
+  claimCase,
+  compareQueueItems,
+  countByUrgency,
+  getCase,
+  getWorkloadStats,
+  listCases,
+  listCasesChangedSince,
+  listHighRiskChangedSince,
+  listHighRiskPatients,
+  listQueue,
+  listQueueChangedSince,
+  listTriageResultsForUser,
+  matchesTriageFilters,
+  reassignCase,
+  releaseCase,
+  saveCaseReview,
+  searchTriageResults,
+  updateQueueStatus,
+} from '@/data/triageResults';
+import { Cursor, Page, SortOrder, compareBySort } from '@/data/pagination';
+import { useRealtimeList } from '@/hooks/use-realtime-list';
+import type { CaseReview } from '@/lib/caseReview';
+import { ACTIVE_QUEUE_STATUSES, QueueStatus } from '@/lib/queueStatus';
+
+// Patches one row in every cached triage result, list or page, so a
+// mutation shows up at once without refetching
+function patchCachedResult(queryClient: QueryClient, id: string, changes: Partial<TriageResult>) {
+  const patch = <T extends { id: string }>(items: T[]) =>
+    items.map(item => (item.id === id ? { ...item, ...changes } : item));
+
+  queryClient.setQueriesData<{ id: string } | { id: string }[] | Page<{ id: string }>>(
+    { queryKey: queryKeys.triageResults.all },
+    prev => {
+      if (Array.isArray(prev)) return patch(prev);
+      if (prev && 'items' in prev) return { ...prev, items: patch(prev.items) };
+      if (prev && 'id' in prev && prev.id === id) return { ...prev, ...changes };
+      return prev;
+    }
+  );
+}
+
+const newestCreatedFirst = compareBySort('newest');
+
+const isHighRisk = (result: HighRiskPatient) =>
+  result.urgency === 'high' && ACTIVE_QUEUE_STATUSES.includes(result.queue_status);
+
+const PRIORITY_REFRESH_MS = 30 * 1000;
+
+export function useQueue(filters: TriageFilters, cursor: Cursor | null) {
+  const queryClient = useQueryClient();
+  const matches = useCallback((item: QueueItem) => matchesTriageFilters(item, filters), [filters]);
+
+  return useRealtimeList<QueueItem>({
+    queryKey: queryKeys.triageResults.queue(filters, cursor),
+    queryFn: () => listQueue(filters, cursor),
+    channel: 'queue-changes',
+    table: 'triage_results',
+    fetchSince: listQueueChangedSince,
+    matches,
+    compare: compareQueueItems,
+    // Scores rise while patients wait; the first page is reranked on each refresh
+    refetchInterval: PRIORITY_REFRESH_MS,
+    onChange: () => queryClient.invalidateQueries({ queryKey: queryKeys.triageResults.queueCounts() }),
+    errorMessage: 'Failed to load the queue.',
+  });
+}
+
+export function useQueueCounts(filters: TriageFilters) {
+  return useQuery({
+    queryKey: queryKeys.triageResults.queueCounts(filters),
+    queryFn: () => countByUrgency(filters),
+    placeholderData: keepPreviousData,
+    meta: { errorMessage: 'Failed to load queue totals.' },
+  });
+}
+
+export function useCases(filters: TriageFilters, sort: SortOrder, cursor: Cursor | null) {
+  const matches = useCallback((item: PatientCase) => matchesTriageFilters(item, filters), [filters]);
+  const compare = useMemo(() => compareBySort(sort), [sort]);
+
+  return useRealtimeList<PatientCase>({
+    queryKey: queryKeys.triageResults.cases(filters, sort, cursor),
+    queryFn: () => listCases(filters, sort, cursor),
+    channel: 'cases-changes',
+    table: 'triage_results',
+    fetchSince: listCasesChangedSince,
+    matches,
+    compare,
+    errorMessage: 'Failed to load patient cases.',
+  });
+}
+
+/** A single case, for opening one that is not on the current page */
+export function useCase(id: string | null) {
+  return useQuery({
+    queryKey: queryKeys.triageResults.detail(id ?? ''),
+    queryFn: () => getCase(id),
+    enabled: !!id,
+    meta: { errorMessage: 'Failed to load the case.' },
+  });
+}
+
+export function useTriageSearch(query: string) {
+  const trimmed = query.trim();
+  return useQuery({
+    queryKey: queryKeys.triageResults.search(trimmed),
+    queryFn: () => searchTriageResults(trimmed),
+    enabled: trimmed.length >= 2,
+    placeholderData: keepPreviousData,
+    meta: { errorMessage: 'Search failed. Please try again.' },
+  });
+}
+
+export function useHighRiskPatients() {
+  return useRealtimeList<HighRiskPatient>({
+    queryKey: queryKeys.triageResults.highRisk(),
+    queryFn: () => listHighRiskPatients(ACTIVE_QUEUE_STATUSES),
+    channel: 'high-risk-changes',
+    table: 'triage_results',
+    fetchSince: listHighRiskChangedSince,
+    matches: isHighRisk,
+    compare: newestCreatedFirst,
+    errorMessage: 'Failed to load high-risk patients.',
+  });
+}
+
+export function useTriageResultsForUser(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.triageResults.forUser(userId ?? ''),
+    queryFn: () => listTriageResultsForUser(userId),
+    enabled: !!userId,
+    meta: { errorMessage: 'Failed to load your triage results.' },
+  });
+}
+
+export function useWorkloadStats() {
+  return useQuery({
+    queryKey: queryKeys.triageResults.analytics(),
+    queryFn: () => {
+      const todayStart = new Date();
+      todayStart.setHours(0, 0, 0, 0);
+      return getWorkloadStats(todayStart);
+    },
+    meta: { errorMessage: 'Failed to load analytics.' },
+  });
+}
+
+export function useUpdateQueueStatus() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, status }: { id: string; status: QueueStatus }) => updateQueueStatus(id, status),
+    onSuccess: (changes, { id }) => {
+      patchCachedResult(queryClient, id, changes);
+      queryClient.invalidateQueries({ queryKey: queryKeys.triageResults.queueCounts() });
+    },
+    meta: { errorTitle: 'Could not update status' },
+  });
+}
+
+export function useClaimCase() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: claimCase,
+    onSuccess: (claim, id) => patchCachedResult(queryClient, id, claim),
+    meta: { errorTitle: 'Could not claim case' },
+  });
+}
+
+export function useReleaseCase() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: releaseCase,
+    onSuccess: (claim, id) => patchCachedResult(queryClient, id, claim),
+    meta: { errorTitle: 'Could not release case' },
+  });
+}
+
+export function useReassignCase() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, assigneeId }: { id: string; assigneeId: string }) => reassignCase(id, assigneeId),
+    onSuccess: (claim, { id }) => patchCachedResult(queryClient, id, claim),
+    meta: { errorTitle: 'Could not reassign case' },
+  });
+}
+
+export function useSaveCaseReview() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, review }: { id: string; review: CaseReview }) => saveCaseReview(id, review),
+    onSuccess: (saved, { id }) => {
+      patchCachedResult(queryClient, id, saved);
+      queryClient.invalidateQueries({ queryKey: queryKeys.triageResults.analytics() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.triageResults.queueCounts() });
+    },
+    meta: { errorMessage: 'Failed to save the review. Please try again.' },
+  });
+}
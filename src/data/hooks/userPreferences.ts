@@ -0,0 +1,28 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/data/queryKeys';
+import { fetchUserPreferences, saveUserPreferences } from '@/data/userPreferences';
+import type { UserPreferences } from '@/lib/preferences';
+
+export function useUserPreferences(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.userPreferences(userId ?? ''),
+    queryFn: () => fetchUserPreferences(userId),
+    enabled: !!userId,
+    staleTime: 5 * 60 * 1000,
+    meta: { errorMessage: 'Failed to load your preferences.' },
+  });
+}
+
+/** Saves some preferences; the server keeps the rest as stored */
+export function useSaveUserPreferences(userId: string | undefined) {
+  const queryClient = useQueryClient();
+  const queryKey = queryKeys.userPreferences(userId ?? '');
+
+  return useMutation({
+    mutationFn: (changes: Partial<UserPreferences>) => saveUserPreferences(changes),
+    onSuccess: (preferences) => {
+      queryClient.setQueryData(queryKey, preferences);
+    },
+    meta: { errorMessage: 'Failed to save your preferences.' },
+  });
+}
@@ -0,0 +1,28 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/data/queryKeys';
+import { ManagedUser, listManagedUsers, updateUserRole } from '@/data/userRoles';
+import type { AppRole, RoleStatus } from '@/lib/roles';
+
+export function useManagedUsers() {
+  return useQuery({
+    queryKey: queryKeys.userRoles.managedUsers(),
+    queryFn: listManagedUsers,
+    meta: { errorMessage: 'Failed to load users.' },
+  });
+}
+
+export function useUpdateUserRole(approvedBy: string | undefined) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ userId, changes }: { userId: string; changes: { role?: AppRole; status?: RoleStatus } }) =>
+      updateUserRole(userId, changes, approvedBy),
+    onSuccess: (updated, { userId }) => {
+      queryClient.setQueryData<ManagedUser[]>(queryKeys.userRoles.managedUsers(), prev =>
+        prev?.map(u => (u.user_id === userId ? { ...u, ...updated } : u))
+      );
+      // Staff lists used for reassignment depend on roles
+      queryClient.invalidateQueries({ queryKey: queryKeys.profiles.staff() });
+    },
+    meta: { errorTitle: 'Update failed', errorMessage: 'The change could not be saved. Please try again.' },
+  });
+}
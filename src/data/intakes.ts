@@ -0,0 +1,55 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { ContributingFactor } from '@/lib/triageEngine';
+
+export interface IntakeSubmission {
+  age: number | null;
+  gender: string | null;
+  symptoms: string[];
+  symptom_duration: string | null;
+  existing_conditions: string[];
+  additional_notes: string | null;
+  severity?: number | null;
+  chat_session_id?: string | null;
+  /** Sent again on a retry, so the case is only recorded once */
+  submission_id?: string | null;
+}
+
+export interface TriageSubmissionResult {
+  intake_id: string;
+  triage_result: Tables<'triage_results'>;
+  contributing_factors: ContributingFactor[];
+}
+
+/**
+ * Sends intake data to the triage-intake edge function, which stores the
+ * intake and writes the authoritative triage result.
+ */
+export async function submitIntakeForTriage(submission: IntakeSubmission): Promise<TriageSubmissionResult> {
+  const { data, error } = await supabase.functions.invoke<TriageSubmissionResult>('triage-intake', {
+    body: submission,
+  });
+
+  // The function explains a refused submission in an { error } body, which
+  // the client only reports as a non-2xx status
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => null);
+    throw new Error(typeof body?.error === 'string' ? body.error : error.message);
+  }
+  if (error) throw error;
+  return data;
+}
+
+export type Intake = Tables<'patient_intake'>;
+
+export async function listIntakesForUser(userId: string): Promise<Intake[]> {
+  const { data, error } = await supabase
+    .from('patient_intake')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data;
+}
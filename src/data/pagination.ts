@@ -0,0 +1,108 @@
+import type { UrgencyLevel } from '@/lib/caseReview';
+
+export const PAGE_SIZE = 25;
+
+// Catch-up fetches stop here; beyond it a refetch of the page is cheaper
+export const CATCH_UP_LIMIT = 200;
+
+export type SortOrder = 'newest' | 'oldest' | 'urgency';
+
+export const SORT_LABELS: Record<SortOrder, string> = {
+  newest: 'Newest first',
+  oldest: 'Oldest first',
+  urgency: 'Most urgent first',
+};
+
+/** The last row of a page; the next page starts after it */
+export interface Cursor {
+  id: string;
+  created_at: string;
+  urgency?: UrgencyLevel;
+  /** Queue pages only: the row's score and the moment the queue was ranked at */
+  priority_score?: number;
+  ranked_at?: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: Cursor | null;
+}
+
+type SortColumn = 'id' | 'created_at' | 'urgency';
+
+const SORT_COLUMNS: Record<SortOrder, { column: SortColumn; ascending: boolean }[]> = {
+  newest: [
+    { column: 'created_at', ascending: false },
+    { column: 'id', ascending: false },
+  ],
+  oldest: [
+    { column: 'created_at', ascending: true },
+    { column: 'id', ascending: true },
+  ],
+  // urgency_level is an enum, so it sorts low < medium < high
+  urgency: [
+    { column: 'urgency', ascending: false },
+    { column: 'created_at', ascending: true },
+    { column: 'id', ascending: true },
+  ],
+};
+
+interface PageableQuery<Q> {
+  order(column: string, options: { ascending: boolean }): Q;
+  or(filters: string): Q;
+  limit(count: number): Q;
+}
+
+// Values are quoted because timestamps contain PostgREST's reserved characters
+const quote = (value: string) => `"${value.replace(/"/g, '\\"')}"`;
+
+/**
+ * Keyset filter for rows after the cursor: for sort columns a, b, c that is
+ * a > x OR (a = x AND b > y) OR (a = x AND b = y AND c > z).
+ */
+function afterCursor(sort: SortOrder, cursor: Cursor) {
+  const columns = SORT_COLUMNS[sort];
+  return columns
+    .map(({ column, ascending }, index) => {
+      const equal = columns.slice(0, index).map(c => `${c.column}.eq.${quote(cursor[c.column])}`);
+      const after = `${column}.${ascending ? 'gt' : 'lt'}.${quote(cursor[column])}`;
+      return equal.length ? `and(${[...equal, after].join(',')})` : after;
+    })
+    .join(',');
+}
+
+/** Orders the query and limits it to one page after the cursor, plus one row to detect a next page */
+export function paginate<Q extends PageableQuery<Q>>(query: Q, sort: SortOrder, cursor: Cursor | null): Q {
+  let paged = query;
+  for (const { column, ascending } of SORT_COLUMNS[sort]) {
+    paged = paged.order(column, { ascending });
+  }
+  if (cursor) paged = paged.or(afterCursor(sort, cursor));
+  return paged.limit(PAGE_SIZE + 1);
+}
+
+export function toPage<T extends Cursor>(rows: T[]): Page<T> {
+  if (rows.length <= PAGE_SIZE) return { items: rows, nextCursor: null };
+
+  const items = rows.slice(0, PAGE_SIZE);
+  const last = items[items.length - 1];
+  return {
+    items,
+    nextCursor: { id: last.id, created_at: last.created_at, urgency: last.urgency },
+  };
+}
+
+const URGENCY_RANK: Record<UrgencyLevel, number> = { low: 0, medium: 1, high: 2 };
+
+/** Client-side mirror of a sort order, for rows merged into a cached page */
+export function compareBySort(sort: SortOrder) {
+  return (a: Cursor, b: Cursor) => {
+    for (const { column, ascending } of SORT_COLUMNS[sort]) {
+      const left = column === 'urgency' ? URGENCY_RANK[a.urgency] : a[column];
+      const right = column === 'urgency' ? URGENCY_RANK[b.urgency] : b[column];
+      if (left === right) continue;
+      return (left < right ? -1 : 1) * (ascending ? 1 : -1);
+    }
+    return 0;
+  };
+}
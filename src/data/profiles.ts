@@ -0,0 +1,65 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { StaffMember } from '@/lib/queueClaims';
+
+export type Profile = Tables<'profiles'>;
+
+export const getDisplayName = (profile: Pick<Profile, 'full_name' | 'email'>, fallback: string) =>
+  profile.full_name || profile.email || fallback;
+
+export async function getProfile(userId: string): Promise<Profile | null> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateProfile(userId: string, changes: Pick<Profile, 'full_name'>): Promise<void> {
+  const { error } = await supabase
+    .from('profiles')
+    .update(changes)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
+
+export async function listProfiles(): Promise<Profile[]> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data;
+}
+
+export async function listProfilesByIds(userIds: string[]): Promise<Profile[]> {
+  if (userIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .in('user_id', userIds);
+
+  if (error) throw error;
+  return data;
+}
+
+export async function listStaffMembers(): Promise<StaffMember[]> {
+  const { data: roles, error } = await supabase
+    .from('user_roles')
+    .select('user_id')
+    .eq('role', 'healthcare_staff')
+    .eq('status', 'approved');
+
+  if (error) throw error;
+
+  const profiles = await listProfilesByIds(roles.map(r => r.user_id));
+  return profiles
+    .map(p => ({ user_id: p.user_id, name: getDisplayName(p, 'Unknown clinician') }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
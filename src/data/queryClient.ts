@@ -0,0 +1,49 @@
+import { MutationCache, QueryCache, QueryClient } from '@tanstack/react-query';
+import { toast } from '@/hooks/use-toast';
+
+// Queries and mutations may set meta for a friendlier toast. Mutations without
+// an errorMessage show the server's message, e.g. a rejected queue transition.
+declare module '@tanstack/react-query' {
+  interface Register {
+    queryMeta: { errorMessage?: string };
+    mutationMeta: { errorTitle?: string; errorMessage?: string };
+  }
+}
+
+const MAX_RETRIES = 2;
+
+// Postgres and RLS errors will not succeed on a retry; network errors might
+const isRetryable = (error: unknown) => {
+  const code = (error as { code?: string } | null)?.code;
+  return !code || code.startsWith('08') || code === 'PGRST301';
+};
+
+export const queryClient = new QueryClient({
+  queryCache: new QueryCache({
+    onError: (error, query) => {
+      console.error('Query failed:', query.queryKey, error);
+      toast({
+        title: 'Error',
+        description: query.meta?.errorMessage ?? 'Failed to load data. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  }),
+  mutationCache: new MutationCache({
+    onError: (error, _variables, _context, mutation) => {
+      console.error('Mutation failed:', error);
+      toast({
+        title: mutation.meta?.errorTitle ?? 'Error',
+        description: mutation.meta?.errorMessage ?? (error instanceof Error ? error.message : 'The change could not be saved.'),
+        variant: 'destructive',
+      });
+    },
+  }),
+  defaultOptions: {
+    queries: {
+      staleTime: 30 * 1000,
+      retry: (failureCount, error) => failureCount < MAX_RETRIES && isRetryable(error),
+      refetchOnWindowFocus: false,
+    },
+  },
+});
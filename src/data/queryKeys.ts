@@ -0,0 +1,47 @@
+import type { AlertFilters } from '@/data/alerts';
+import type { Cursor, SortOrder } from '@/data/pagination';
+import type { TriageFilters } from '@/data/triageResults';
+
+// Query keys are nested so a whole table can be invalidated by its prefix
+export const queryKeys = {
+  triageResults: {
+    all: ['triage_results'] as const,
+    queue: (filters: TriageFilters, cursor: Cursor | null) => ['triage_results', 'queue', filters, cursor] as const,
+    queueCounts: (filters?: TriageFilters) => ['triage_results', 'queue_counts', ...(filters ? [filters] : [])] as const,
+    cases: (filters: TriageFilters, sort: SortOrder, cursor: Cursor | null) =>
+      ['triage_results', 'cases', filters, sort, cursor] as const,
+    detail: (id: string) => ['triage_results', 'detail', id] as const,
+    search: (query: string) => ['triage_results', 'search', query] as const,
+    highRisk: () => ['triage_results', 'high_risk'] as const,
+    forUser: (userId: string) => ['triage_results', 'user', userId] as const,
+    analytics: () => ['triage_results', 'analytics'] as const,
+  },
+  intakes: {
+    all: ['patient_intake'] as const,
+    forUser: (userId: string) => ['patient_intake', 'user', userId] as const,
+  },
+  chatSessions: {
+    all: ['chat_sessions'] as const,
+    forUser: (userId: string) => ['chat_sessions', 'user', userId] as const,
+  },
+  alerts: {
+    all: ['alerts'] as const,
+    list: (filters?: AlertFilters, sort?: SortOrder, cursor?: Cursor | null) =>
+      ['alerts', 'list', ...(filters ? [filters, sort, cursor] : [])] as const,
+    unreadCount: () => ['alerts', 'unread_count'] as const,
+    events: (alertId: string) => ['alerts', 'events', alertId] as const,
+  },
+  profiles: {
+    all: ['profiles'] as const,
+    detail: (userId: string) => ['profiles', 'detail', userId] as const,
+    byIds: (userIds: string[]) => ['profiles', 'by_ids', userIds] as const,
+    staff: () => ['profiles', 'staff'] as const,
+  },
+  userRoles: {
+    all: ['user_roles'] as const,
+    managedUsers: () => ['user_roles', 'managed_users'] as const,
+  },
+  queueSettings: ['queue_settings'] as const,
+  retentionPolicies: ['retention_policies'] as const,
+  userPreferences: (userId: string) => ['user_preferences', userId] as const,
+};
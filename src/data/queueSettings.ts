@@ -0,0 +1,43 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { HIGH_RISK_CONDITIONS } from '@/lib/triageEngine';
+
+export type QueueSettings = Omit<Tables<'queue_settings'>, 'id' | 'updated_at' | 'updated_by'>;
+
+// Matches the column defaults, used until the settings row has loaded
+export const DEFAULT_QUEUE_SETTINGS: QueueSettings = {
+  claim_expiry_minutes: 15,
+  alert_escalation_minutes: 10,
+  urgency_points_high: 100,
+  urgency_points_medium: 50,
+  urgency_points_low: 10,
+  max_wait_high_minutes: 15,
+  max_wait_medium_minutes: 60,
+  max_wait_low_minutes: 240,
+  wait_points: 50,
+  age_risk_points: 15,
+  flagged_condition_points: 15,
+  flagged_conditions: HIGH_RISK_CONDITIONS,
+};
+
+export async function fetchQueueSettings(): Promise<QueueSettings> {
+  const { data, error } = await supabase
+    .from('queue_settings')
+    .select('*')
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return DEFAULT_QUEUE_SETTINGS;
+
+  const { id, updated_at, updated_by, ...settings } = data;
+  return settings;
+}
+
+export async function updateQueueSettings(changes: Partial<QueueSettings>, updatedBy: string): Promise<void> {
+  const { error } = await supabase
+    .from('queue_settings')
+    .update({ ...changes, updated_by: updatedBy })
+    .eq('id', true);
+
+  if (error) throw error;
+}
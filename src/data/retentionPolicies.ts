@@ -0,0 +1,39 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { RetentionTable } from '@/lib/retention';
+
+export interface RetentionPolicy extends Omit<Tables<'retention_policies'>, 'table_name'> {
+  table_name: RetentionTable;
+}
+
+export type RetentionPolicyChanges = Pick<RetentionPolicy, 'retention_days' | 'action'>;
+
+export async function listRetentionPolicies(): Promise<RetentionPolicy[]> {
+  const { data, error } = await supabase
+    .from('retention_policies')
+    .select('*')
+    .order('table_name');
+
+  if (error) throw error;
+  return data as RetentionPolicy[];
+}
+
+export async function updateRetentionPolicy(
+  tableName: RetentionTable,
+  changes: RetentionPolicyChanges,
+  updatedBy: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('retention_policies')
+    .update({ ...changes, updated_by: updatedBy })
+    .eq('table_name', tableName);
+
+  if (error) throw error;
+}
+
+/** Deletes the caller's records if they chose session-based data; returns how many rows went */
+export async function purgeSessionData(): Promise<number> {
+  const { data, error } = await supabase.rpc('purge_my_session_data');
+  if (error) throw error;
+  return data;
+}
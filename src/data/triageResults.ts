@@ -0,0 +1,369 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Tables } from '@/integrations/supabase/types';
+import type { CaseReview, Disposition, SavedCaseReview, UrgencyLevel } from '@/lib/caseReview';
+import type { Claim } from '@/lib/queueClaims';
+import type { QueueStatus } from '@/lib/queueStatus';
+import { DateRange, isInDateRange, toCreatedAtBounds, toPrefixTsQuery } from '@/data/filters';
+import { CATCH_UP_LIMIT, Cursor, PAGE_SIZE, Page, SortOrder, paginate, toPage } from '@/data/pagination';
+
+export type TriageResult = Tables<'triage_results'>;
+
+interface EmbeddedProfile {
+  full_name: string | null;
+  email: string | null;
+}
+
+export interface QueueItem {
+  id: string;
+  /** Null once retention has anonymised the case */
+  user_id: string | null;
+  urgency: UrgencyLevel;
+  recommended_action: string | null;
+  assigned_to: string | null;
+  claimed_at: string | null;
+  queue_status: QueueStatus;
+  review_started_at: string | null;
+  called_at: string | null;
+  consultation_started_at: string | null;
+  completed_at: string | null;
+  left_at: string | null;
+  created_at: string;
+  updated_at: string;
+  /** Computed by the server when the row is read; realtime payloads leave it out */
+  priority_score?: number;
+  /** When the queue page holding this row was ranked */
+  ranked_at?: string;
+  intake?: {
+    age: number | null;
+    existing_conditions: string[] | null;
+  } | null;
+  profile?: EmbeddedProfile | null;
+}
+
+export interface PatientCase {
+  id: string;
+  user_id: string | null;
+  urgency: UrgencyLevel;
+  machine_urgency: UrgencyLevel;
+  recommended_action: string | null;
+  clinician_notes: string | null;
+  disposition: Disposition | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  assigned_to: string | null;
+  queue_status: QueueStatus;
+  created_at: string;
+  updated_at: string;
+  profile?: EmbeddedProfile | null;
+  intake?: {
+    age: number | null;
+    gender: string | null;
+    symptoms: string[];
+    symptom_duration: string | null;
+    existing_conditions: string[];
+    additional_notes: string | null;
+  } | null;
+  chat?: {
+    messages: Array<{ role: string; content: string }>;
+  } | null;
+}
+
+export interface HighRiskPatient {
+  id: string;
+  user_id: string | null;
+  urgency: 'high';
+  recommended_action: string | null;
+  queue_status: QueueStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TriageFilters extends DateRange {
+  urgency?: UrgencyLevel;
+  statuses?: QueueStatus[];
+  /** A clinician's user id, or 'unassigned' */
+  assignedTo?: string;
+  /** Full-text search over the patient, intake, chat and notes */
+  search?: string;
+}
+
+export const UNASSIGNED = 'unassigned';
+
+// Searching filters on the search index, which needs an inner join; the
+// empty column list keeps the document out of the response
+const withRelations = (columns: string, filters: TriageFilters) =>
+  `${columns}, profile:profiles(full_name, email)${
+    toPrefixTsQuery(filters.search ?? '') ? ', search_index:triage_search_index!inner()' : ''
+  }`;
+
+const QUEUE_COLUMNS = '*, priority_score, intake:patient_intake(age, existing_conditions)';
+const CASE_COLUMNS = '*, intake:patient_intake(*), chat:chat_sessions(*)';
+
+const selectTriageResults = (columns: string, options?: { count: 'exact'; head: boolean }) =>
+  supabase.from('triage_results').select(columns, options);
+
+type TriageQuery = ReturnType<typeof selectTriageResults>;
+
+function applyTriageFilters(query: TriageQuery, filters: TriageFilters): TriageQuery {
+  let filtered = query;
+  const { since, before } = toCreatedAtBounds(filters);
+  const tsquery = toPrefixTsQuery(filters.search ?? '');
+
+  if (filters.urgency) filtered = filtered.eq('urgency', filters.urgency);
+  if (filters.statuses) filtered = filtered.in('queue_status', filters.statuses);
+  if (filters.assignedTo === UNASSIGNED) filtered = filtered.is('assigned_to', null);
+  else if (filters.assignedTo) filtered = filtered.eq('assigned_to', filters.assignedTo);
+  if (since) filtered = filtered.gte('created_at', since);
+  if (before) filtered = filtered.lt('created_at', before);
+  if (tsquery) filtered = filtered.textSearch('search_index.document', tsquery, { config: 'english' });
+  return filtered;
+}
+
+/**
+ * Client-side mirror of applyTriageFilters, for rows arriving over realtime.
+ * Text search is left to the server: a row that may match is refetched.
+ */
+export function matchesTriageFilters(
+  row: Pick<TriageResult, 'urgency' | 'queue_status' | 'assigned_to' | 'created_at'>,
+  filters: TriageFilters
+) {
+  if (filters.urgency && row.urgency !== filters.urgency) return false;
+  if (filters.statuses && !filters.statuses.includes(row.queue_status as QueueStatus)) return false;
+  if (filters.assignedTo === UNASSIGNED && row.assigned_to) return false;
+  if (filters.assignedTo && filters.assignedTo !== UNASSIGNED && row.assigned_to !== filters.assignedTo) return false;
+  return isInDateRange(row.created_at, filters);
+}
+
+async function fetchChangedSince<T>(columns: string, since: string): Promise<T[]> {
+  const { data, error } = await selectTriageResults(columns)
+    .gte('updated_at', since)
+    .limit(CATCH_UP_LIMIT);
+
+  if (error) throw error;
+  return data as unknown as T[];
+}
+
+async function fetchPage<T extends Cursor>(
+  columns: string,
+  filters: TriageFilters,
+  sort: SortOrder,
+  cursor: Cursor | null
+): Promise<Page<T>> {
+  const { data, error } = await paginate(applyTriageFilters(selectTriageResults(columns), filters), sort, cursor);
+
+  if (error) throw error;
+  return toPage(data as unknown as T[]);
+}
+
+/**
+ * One page of the queue, ranked by priority score as of the moment the first
+ * page was read. That moment travels in the cursor, so scores rising while
+ * patients wait cannot move them across a page boundary.
+ */
+export async function listQueue(filters: TriageFilters, cursor: Cursor | null): Promise<Page<QueueItem>> {
+  const { since, before } = toCreatedAtBounds(filters);
+  const { data, error } = await supabase.rpc('list_queue', {
+    _as_of: cursor?.ranked_at,
+    _statuses: filters.statuses,
+    _urgency: filters.urgency,
+    _assigned_to: filters.assignedTo,
+    _since: since ?? undefined,
+    _before: before ?? undefined,
+    _search: toPrefixTsQuery(filters.search ?? '') ?? undefined,
+    _after_score: cursor?.priority_score,
+    _after_created_at: cursor?.created_at,
+    _after_id: cursor?.id,
+    _limit: PAGE_SIZE + 1,
+  });
+
+  if (error) throw error;
+  const { items, nextCursor } = toPage(data as unknown as QueueItem[]);
+  const last = items[items.length - 1];
+  return {
+    items,
+    nextCursor: nextCursor && { ...nextCursor, priority_score: last.priority_score, ranked_at: last.ranked_at },
+  };
+}
+
+/** Client-side mirror of list_queue's order, for rows merged into a cached page */
+export function compareQueueItems(a: QueueItem, b: QueueItem) {
+  const byScore = (b.priority_score ?? 0) - (a.priority_score ?? 0);
+  if (byScore !== 0) return byScore;
+  if (a.created_at !== b.created_at) return a.created_at < b.created_at ? -1 : 1;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+export const listQueueChangedSince = (since: string) =>
+  fetchChangedSince<QueueItem>(QUEUE_COLUMNS, since);
+
+export interface UrgencyCounts {
+  total: number;
+  high: number;
+  medium: number;
+  low: number;
+}
+
+export async function countByUrgency(filters: TriageFilters): Promise<UrgencyCounts> {
+  const count = async (urgency: UrgencyLevel) => {
+    const { count, error } = await applyTriageFilters(
+      selectTriageResults(withRelations('id', filters), { count: 'exact', head: true }),
+      { ...filters, urgency }
+    );
+
+    if (error) throw error;
+    return count ?? 0;
+  };
+
+  const [high, medium, low] = await Promise.all([count('high'), count('medium'), count('low')]);
+  return { total: high + medium + low, high, medium, low };
+}
+
+export const listCases = (filters: TriageFilters, sort: SortOrder, cursor: Cursor | null) =>
+  fetchPage<PatientCase>(withRelations(CASE_COLUMNS, filters), filters, sort, cursor);
+
+export async function getCase(id: string): Promise<PatientCase | null> {
+  const { data, error } = await selectTriageResults(withRelations(CASE_COLUMNS, {}))
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as unknown as PatientCase | null;
+}
+
+export const listCasesChangedSince = (since: string) =>
+  fetchChangedSince<PatientCase>(CASE_COLUMNS, since);
+
+export async function listHighRiskPatients(activeStatuses: QueueStatus[]): Promise<Page<HighRiskPatient>> {
+  const { data, error } = await selectTriageResults('*')
+    .eq('urgency', 'high')
+    .in('queue_status', activeStatuses)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  // Bounded by the live queue, so loaded as a single page
+  return { items: data as unknown as HighRiskPatient[], nextCursor: null };
+}
+
+export const listHighRiskChangedSince = (since: string) => fetchChangedSince<HighRiskPatient>('*', since);
+
+export type TriageSearchResult = Database['public']['Functions']['search_triage_results']['Returns'][number];
+
+/** Ranked full-text matches; headlines mark matched words with << and >> */
+export async function searchTriageResults(query: string, limit = 20): Promise<TriageSearchResult[]> {
+  const { data, error } = await supabase.rpc('search_triage_results', { _query: query, _limit: limit });
+
+  if (error) throw error;
+  return data;
+}
+
+export async function listTriageResultsForUser(userId: string): Promise<TriageResult[]> {
+  const { data, error } = await supabase
+    .from('triage_results')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data;
+}
+
+export interface WorkloadStats {
+  urgency: UrgencyCounts;
+  today: number;
+  week: number;
+  /** Results per day for the last seven days, oldest first */
+  daily: { date: string; count: number }[];
+}
+
+// Counted on the server, so analytics cost the same however many results exist
+export async function getWorkloadStats(todayStart: Date): Promise<WorkloadStats> {
+  const countCreatedBetween = async (since: Date, before: Date | null) => {
+    let query = selectTriageResults('id', { count: 'exact', head: true }).gte('created_at', since.toISOString());
+    if (before) query = query.lt('created_at', before.toISOString());
+
+    const { count, error } = await query;
+    if (error) throw error;
+    return count ?? 0;
+  };
+
+  const dayStarts = Array.from({ length: 7 }, (_, i) => {
+    const day = new Date(todayStart);
+    day.setDate(day.getDate() - (6 - i));
+    return day;
+  });
+  const weekStart = new Date(todayStart);
+  weekStart.setDate(weekStart.getDate() - 7);
+
+  const [urgency, week, daily] = await Promise.all([
+    countByUrgency({}),
+    countCreatedBetween(weekStart, null),
+    Promise.all(dayStarts.map((day, i) => countCreatedBetween(day, dayStarts[i + 1] ?? null))),
+  ]);
+
+  return {
+    urgency,
+    today: daily[daily.length - 1],
+    week,
+    daily: dayStarts.map((day, i) => ({ date: day.toISOString(), count: daily[i] })),
+  };
+}
+
+export async function updateQueueStatus(triageResultId: string, status: QueueStatus) {
+  const { data, error } = await supabase
+    .from('triage_results')
+    .update({ queue_status: status })
+    .eq('id', triageResultId)
+    .select('queue_status, review_started_at, called_at, consultation_started_at, completed_at, left_at, assigned_to, claimed_at, updated_at')
+    .single();
+
+  if (error) throw error;
+  return { ...data, queue_status: data.queue_status as QueueStatus };
+}
+
+/**
+ * Records a clinician's review of a triage result. The reviewer and review
+ * time are stamped by the database; machine_urgency is never changed.
+ */
+export async function saveCaseReview(triageResultId: string, review: CaseReview): Promise<SavedCaseReview> {
+  const { data, error } = await supabase
+    .from('triage_results')
+    .update({
+      ...review,
+      // Always changes, so confirming an unchanged case still counts as a review
+      reviewed_at: new Date().toISOString(),
+    })
+    .eq('id', triageResultId)
+    .select('urgency, machine_urgency, clinician_notes, disposition, reviewed_by, reviewed_at')
+    .single();
+
+  if (error) throw error;
+  return { ...data, disposition: data.disposition as Disposition | null };
+}
+
+export async function claimCase(triageResultId: string): Promise<Claim> {
+  const { data, error } = await supabase.rpc('claim_triage_result', {
+    _triage_result_id: triageResultId,
+  });
+
+  if (error) throw error;
+  return { assigned_to: data.assigned_to, claimed_at: data.claimed_at };
+}
+
+export async function releaseCase(triageResultId: string): Promise<Claim> {
+  const { data, error } = await supabase.rpc('release_triage_result', {
+    _triage_result_id: triageResultId,
+  });
+
+  if (error) throw error;
+  return { assigned_to: data.assigned_to, claimed_at: data.claimed_at };
+}
+
+export async function reassignCase(triageResultId: string, assigneeId: string): Promise<Claim> {
+  const { data, error } = await supabase.rpc('reassign_triage_result', {
+    _triage_result_id: triageResultId,
+    _assignee: assigneeId,
+  });
+
+  if (error) throw error;
+  return { assigned_to: data.assigned_to, claimed_at: data.claimed_at };
+}
@@ -0,0 +1,24 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { DEFAULT_PREFERENCES, UserPreferences, parsePreferences } from '@/lib/preferences';
+
+export async function fetchUserPreferences(userId: string): Promise<UserPreferences> {
+  const { data, error } = await supabase
+    .from('user_preferences')
+    .select('preferences')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? parsePreferences(data.preferences) : DEFAULT_PREFERENCES;
+}
+
+/** Merges the changes into the stored preferences and returns the result */
+export async function saveUserPreferences(changes: Partial<UserPreferences>): Promise<UserPreferences> {
+  const { data, error } = await supabase.rpc('update_my_preferences', {
+    _changes: changes as unknown as Json,
+  });
+
+  if (error) throw error;
+  return parsePreferences(data);
+}
@@ -0,0 +1,71 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { AppRole, RoleStatus } from '@/lib/roles';
+import { listProfiles } from '@/data/profiles';
+
+export type UserRoleRecord = Pick<Tables<'user_roles'>, 'role' | 'status'>;
+
+export interface ManagedUser {
+  user_id: string;
+  email: string | null;
+  full_name: string | null;
+  created_at: string;
+  role: AppRole | null;
+  status: RoleStatus | null;
+  approved_at: string | null;
+}
+
+export async function getUserRole(userId: string): Promise<UserRoleRecord | null> {
+  const { data, error } = await supabase
+    .from('user_roles')
+    .select('role, status')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+// Every profile with its role, for the admin user list
+export async function listManagedUsers(): Promise<ManagedUser[]> {
+  const [profiles, rolesRes] = await Promise.all([
+    listProfiles(),
+    supabase.from('user_roles').select('user_id, role, status, approved_at'),
+  ]);
+
+  if (rolesRes.error) throw rolesRes.error;
+
+  const rolesByUser = new Map(rolesRes.data.map(role => [role.user_id, role]));
+  return profiles.map(profile => {
+    const role = rolesByUser.get(profile.user_id);
+    return {
+      user_id: profile.user_id,
+      email: profile.email,
+      full_name: profile.full_name,
+      created_at: profile.created_at,
+      role: role?.role ?? null,
+      status: role?.status ?? null,
+      approved_at: role?.approved_at ?? null,
+    };
+  });
+}
+
+export async function updateUserRole(
+  userId: string,
+  changes: { role?: AppRole; status?: RoleStatus },
+  approvedBy: string
+): Promise<Pick<ManagedUser, 'role' | 'status' | 'approved_at'>> {
+  const approval = changes.status === 'approved'
+    ? { approved_at: new Date().toISOString(), approved_by: approvedBy }
+    : {};
+
+  const { data, error } = await supabase
+    .from('user_roles')
+    .update({ ...changes, ...approval })
+    .eq('user_id', userId)
+    .select('role, status, approved_at')
+    .single();
+
+  if (error) throw error;
+  return data;
+}
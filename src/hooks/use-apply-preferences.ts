@@ -0,0 +1,25 @@
+import { useEffect } from 'react';
+import { useTheme } from 'next-themes';
+import { useAuth } from '@/contexts/AuthContext';
+import { useUserPreferences } from '@/data/hooks/userPreferences';
+import { setDisplayLocale } from '@/lib/dates';
+
+/**
+ * Applies the signed-in user's theme and language. Nothing changes until
+ * their preferences load, so the sign-in page keeps the last theme used.
+ */
+export function useApplyPreferences() {
+  const { user } = useAuth();
+  const { setTheme } = useTheme();
+  const { data: preferences } = useUserPreferences(user?.id);
+  const theme = preferences?.theme;
+  const language = preferences?.language;
+
+  useEffect(() => {
+    if (theme) setTheme(theme);
+  }, [theme, setTheme]);
+
+  useEffect(() => {
+    if (language) setDisplayLocale(language);
+  }, [language]);
+}
@@ -0,0 +1,22 @@
+import { useCallback, useState } from 'react';
+import type { Cursor } from '@/data/pagination';
+
+/**
+ * Tracks the cursors of the pages visited so far, so Previous can step back
+ * without offsets. Call reset() whenever the filters or sort change.
+ */
+export function useCursorPagination() {
+  const [cursors, setCursors] = useState<(Cursor | null)[]>([null]);
+
+  const next = useCallback((cursor: Cursor) => setCursors(prev => [...prev, cursor]), []);
+  const previous = useCallback(() => setCursors(prev => (prev.length > 1 ? prev.slice(0, -1) : prev)), []);
+  const reset = useCallback(() => setCursors([null]), []);
+
+  return {
+    cursor: cursors[cursors.length - 1],
+    page: cursors.length,
+    next,
+    previous,
+    reset,
+  };
+}
@@ -0,0 +1,19 @@
+import { useCallback, useState } from 'react';
+import { DEFAULT_LIST_FILTERS, ListFilterValues } from '@/lib/listFilters';
+import { useCursorPagination } from '@/hooks/use-cursor-pagination';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+
+/** Filter bar state with its pagination, which starts over whenever a filter changes */
+export function useListFilters(initial: Partial<ListFilterValues> = {}) {
+  const [values, setValues] = useState<ListFilterValues>({ ...DEFAULT_LIST_FILTERS, ...initial });
+  const pagination = useCursorPagination();
+  const { reset } = pagination;
+  const search = useDebouncedValue(values.search);
+
+  const update = useCallback((changes: Partial<ListFilterValues>) => {
+    setValues(prev => ({ ...prev, ...changes }));
+    reset();
+  }, [reset]);
+
+  return { values, search, update, pagination };
+}
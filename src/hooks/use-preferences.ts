@@ -0,0 +1,12 @@
+import { useAuth } from '@/contexts/AuthContext';
+import { useSaveUserPreferences, useUserPreferences } from '@/data/hooks/userPreferences';
+import { DEFAULT_PREFERENCES } from '@/lib/preferences';
+
+/** The signed-in user's preferences, with defaults until they have loaded */
+export function usePreferences() {
+  const { user } = useAuth();
+  const { data, isLoading } = useUserPreferences(user?.id);
+  const savePreferences = useSaveUserPreferences(user?.id);
+
+  return { preferences: data ?? DEFAULT_PREFERENCES, isLoading, savePreferences };
+}
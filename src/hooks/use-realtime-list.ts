@@ -0,0 +1,175 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { QueryKey, keepPreviousData, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { CATCH_UP_LIMIT, Page } from '@/data/pagination';
+import { uniqueTopic } from '@/lib/realtime';
+
+interface RealtimeRow {
+  id: string;
+  updated_at: string;
+}
+
+export interface RealtimeListOptions<T extends RealtimeRow> {
+  queryKey: QueryKey;
+  /** Loads one page, including any embedded relations */
+  queryFn: () => Promise<Page<T>>;
+  /** Realtime channel name; each subscription adds its own suffix */
+  channel: string;
+  table: 'triage_results' | 'alerts';
+  /** Loads rows changed at or after `since`, whether or not they still match */
+  fetchSince: (since: string) => Promise<T[]>;
+  /** Whether a row belongs in this list, judged on its own columns */
+  matches?: (row: T) => boolean;
+  compare?: (a: T, b: T) => number;
+  /** Called after any change reaches the table, e.g. to refresh counts */
+  onChange?: () => void;
+  /** Refetches the page on a timer, for orderings that change without a write */
+  refetchInterval?: number;
+  errorMessage?: string;
+}
+
+// Allows for the client clock running ahead of the database
+const CLOCK_SKEW_MS = 60 * 1000;
+
+const newestFirst = (a: RealtimeRow, b: RealtimeRow) =>
+  new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime();
+
+const latestUpdate = (current: string | null, rows: RealtimeRow[]) =>
+  rows.reduce((latest, row) => (!latest || row.updated_at > latest ? row.updated_at : latest), current);
+
+/**
+ * Keeps a cached page of a table in sync through postgres_changes. Rows
+ * already on the page are updated in place and removed once they stop
+ * matching. A matching row that is not on the page may belong on it, so the
+ * page is refetched and the server decides. After a reconnect it asks only
+ * for rows changed since the newest change already seen.
+ */
+export function useRealtimeList<T extends RealtimeRow>({
+  queryKey,
+  queryFn,
+  channel,
+  table,
+  fetchSince,
+  matches,
+  compare,
+  onChange,
+  refetchInterval,
+  errorMessage,
+}: RealtimeListOptions<T>) {
+  const queryClient = useQueryClient();
+  const lastSeenRef = useRef<string | null>(null);
+  const keyRef = useRef(queryKey);
+  keyRef.current = queryKey;
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  const query = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const page = await queryFn();
+      return { ...page, items: [...page.items].sort(compare ?? newestFirst) };
+    },
+    // Keeps the current page on screen while the next one loads
+    placeholderData: keepPreviousData,
+    refetchInterval,
+    meta: { errorMessage },
+  });
+
+  useEffect(() => {
+    if (!query.data) return;
+    // A page of old rows says little about how current it is, so fall back to the fetch time
+    const fetchedAt = new Date(query.dataUpdatedAt - CLOCK_SKEW_MS).toISOString();
+    lastSeenRef.current = latestUpdate(lastSeenRef.current ?? fetchedAt, query.data.items);
+  }, [query.data, query.dataUpdatedAt]);
+
+  const update = useCallback((updater: (items: T[]) => T[]) => {
+    queryClient.setQueryData<Page<T>>(keyRef.current, prev => (prev ? { ...prev, items: updater(prev.items) } : prev));
+  }, [queryClient]);
+
+  const refetchPage = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: keyRef.current, exact: true });
+  }, [queryClient]);
+
+  // Applies rows to the cached page; returns whether any belong on it but are missing
+  const apply = useCallback((rows: T[]) => {
+    const cached = queryClient.getQueryData<Page<T>>(keyRef.current)?.items ?? [];
+    const cachedIds = new Set(cached.map(item => item.id));
+    const isMissing = rows.some(row => !cachedIds.has(row.id) && (!matches || matches(row)));
+
+    update(prev => {
+      const byId = new Map(prev.map(item => [item.id, item]));
+      for (const row of rows) {
+        if (!byId.has(row.id)) continue;
+        // Keep embedded relations, which change payloads do not carry
+        const merged = { ...byId.get(row.id), ...row };
+        if (matches && !matches(merged)) {
+          byId.delete(row.id);
+        } else {
+          byId.set(row.id, merged);
+        }
+      }
+      return [...byId.values()].sort(compare ?? newestFirst);
+    });
+
+    return isMissing;
+  }, [queryClient, update, matches, compare]);
+
+  // The subscription outlives filter, page and search changes, so it reads
+  // the current ones through refs
+  const applyRef = useRef(apply);
+  applyRef.current = apply;
+  const fetchSinceRef = useRef(fetchSince);
+  fetchSinceRef.current = fetchSince;
+
+  useEffect(() => {
+    let hasSubscribed = false;
+
+    const catchUp = async () => {
+      if (!lastSeenRef.current) return;
+      try {
+        const rows = await fetchSinceRef.current(lastSeenRef.current);
+        lastSeenRef.current = latestUpdate(lastSeenRef.current, rows);
+        if (applyRef.current(rows) || rows.length >= CATCH_UP_LIMIT) refetchPage();
+        if (rows.length) onChangeRef.current?.();
+      } catch (error) {
+        console.error(`Error catching up on ${table}:`, error);
+      }
+    };
+
+    const handleChange = (payload: RealtimePostgresChangesPayload<T>) => {
+      onChangeRef.current?.();
+
+      if (payload.eventType === 'DELETE') {
+        const deletedId = (payload.old as Partial<T>).id;
+        if (deletedId) update(prev => prev.filter(item => item.id !== deletedId));
+        return;
+      }
+
+      const row = payload.new as T;
+      lastSeenRef.current = latestUpdate(lastSeenRef.current, [row]);
+      if (applyRef.current([row])) refetchPage();
+    };
+
+    const subscription = supabase
+      .channel(uniqueTopic(channel))
+      .on('postgres_changes', { event: '*', schema: 'public', table }, handleChange)
+      .subscribe((status) => {
+        if (status !== 'SUBSCRIBED') return;
+        if (hasSubscribed) catchUp();
+        hasSubscribed = true;
+      });
+
+    return () => {
+      supabase.removeChannel(subscription);
+    };
+  }, [channel, table, update, refetchPage]);
+
+  return {
+    items: query.data?.items ?? [],
+    nextCursor: query.data?.nextCursor ?? null,
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+    refresh: query.refetch,
+  };
+}
@@ -0,0 +1,104 @@
+import { ReactNode } from 'react';
+import { renderHook } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { MemoryRouter } from 'react-router-dom';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePreferences } from '@/hooks/use-preferences';
+import { showBrowserNotification } from '@/lib/notifications';
+import { DEFAULT_PREFERENCES } from '@/lib/preferences';
+import { useStaffNotifications } from './use-staff-notifications';
+
+type Handler = (payload: { new: Record<string, unknown> }) => void;
+
+interface FakeChannel {
+  topic: string;
+  handlers: Record<string, Handler>;
+}
+
+const { channels } = vi.hoisted(() => ({ channels: [] as FakeChannel[] }));
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    channel: vi.fn((topic: string) => {
+      const channel = {
+        topic,
+        handlers: {} as Record<string, Handler>,
+        on(_type: string, filter: { table: string }, handler: Handler) {
+          channel.handlers[filter.table] = handler;
+          return channel;
+        },
+        subscribe: () => channel,
+      };
+      channels.push(channel);
+      return channel;
+    }),
+    removeChannel: vi.fn(),
+  },
+}));
+vi.mock('@/contexts/AuthContext', () => ({ useAuth: vi.fn() }));
+vi.mock('@/hooks/use-preferences', () => ({ usePreferences: vi.fn() }));
+vi.mock('@/lib/notifications', () => ({
+  isInQuietHours: () => false,
+  playChime: vi.fn(),
+  showBrowserNotification: vi.fn(),
+}));
+
+function wrapper({ children }: { children: ReactNode }) {
+  return (
+    <QueryClientProvider client={new QueryClient()}>
+      <MemoryRouter>{children}</MemoryRouter>
+    </QueryClientProvider>
+  );
+}
+
+const highUrgencyResult = { id: 'result-1', urgency: 'high', recommended_action: 'Seek care now' };
+
+describe('useStaffNotifications', () => {
+  beforeEach(() => {
+    channels.length = 0;
+    vi.mocked(supabase.removeChannel).mockClear();
+    vi.mocked(showBrowserNotification).mockClear();
+    vi.mocked(useAuth).mockReturnValue({
+      userRole: 'healthcare_staff',
+      roleStatus: 'approved',
+    } as ReturnType<typeof useAuth>);
+    vi.mocked(usePreferences).mockReturnValue({
+      preferences: {
+        ...DEFAULT_PREFERENCES,
+        notifications: { ...DEFAULT_PREFERENCES.notifications, enabled: true, sound: false },
+      },
+    } as ReturnType<typeof usePreferences>);
+  });
+
+  it('subscribes under a new topic after a remount and still notifies', () => {
+    const first = renderHook(() => useStaffNotifications(), { wrapper });
+    first.unmount();
+    renderHook(() => useStaffNotifications(), { wrapper });
+
+    expect(channels).toHaveLength(2);
+    expect(supabase.removeChannel).toHaveBeenCalledWith(channels[0]);
+    expect(channels[1].topic).not.toBe(channels[0].topic);
+
+    channels[1].handlers.triage_results({ new: highUrgencyResult });
+
+    expect(showBrowserNotification).toHaveBeenCalledWith(
+      'New high-urgency patient',
+      'Seek care now',
+      'triage-result-1',
+      expect.any(Function)
+    );
+  });
+
+  it('does not subscribe for staff awaiting approval', () => {
+    vi.mocked(useAuth).mockReturnValue({
+      userRole: 'healthcare_staff',
+      roleStatus: 'pending',
+    } as ReturnType<typeof useAuth>);
+
+    renderHook(() => useStaffNotifications(), { wrapper });
+
+    expect(channels).toHaveLength(0);
+  });
+});
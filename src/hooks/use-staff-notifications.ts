@@ -0,0 +1,70 @@
+import { useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import type { RealtimePostgresInsertPayload } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import type { Alert } from '@/data/alerts';
+import type { TriageResult } from '@/data/triageResults';
+import { queryKeys } from '@/data/queryKeys';
+import { usePreferences } from '@/hooks/use-preferences';
+import { ALERT_TYPE_LABELS } from '@/lib/alertTypes';
+import { isInQuietHours, playChime, showBrowserNotification } from '@/lib/notifications';
+import { uniqueTopic } from '@/lib/realtime';
+
+/**
+ * Notifies staff of new patients and critical alerts wherever they are in
+ * the app, following their notification preferences. Also keeps the unread
+ * alert count current for the sidebar badge.
+ */
+export function useStaffNotifications() {
+  const { userRole, roleStatus } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const isStaff = userRole === 'healthcare_staff' && roleStatus === 'approved';
+  const { preferences: { notifications: preferences } } = usePreferences();
+
+  // Read from the handlers, so changing a setting does not resubscribe
+  const preferencesRef = useRef(preferences);
+  preferencesRef.current = preferences;
+  const navigateRef = useRef(navigate);
+  navigateRef.current = navigate;
+
+  useEffect(() => {
+    if (!isStaff) return;
+
+    const notify = (title: string, body: string, tag: string, href: string) => {
+      const current = preferencesRef.current;
+      if (!current.enabled || isInQuietHours(current)) return;
+
+      showBrowserNotification(title, body, tag, () => navigateRef.current(href));
+      if (current.sound) playChime();
+    };
+
+    const handleTriageResult = ({ new: result }: RealtimePostgresInsertPayload<TriageResult>) => {
+      if (!preferencesRef.current.urgencies.includes(result.urgency)) return;
+      notify(
+        `New ${result.urgency}-urgency patient`,
+        result.recommended_action ?? 'A patient has joined the queue.',
+        `triage-${result.id}`,
+        `/patient-cases?case=${result.id}`
+      );
+    };
+
+    const handleAlert = ({ new: alert }: RealtimePostgresInsertPayload<Alert>) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.alerts.unreadCount() });
+      if (alert.severity !== 'critical' || !preferencesRef.current.critical_alerts) return;
+      notify(ALERT_TYPE_LABELS[alert.alert_type], alert.message, `alert-${alert.id}`, '/alerts');
+    };
+
+    const channel = supabase
+      .channel(uniqueTopic('staff-notifications'))
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'triage_results' }, handleTriageResult)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'alerts' }, handleAlert)
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [isStaff, queryClient]);
+}
@@ -14,32 +14,105 @@ export type Database = {
   }
   public: {
     Tables: {
+      alert_events: {
+        Row: {
+          actor_id: string | null
+          alert_id: string
+          created_at: string
+          event: string
+          id: string
+        }
+        Insert: {
+          actor_id?: string | null
+          alert_id: string
+          created_at?: string
+          event: string
+          id?: string
+        }
+        Update: {
+          actor_id?: string | null
+          alert_id?: string
+          created_at?: string
+          event?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_events_alert_id_fkey"
+            columns: ["alert_id"]
+            isOneToOne: false
+            referencedRelation: "alerts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      alert_reads: {
+        Row: {
+          alert_id: string
+          read_at: string
+          user_id: string
+        }
+        Insert: {
+          alert_id: string
+          read_at?: string
+          user_id: string
+        }
+        Update: {
+          alert_id?: string
+          read_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_reads_alert_id_fkey"
+            columns: ["alert_id"]
+            isOneToOne: false
+            referencedRelation: "alerts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       alerts: {
         Row: {
-          alert_type: string
+          acknowledged_at: string | null
+          acknowledged_by: string | null
+          alert_type: Database["public"]["Enums"]["alert_type"]
+          chat_session_id: string | null
           created_at: string
+          escalated_at: string | null
           id: string
-          is_read: boolean | null
           message: string
+          severity: Database["public"]["Enums"]["alert_severity"]
           triage_result_id: string | null
+          updated_at: string
           user_id: string
         }
         Insert: {
-          alert_type: string
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          alert_type: Database["public"]["Enums"]["alert_type"]
+          chat_session_id?: string | null
           created_at?: string
+          escalated_at?: string | null
           id?: string
-          is_read?: boolean | null
           message: string
+          severity?: Database["public"]["Enums"]["alert_severity"]
           triage_result_id?: string | null
+          updated_at?: string
           user_id: string
         }
         Update: {
-          alert_type?: string
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          alert_type?: Database["public"]["Enums"]["alert_type"]
+          chat_session_id?: string | null
           created_at?: string
+          escalated_at?: string | null
           id?: string
-          is_read?: boolean | null
           message?: string
+          severity?: Database["public"]["Enums"]["alert_severity"]
           triage_result_id?: string | null
+          updated_at?: string
           user_id?: string
         }
         Relationships: [
@@ -50,30 +123,40 @@ export type Database = {
             referencedRelation: "triage_results"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "alerts_chat_session_id_fkey"
+            columns: ["chat_session_id"]
+            isOneToOne: false
+            referencedRelation: "chat_sessions"
+            referencedColumns: ["id"]
+          },
         ]
       }
       chat_sessions: {
         Row: {
+          closed_at: string | null
           created_at: string
           id: string
           messages: Json | null
-          status: string | null
+          status: string
           updated_at: string
           user_id: string
         }
         Insert: {
+          closed_at?: string | null
           created_at?: string
           id?: string
           messages?: Json | null
-          status?: string | null
+          status?: string
           updated_at?: string
           user_id: string
         }
         Update: {
+          closed_at?: string | null
           created_at?: string
           id?: string
           messages?: Json | null
-          status?: string | null
+          status?: string
           updated_at?: string
           user_id?: string
         }
@@ -87,6 +170,7 @@ export type Database = {
           existing_conditions: string[] | null
           gender: string | null
           id: string
+          severity: number | null
           symptom_duration: string | null
           symptoms: string[] | null
           user_id: string
@@ -98,6 +182,7 @@ export type Database = {
           existing_conditions?: string[] | null
           gender?: string | null
           id?: string
+          severity?: number | null
           symptom_duration?: string | null
           symptoms?: string[] | null
           user_id: string
@@ -109,6 +194,7 @@ export type Database = {
           existing_conditions?: string[] | null
           gender?: string | null
           id?: string
+          severity?: number | null
           symptom_duration?: string | null
           symptoms?: string[] | null
           user_id?: string
@@ -145,39 +231,195 @@ export type Database = {
         }
         Relationships: []
       }
+      queue_settings: {
+        Row: {
+          age_risk_points: number
+          alert_escalation_minutes: number
+          claim_expiry_minutes: number
+          flagged_condition_points: number
+          flagged_conditions: string[]
+          id: boolean
+          max_wait_high_minutes: number
+          max_wait_low_minutes: number
+          max_wait_medium_minutes: number
+          updated_at: string
+          updated_by: string | null
+          urgency_points_high: number
+          urgency_points_low: number
+          urgency_points_medium: number
+          wait_points: number
+        }
+        Insert: {
+          age_risk_points?: number
+          alert_escalation_minutes?: number
+          claim_expiry_minutes?: number
+          flagged_condition_points?: number
+          flagged_conditions?: string[]
+          id?: boolean
+          max_wait_high_minutes?: number
+          max_wait_low_minutes?: number
+          max_wait_medium_minutes?: number
+          updated_at?: string
+          updated_by?: string | null
+          urgency_points_high?: number
+          urgency_points_low?: number
+          urgency_points_medium?: number
+          wait_points?: number
+        }
+        Update: {
+          age_risk_points?: number
+          alert_escalation_minutes?: number
+          claim_expiry_minutes?: number
+          flagged_condition_points?: number
+          flagged_conditions?: string[]
+          id?: boolean
+          max_wait_high_minutes?: number
+          max_wait_low_minutes?: number
+          max_wait_medium_minutes?: number
+          updated_at?: string
+          updated_by?: string | null
+          urgency_points_high?: number
+          urgency_points_low?: number
+          urgency_points_medium?: number
+          wait_points?: number
+        }
+        Relationships: []
+      }
+      retention_policies: {
+        Row: {
+          action: Database["public"]["Enums"]["retention_action"]
+          retention_days: number | null
+          table_name: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          action?: Database["public"]["Enums"]["retention_action"]
+          retention_days?: number | null
+          table_name: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          action?: Database["public"]["Enums"]["retention_action"]
+          retention_days?: number | null
+          table_name?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      staff_invitations: {
+        Row: {
+          code: string
+          created_at: string
+          created_by: string | null
+          email: string | null
+          expires_at: string
+          id: string
+          used_at: string | null
+          used_by: string | null
+        }
+        Insert: {
+          code?: string
+          created_at?: string
+          created_by?: string | null
+          email?: string | null
+          expires_at?: string
+          id?: string
+          used_at?: string | null
+          used_by?: string | null
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          created_by?: string | null
+          email?: string | null
+          expires_at?: string
+          id?: string
+          used_at?: string | null
+          used_by?: string | null
+        }
+        Relationships: []
+      }
       triage_results: {
         Row: {
+          assigned_to: string | null
+          called_at: string | null
           chat_session_id: string | null
+          claimed_at: string | null
           clinician_notes: string | null
+          completed_at: string | null
+          consultation_started_at: string | null
           created_at: string
+          disposition: string | null
+          engine_version: string | null
           id: string
           intake_id: string | null
+          left_at: string | null
+          machine_urgency: Database["public"]["Enums"]["urgency_level"]
           processed_at: string
+          queue_status: string
           recommended_action: string | null
+          review_started_at: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          submission_id: string | null
+          updated_at: string
           urgency: Database["public"]["Enums"]["urgency_level"]
-          user_id: string
+          user_id: string | null
         }
         Insert: {
+          assigned_to?: string | null
+          called_at?: string | null
           chat_session_id?: string | null
+          claimed_at?: string | null
           clinician_notes?: string | null
+          completed_at?: string | null
+          consultation_started_at?: string | null
           created_at?: string
+          disposition?: string | null
+          engine_version?: string | null
           id?: string
           intake_id?: string | null
+          left_at?: string | null
+          machine_urgency: Database["public"]["Enums"]["urgency_level"]
           processed_at?: string
+          queue_status?: string
           recommended_action?: string | null
+          review_started_at?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          submission_id?: string | null
+          updated_at?: string
           urgency?: Database["public"]["Enums"]["urgency_level"]
-          user_id: string
+          user_id?: string | null
         }
         Update: {
+          assigned_to?: string | null
+          called_at?: string | null
           chat_session_id?: string | null
+          claimed_at?: string | null
           clinician_notes?: string | null
+          completed_at?: string | null
+          consultation_started_at?: string | null
           created_at?: string
+          disposition?: string | null
+          engine_version?: string | null
           id?: string
           intake_id?: string | null
+          left_at?: string | null
+          machine_urgency?: Database["public"]["Enums"]["urgency_level"]
           processed_at?: string
+          queue_status?: string
           recommended_action?: string | null
+          review_started_at?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          submission_id?: string | null
+          updated_at?: string
           urgency?: Database["public"]["Enums"]["urgency_level"]
-          user_id?: string
+          user_id?: string | null
         }
         Relationships: [
           {
@@ -194,25 +436,82 @@ export type Database = {
             referencedRelation: "patient_intake"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "triage_results_user_id_profiles_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
         ]
       }
+      triage_search_index: {
+        Row: {
+          document: unknown
+          triage_result_id: string
+        }
+        Insert: {
+          document: unknown
+          triage_result_id: string
+        }
+        Update: {
+          document?: unknown
+          triage_result_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "triage_search_index_triage_result_id_fkey"
+            columns: ["triage_result_id"]
+            isOneToOne: true
+            referencedRelation: "triage_results"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_preferences: {
+        Row: {
+          preferences: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          preferences?: Json
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          preferences?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
+          approved_at: string | null
+          approved_by: string | null
           created_at: string
           id: string
           role: Database["public"]["Enums"]["app_role"]
+          status: Database["public"]["Enums"]["role_status"]
           user_id: string
         }
         Insert: {
+          approved_at?: string | null
+          approved_by?: string | null
           created_at?: string
           id?: string
           role?: Database["public"]["Enums"]["app_role"]
+          status?: Database["public"]["Enums"]["role_status"]
           user_id: string
         }
         Update: {
+          approved_at?: string | null
+          approved_by?: string | null
           created_at?: string
           id?: string
           role?: Database["public"]["Enums"]["app_role"]
+          status?: Database["public"]["Enums"]["role_status"]
           user_id?: string
         }
         Relationships: []
@@ -222,6 +521,78 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      alert_severity_for: {
+        Args: {
+          _alert_type: Database["public"]["Enums"]["alert_type"]
+          _triage_result_id: string
+        }
+        Returns: Database["public"]["Enums"]["alert_severity"]
+      }
+      append_chat_messages: {
+        Args: { _messages: Json; _session_id: string }
+        Returns: undefined
+      }
+      chat_transcript: { Args: { _messages: Json }; Returns: string }
+      acknowledge_alert: {
+        Args: { _alert_id: string }
+        Returns: {
+          acknowledged_at: string | null
+          acknowledged_by: string | null
+          alert_type: Database["public"]["Enums"]["alert_type"]
+          chat_session_id: string | null
+          created_at: string
+          escalated_at: string | null
+          id: string
+          message: string
+          severity: Database["public"]["Enums"]["alert_severity"]
+          triage_result_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "alerts"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      claim_triage_result: {
+        Args: { _triage_result_id: string }
+        Returns: {
+          assigned_to: string | null
+          called_at: string | null
+          chat_session_id: string | null
+          claimed_at: string | null
+          clinician_notes: string | null
+          completed_at: string | null
+          consultation_started_at: string | null
+          created_at: string
+          disposition: string | null
+          engine_version: string | null
+          id: string
+          intake_id: string | null
+          left_at: string | null
+          machine_urgency: Database["public"]["Enums"]["urgency_level"]
+          processed_at: string
+          queue_status: string
+          recommended_action: string | null
+          review_started_at: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          updated_at: string
+          urgency: Database["public"]["Enums"]["urgency_level"]
+          user_id: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "triage_results"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      find_emergency_keywords: { Args: { _text: string }; Returns: string[] }
+      escalate_unacknowledged_alerts: { Args: never; Returns: number }
+      delete_my_account: { Args: never; Returns: Json }
       get_user_role: {
         Args: { _user_id: string }
         Returns: Database["public"]["Enums"]["app_role"]
@@ -233,9 +604,173 @@ export type Database = {
         }
         Returns: boolean
       }
+      index_triage_results: {
+        Args: { _triage_result_ids: string[] }
+        Returns: undefined
+      }
+      is_account_active: { Args: { _user_id: string }; Returns: boolean }
+      is_claim_active: {
+        Args: { _claimed_at: string }
+        Returns: boolean
+      }
+      list_queue: {
+        Args: {
+          _after_created_at?: string
+          _after_id?: string
+          _after_score?: number
+          _as_of?: string
+          _assigned_to?: string
+          _before?: string
+          _limit?: number
+          _search?: string
+          _since?: string
+          _statuses?: string[]
+          _urgency?: Database["public"]["Enums"]["urgency_level"]
+        }
+        Returns: {
+          assigned_to: string
+          called_at: string
+          claimed_at: string
+          completed_at: string
+          consultation_started_at: string
+          created_at: string
+          id: string
+          intake: Json
+          left_at: string
+          priority_score: number
+          profile: Json
+          queue_status: string
+          ranked_at: string
+          recommended_action: string
+          review_started_at: string
+          updated_at: string
+          urgency: Database["public"]["Enums"]["urgency_level"]
+          user_id: string
+        }[]
+      }
+      patient_label: { Args: { _user_id: string }; Returns: string }
+      raise_wait_time_alerts: { Args: never; Returns: number }
+      is_closed_queue_status: { Args: { _status: string }; Returns: boolean }
+      priority_score: {
+        Args: { _result: Database["public"]["Tables"]["triage_results"]["Row"] }
+        Returns: number
+      }
+      priority_score_at: {
+        Args: {
+          _as_of: string
+          _result: Database["public"]["Tables"]["triage_results"]["Row"]
+        }
+        Returns: number
+      }
+      purge_expired_data: { Args: never; Returns: number }
+      purge_my_session_data: { Args: never; Returns: number }
+      purge_user_records: {
+        Args: { _before: string; _user_id: string }
+        Returns: number
+      }
+      reassign_triage_result: {
+        Args: { _assignee: string; _triage_result_id: string }
+        Returns: {
+          assigned_to: string | null
+          called_at: string | null
+          chat_session_id: string | null
+          claimed_at: string | null
+          clinician_notes: string | null
+          completed_at: string | null
+          consultation_started_at: string | null
+          created_at: string
+          disposition: string | null
+          engine_version: string | null
+          id: string
+          intake_id: string | null
+          left_at: string | null
+          machine_urgency: Database["public"]["Enums"]["urgency_level"]
+          processed_at: string
+          queue_status: string
+          recommended_action: string | null
+          review_started_at: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          updated_at: string
+          urgency: Database["public"]["Enums"]["urgency_level"]
+          user_id: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "triage_results"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      release_triage_result: {
+        Args: { _triage_result_id: string }
+        Returns: {
+          assigned_to: string | null
+          called_at: string | null
+          chat_session_id: string | null
+          claimed_at: string | null
+          clinician_notes: string | null
+          completed_at: string | null
+          consultation_started_at: string | null
+          created_at: string
+          disposition: string | null
+          engine_version: string | null
+          id: string
+          intake_id: string | null
+          left_at: string | null
+          machine_urgency: Database["public"]["Enums"]["urgency_level"]
+          processed_at: string
+          queue_status: string
+          recommended_action: string | null
+          review_started_at: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          updated_at: string
+          urgency: Database["public"]["Enums"]["urgency_level"]
+          user_id: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "triage_results"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      search_triage_results: {
+        Args: { _limit?: number; _query: string }
+        Returns: {
+          created_at: string
+          headline: string
+          patient_name: string
+          queue_status: string
+          rank: number
+          triage_result_id: string
+          urgency: Database["public"]["Enums"]["urgency_level"]
+          user_id: string
+        }[]
+      }
+      to_prefix_tsquery: { Args: { _query: string }; Returns: unknown }
+      triage_search_vector: {
+        Args: {
+          _chat_session_id: string
+          _clinician_notes: string
+          _intake_id: string
+          _user_id: string
+        }
+        Returns: unknown
+      }
+      update_my_preferences: { Args: { _changes: Json }; Returns: Json }
     }
     Enums: {
-      app_role: "patient" | "healthcare_staff"
+      alert_severity: "normal" | "high" | "critical"
+      alert_type:
+        | "high_urgency"
+        | "emergency_keyword"
+        | "wait_time_breach"
+        | "urgency_downgrade"
+      app_role: "patient" | "healthcare_staff" | "admin"
+      retention_action: "delete" | "anonymise"
+      role_status: "pending" | "approved" | "revoked"
       urgency_level: "low" | "medium" | "high"
     }
     CompositeTypes: {
@@ -364,7 +899,16 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["patient", "healthcare_staff"],
+      alert_severity: ["normal", "high", "critical"],
+      alert_type: [
+        "high_urgency",
+        "emergency_keyword",
+        "wait_time_breach",
+        "urgency_downgrade",
+      ],
+      app_role: ["patient", "healthcare_staff", "admin"],
+      retention_action: ["delete", "anonymise"],
+      role_status: ["pending", "approved", "revoked"],
       urgency_level: ["low", "medium", "high"],
     },
   },
@@ -0,0 +1,28 @@
+import type { Enums } from '@/integrations/supabase/types';
+
+/** Alerts are raised by database triggers; see the alert_type enum */
+export type AlertType = Enums<'alert_type'>;
+
+export const ALERT_TYPE_LABELS: Record<AlertType, string> = {
+  high_urgency: 'High Urgency',
+  emergency_keyword: 'Emergency Keyword',
+  wait_time_breach: 'Wait Time Exceeded',
+  urgency_downgrade: 'Urgency Downgraded',
+};
+
+export type AlertSeverity = Enums<'alert_severity'>;
+
+export const ALERT_SEVERITY_LABELS: Record<AlertSeverity, string> = {
+  normal: 'Normal',
+  high: 'High',
+  critical: 'Critical',
+};
+
+export type AlertEventType = 'raised' | 'read' | 'acknowledged' | 'escalated';
+
+export const ALERT_EVENT_LABELS: Record<AlertEventType, string> = {
+  raised: 'Raised',
+  read: 'Read',
+  acknowledged: 'Acknowledged',
+  escalated: 'Escalated to admins',
+};
@@ -0,0 +1,23 @@
+import type { Enums } from '@/integrations/supabase/types';
+
+export type UrgencyLevel = Enums<'urgency_level'>;
+export type Disposition = 'seen' | 'referred' | 'discharged' | 'no_show';
+
+export const DISPOSITION_LABELS: Record<Disposition, string> = {
+  seen: 'Seen',
+  referred: 'Referred',
+  discharged: 'Discharged',
+  no_show: 'No-show',
+};
+
+export interface CaseReview {
+  urgency: UrgencyLevel;
+  clinician_notes: string | null;
+  disposition: Disposition | null;
+}
+
+export interface SavedCaseReview extends CaseReview {
+  machine_urgency: UrgencyLevel;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+}
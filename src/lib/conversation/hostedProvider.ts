@@ -0,0 +1,64 @@
+import { supabase } from '@/integrations/supabase/client';
+import { summarizeInterview } from '@/lib/symptomInterview';
+import { ruleBasedProvider } from './ruleBasedProvider';
+import { ConversationProviderError, TriageConversationProvider } from './types';
+
+const FUNCTION_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/triage-conversation`;
+
+// The edge function rejects longer transcripts
+const MAX_HISTORY_TURNS = 12;
+
+/**
+ * Streams replies from a hosted model behind the `triage-conversation` edge
+ * function. Emergency and closing turns stay on the rule-based provider so
+ * safety messaging and the final recommendation never depend on the model.
+ */
+export const hostedProvider: TriageConversationProvider = {
+  id: 'hosted',
+  async respond(request, options = {}) {
+    if (request.isEmergency || request.interview.pending_slot === null) {
+      return ruleBasedProvider.respond(request, options);
+    }
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new ConversationProviderError('Sign in to use the assistant', 'hosted');
+    }
+
+    const response = await fetch(FUNCTION_URL, {
+      method: 'POST',
+      signal: options.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+        Authorization: `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify({
+        history: request.history.slice(-MAX_HISTORY_TURNS),
+        next_slot: request.interview.pending_slot,
+        known_facts: summarizeInterview(request.interview),
+      }),
+    });
+
+    if (!response.ok || !response.body) {
+      throw new ConversationProviderError(`Assistant unavailable (${response.status})`, 'hosted');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let content = '';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const token = decoder.decode(value, { stream: true });
+      content += token;
+      options.onToken?.(token);
+    }
+
+    if (!content.trim()) {
+      throw new ConversationProviderError('Assistant returned an empty reply', 'hosted');
+    }
+    return content;
+  },
+};
@@ -0,0 +1,17 @@
+import { hostedProvider } from './hostedProvider';
+import { ruleBasedProvider } from './ruleBasedProvider';
+import { TriageConversationProvider } from './types';
+
+export * from './types';
+export { EMERGENCY_RESPONSE, composeRuleBasedReply, ruleBasedProvider } from './ruleBasedProvider';
+export { hostedProvider } from './hostedProvider';
+
+const PROVIDERS: Record<string, TriageConversationProvider> = {
+  [ruleBasedProvider.id]: ruleBasedProvider,
+  [hostedProvider.id]: hostedProvider,
+};
+
+// Select with VITE_TRIAGE_CONVERSATION_PROVIDER; defaults to the offline rules
+export function getConversationProvider(): TriageConversationProvider {
+  return PROVIDERS[import.meta.env.VITE_TRIAGE_CONVERSATION_PROVIDER ?? ''] ?? ruleBasedProvider;
+}
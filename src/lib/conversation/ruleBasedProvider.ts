@@ -0,0 +1,57 @@
+import { evaluateTriage } from '@/lib/triageEngine';
+import { getSlotQuestion, summarizeInterview, toTriageInput } from '@/lib/symptomInterview';
+import { ConversationOptions, ConversationRequest, TriageConversationProvider } from './types';
+
+export const EMERGENCY_RESPONSE = '🚨 **IMPORTANT**: Based on what you\'ve described, you may need immediate medical attention. Please call 911 or go to your nearest emergency room immediately. If you\'re unsure, err on the side of caution and seek emergency care now.';
+
+// Delay between streamed words, so replies read like they are being typed
+const TOKEN_DELAY_MS = 25;
+
+export function composeRuleBasedReply({ previousInterview, interview, isEmergency }: ConversationRequest): string {
+  if (isEmergency) {
+    return EMERGENCY_RESPONSE;
+  }
+
+  const question = getSlotQuestion(previousInterview, interview);
+  if (question) return question;
+
+  const decision = evaluateTriage(toTriageInput(interview));
+  return [
+    'Thank you, I have everything I need. Here is a summary of what you told me:',
+    ...summarizeInterview(interview).map(line => `• ${line}`),
+    '',
+    `Recommendation: ${decision.recommended_action}`,
+  ].join('\n');
+}
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export async function streamText(text: string, { signal, onToken }: ConversationOptions = {}): Promise<string> {
+  const tokens = text.match(/\S+\s*|\s+/g) ?? [];
+  for (const token of tokens) {
+    await wait(TOKEN_DELAY_MS, signal);
+    onToken?.(token);
+  }
+  return text;
+}
+
+/** Deterministic, fully offline provider built on the symptom interview. */
+export const ruleBasedProvider: TriageConversationProvider = {
+  id: 'rules',
+  respond: (request, options) => streamText(composeRuleBasedReply(request), options),
+};
@@ -0,0 +1,39 @@
+import type { InterviewState } from '@/lib/symptomInterview';
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ConversationRequest {
+  // Full transcript, ending with the patient's latest message
+  history: ConversationTurn[];
+  // Interview state before and after applying the latest message
+  previousInterview: InterviewState;
+  interview: InterviewState;
+  isEmergency: boolean;
+}
+
+export interface ConversationOptions {
+  signal?: AbortSignal;
+  onToken?: (token: string) => void;
+}
+
+/**
+ * Generates the assistant's reply text. Urgency, escalation and slot state are
+ * decided by the interview and triage engine; providers only phrase the reply.
+ */
+export interface TriageConversationProvider {
+  id: string;
+  respond(request: ConversationRequest, options?: ConversationOptions): Promise<string>;
+}
+
+export class ConversationProviderError extends Error {
+  constructor(message: string, public readonly providerId: string) {
+    super(message);
+    this.name = 'ConversationProviderError';
+  }
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
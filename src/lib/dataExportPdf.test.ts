@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { DATA_EXPORT_VERSION, DataExport } from '@/data/dataExport';
+import { EMERGENCY_RESPONSE } from '@/lib/conversation';
+import { renderDataExportPdf } from './dataExportPdf';
+
+const exportWith = (overrides: Partial<DataExport>): DataExport => ({
+  version: DATA_EXPORT_VERSION,
+  exported_at: '2026-05-25T09:00:00Z',
+  profile: null,
+  intakes: [],
+  chat_sessions: [],
+  triage_results: [],
+  ...overrides,
+});
+
+/** The strings drawn on each page, as written into the PDF's content streams */
+async function drawnText(data: DataExport) {
+  const blob = await renderDataExportPdf(data);
+  const pdf = await new Promise<string>(resolve => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsBinaryString(blob);
+  });
+  return [...pdf.matchAll(/\((.*)\) Tj/g)].map(match => match[1]).join('\n');
+}
+
+describe('renderDataExportPdf', () => {
+  it('writes a transcript with the emergency response in the font it uses', async () => {
+    const text = await drawnText(
+      exportWith({
+        chat_sessions: [
+          {
+            id: 'session-1',
+            status: 'completed',
+            created_at: '2026-05-25T08:00:00Z',
+            updated_at: '2026-05-25T08:05:00Z',
+            messages: [
+              { role: 'user', content: 'I have chest pain 😟', timestamp: '2026-05-25T08:00:00Z' },
+              { role: 'assistant', content: EMERGENCY_RESPONSE, timestamp: '2026-05-25T08:00:05Z', is_emergency: true },
+            ],
+          },
+        ],
+      })
+    );
+
+    expect(text).toContain('You: I have chest pain');
+    expect(text).toContain('Assistant: **IMPORTANT**: Based on what');
+    // jsPDF switches a whole string to two-byte garbage when one character is out of range
+    expect(text).not.toContain('\u0000');
+    expect(text).not.toMatch(/[^\n\x20-\x7e\xa0-\xff]/);
+  });
+
+  it('keeps accented names and marks characters the font lacks', async () => {
+    const text = await drawnText(
+      exportWith({
+        profile: {
+          id: 'profile-1',
+          avatar_url: null,
+          user_id: 'user-1',
+          full_name: 'Zoë Dvořák 王',
+          email: 'zoe@example.com',
+          created_at: '2026-01-01T00:00:00Z',
+          updated_at: '2026-01-01T00:00:00Z',
+        },
+      })
+    );
+
+    expect(text).toContain('Name: Zoë Dvorák ?');
+  });
+});
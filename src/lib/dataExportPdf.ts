@@ -0,0 +1,184 @@
+import type { jsPDF } from 'jspdf';
+import type { DataExport } from '@/data/dataExport';
+import { DISPOSITION_LABELS, Disposition } from '@/lib/caseReview';
+import { formatDate, formatDateTime } from '@/lib/dates';
+import { QUEUE_STATUS_LABELS, QueueStatus } from '@/lib/queueStatus';
+
+const MARGIN = 18;
+const POINT_IN_MM = 0.3528;
+const TEXT_COLOR = '#1f2937';
+const MUTED_COLOR = '#6b7280';
+
+interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  muted?: boolean;
+  indent?: number;
+}
+
+const capitalise = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const orNone = (value: string | number | null | undefined) =>
+  value === null || value === undefined || value === '' ? 'Not provided' : String(value);
+
+const listOrNone = (values: string[] | null) => (values?.length ? values.join(', ') : 'None');
+
+// The built-in fonts only cover WinAnsi: Latin-1 plus these
+const WIN_ANSI_EXTRAS = '€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ';
+const UNSUPPORTED_MARK = '?';
+// Zero-width joiner and the text and emoji presentation selectors
+const EMOJI_JOINERS = '\u200d\ufe0e\ufe0f';
+
+const isWinAnsi = (char: string) => {
+  const code = char.codePointAt(0) ?? 0;
+  return code === 0x0a || (code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff) ||
+    WIN_ANSI_EXTRAS.includes(char);
+};
+
+/**
+ * Rewrites text into what the PDF font can draw. Accented letters lose an
+ * accent the font lacks, emoji are dropped and anything else becomes a
+ * question mark; the JSON archive keeps the original.
+ */
+function toPdfText(value: string) {
+  return Array.from(value.normalize('NFC').replace(/\t/g, ' '), char => {
+    if (isWinAnsi(char)) return char;
+    if (/\p{Extended_Pictographic}|\p{Emoji_Modifier}/u.test(char) || EMOJI_JOINERS.includes(char)) return '';
+    const base = char.normalize('NFD').replace(/\p{Mark}/gu, '');
+    return base && Array.from(base).every(isWinAnsi) ? base : UNSUPPORTED_MARK;
+  })
+    .join('')
+    .replace(/[^\S\n]{2,}/g, ' ')
+    .trim();
+}
+
+/** Lays text out top to bottom, starting a new page whenever the current one is full */
+function createWriter(doc: jsPDF) {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - MARGIN * 2;
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - MARGIN) {
+      doc.addPage();
+      y = MARGIN;
+    }
+  };
+
+  const text = (value: string, { size = 10, bold = false, muted = false, indent = 0 }: TextOptions = {}) => {
+    doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    doc.setFontSize(size);
+    doc.setTextColor(muted ? MUTED_COLOR : TEXT_COLOR);
+
+    const lineHeight = size * POINT_IN_MM * 1.4;
+    for (const line of doc.splitTextToSize(toPdfText(value), contentWidth - indent) as string[]) {
+      ensureSpace(lineHeight);
+      doc.text(line, MARGIN + indent, y + size * POINT_IN_MM);
+      y += lineHeight;
+    }
+  };
+
+  const space = (height: number) => {
+    y += height;
+  };
+
+  const section = (title: string, count: number) => {
+    space(4);
+    // Keep a heading on the same page as the first thing under it
+    ensureSpace(20);
+    text(`${title} (${count})`, { size: 14, bold: true });
+    doc.setDrawColor(MUTED_COLOR);
+    doc.line(MARGIN, y + 1, pageWidth - MARGIN, y + 1);
+    space(4);
+  };
+
+  const field = (label: string, value: string) => text(`${label}: ${value}`, { indent: 4 });
+
+  return { text, space, section, field, ensureSpace };
+}
+
+/** A readable report of the export; the JSON archive stays the complete record */
+export async function renderDataExportPdf(data: DataExport): Promise<Blob> {
+  // jsPDF is large and only needed here, so it loads on first use
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const { text, space, section, field, ensureSpace } = createWriter(doc);
+
+  text('Smart Triage - Your Health Data', { size: 18, bold: true });
+  space(1);
+  text(`Exported ${formatDateTime(data.exported_at)}`, { muted: true });
+  text('This report is for your own records and is not a substitute for professional medical advice.', {
+    muted: true,
+  });
+  text('Characters this report cannot show are marked "?"; the JSON download keeps the full text.', {
+    muted: true,
+  });
+
+  section('Profile', data.profile ? 1 : 0);
+  if (data.profile) {
+    field('Name', orNone(data.profile.full_name));
+    field('Email', orNone(data.profile.email));
+    field('Member since', formatDate(data.profile.created_at));
+  }
+
+  section('Triage Results', data.triage_results.length);
+  data.triage_results.forEach(result => {
+    ensureSpace(16);
+    text(formatDateTime(result.created_at), { bold: true });
+    field('Urgency', capitalise(result.urgency));
+    field('Recommended action', orNone(result.recommended_action));
+    field('Status', QUEUE_STATUS_LABELS[result.queue_status as QueueStatus] ?? result.queue_status);
+    if (result.disposition) {
+      field('Outcome', DISPOSITION_LABELS[result.disposition as Disposition] ?? result.disposition);
+    }
+    if (result.clinician_notes) field('Clinician notes', result.clinician_notes);
+    space(3);
+  });
+
+  section('Intake Forms', data.intakes.length);
+  data.intakes.forEach(intake => {
+    ensureSpace(16);
+    text(formatDateTime(intake.created_at), { bold: true });
+    field('Age', orNone(intake.age));
+    field('Gender', orNone(intake.gender));
+    field('Symptoms', listOrNone(intake.symptoms));
+    field('Duration', orNone(intake.symptom_duration));
+    field('Existing conditions', listOrNone(intake.existing_conditions));
+    field('Additional notes', orNone(intake.additional_notes));
+    space(3);
+  });
+
+  section('Conversations', data.chat_sessions.length);
+  data.chat_sessions.forEach(session => {
+    ensureSpace(16);
+    text(`${formatDateTime(session.created_at)} (${session.status})`, { bold: true });
+    if (session.messages.length === 0) {
+      text('No messages', { muted: true, indent: 4 });
+    }
+    session.messages.forEach(message => {
+      text(`${message.role === 'user' ? 'You' : 'Assistant'}: ${message.content}`, {
+        indent: 4,
+        muted: message.role !== 'user',
+      });
+      space(1);
+    });
+    space(3);
+  });
+
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(MUTED_COLOR);
+    doc.text(
+      `Page ${page} of ${pageCount}`,
+      doc.internal.pageSize.getWidth() - MARGIN,
+      doc.internal.pageSize.getHeight() - MARGIN / 2,
+      { align: 'right' }
+    );
+  }
+
+  return doc.output('blob');
+}
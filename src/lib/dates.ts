@@ -0,0 +1,17 @@
+import type { Language } from '@/lib/preferences';
+
+// Set from the user's language preference; undefined follows the browser
+let displayLocale: string | undefined;
+
+export function setDisplayLocale(language: Language) {
+  displayLocale = language === 'system' ? undefined : language;
+}
+
+const toDate = (value: string | Date) => (typeof value === 'string' ? new Date(value) : value);
+
+export const formatDate = (value: string | Date) => toDate(value).toLocaleDateString(displayLocale);
+
+export const formatDateTime = (value: string | Date) => toDate(value).toLocaleString(displayLocale);
+
+export const formatTime = (value: string | Date) =>
+  toDate(value).toLocaleTimeString(displayLocale, { hour: '2-digit', minute: '2-digit' });
@@ -0,0 +1,15 @@
+// Firefox and Safari read the blob URL after click() returns, so revoking it
+// straight away cancels the download or saves an empty file
+const REVOKE_DELAY_MS = 40 * 1000;
+
+/** Saves a blob through a temporary link, which every browser supports */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
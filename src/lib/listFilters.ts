@@ -0,0 +1,28 @@
+import type { SortOrder } from '@/data/pagination';
+import type { UrgencyLevel } from '@/lib/caseReview';
+
+// Radix selects cannot hold an empty value, so 'all' stands for no filter
+export const ALL = 'all';
+
+/** Filter bar state as entered; pages map it onto their repository filters */
+export interface ListFilterValues {
+  search: string;
+  from: string;
+  to: string;
+  urgency: typeof ALL | UrgencyLevel;
+  status: string;
+  assignedTo: string;
+  sort: SortOrder;
+}
+
+export const DEFAULT_LIST_FILTERS: ListFilterValues = {
+  search: '',
+  from: '',
+  to: '',
+  urgency: ALL,
+  status: ALL,
+  assignedTo: ALL,
+  sort: 'newest',
+};
+
+export const unlessAll = <T extends string>(value: T | typeof ALL) => (value === ALL ? undefined : (value as T));
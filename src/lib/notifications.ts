@@ -0,0 +1,65 @@
+import type { NotificationPreferences } from '@/lib/preferences';
+
+export const supportsBrowserNotifications = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export async function requestNotificationPermission(): Promise<NotificationPermission> {
+  if (!supportsBrowserNotifications()) return 'denied';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/** Quiet hours may run past midnight, e.g. 22:00 to 07:00 */
+export function isInQuietHours(
+  preferences: Pick<NotificationPreferences, 'quiet_hours_start' | 'quiet_hours_end'>,
+  now = new Date()
+) {
+  if (!preferences.quiet_hours_start || !preferences.quiet_hours_end) return false;
+
+  const start = toMinutes(preferences.quiet_hours_start);
+  const end = toMinutes(preferences.quiet_hours_end);
+  const current = now.getHours() * 60 + now.getMinutes();
+  return start <= end ? current >= start && current < end : current >= start || current < end;
+}
+
+let audioContext: AudioContext | null = null;
+
+/** Two short rising tones, synthesised so no audio asset is needed */
+export function playChime() {
+  audioContext ??= new AudioContext();
+  // Browsers suspend audio until the page has had a user gesture
+  void audioContext.resume();
+  const start = audioContext.currentTime;
+
+  [880, 1320].forEach((frequency, i) => {
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+    const toneStart = start + i * 0.18;
+
+    oscillator.type = 'sine';
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.0001, toneStart);
+    gain.gain.exponentialRampToValueAtTime(0.3, toneStart + 0.02);
+    gain.gain.exponentialRampToValueAtTime(0.0001, toneStart + 0.3);
+
+    oscillator.connect(gain).connect(audioContext.destination);
+    oscillator.start(toneStart);
+    oscillator.stop(toneStart + 0.3);
+  });
+}
+
+export function showBrowserNotification(title: string, body: string, tag: string, onClick: () => void) {
+  if (!supportsBrowserNotifications() || Notification.permission !== 'granted') return;
+
+  // The tag stops a row seen by several tabs from notifying twice
+  const notification = new Notification(title, { body, tag });
+  notification.onclick = () => {
+    window.focus();
+    onClick();
+    notification.close();
+  };
+}
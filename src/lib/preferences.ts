@@ -0,0 +1,72 @@
+import { z } from 'zod';
+import { ALL } from '@/lib/listFilters';
+import { QUEUE_STATUS_LABELS, QueueView } from '@/lib/queueStatus';
+import type { UrgencyLevel } from '@/lib/caseReview';
+
+const THEMES = ['system', 'light', 'dark'] as const;
+
+export type Theme = typeof THEMES[number];
+
+export const THEME_LABELS: Record<Theme, string> = {
+  system: 'Match my device',
+  light: 'Light',
+  dark: 'Dark',
+};
+
+// The interface is English only; the language sets how dates and times read
+export const LANGUAGE_LABELS = {
+  system: 'Browser default',
+  'en-US': 'English (United States)',
+  'en-GB': 'English (United Kingdom)',
+  es: 'Español',
+  fr: 'Français',
+  de: 'Deutsch',
+} as const;
+
+export type Language = keyof typeof LANGUAGE_LABELS;
+
+const urgencySchema: z.ZodType<UrgencyLevel> = z.enum(['low', 'medium', 'high']);
+const timeSchema = z.string().regex(/^\d{2}:\d{2}$/);
+
+// Each field falls back on its own, so one bad value does not reset the rest
+const withDefaults = <T extends z.ZodTypeAny>(schema: T) => schema.catch(() => schema.parse({}));
+
+const notificationsSchema = z.object({
+  enabled: z.boolean().catch(false),
+  sound: z.boolean().catch(true),
+  urgencies: z.array(urgencySchema).catch(['high']),
+  critical_alerts: z.boolean().catch(true),
+  /** HH:MM in the user's own time zone; both or neither are set */
+  quiet_hours_start: timeSchema.nullable().catch(null),
+  quiet_hours_end: timeSchema.nullable().catch(null),
+});
+
+// What the queue shows when it first opens; 'mine' stands for the signed-in clinician
+const queueFiltersSchema = z.object({
+  view: z
+    .custom<QueueView>(value => value === 'active' || Object.keys(QUEUE_STATUS_LABELS).includes(value as string))
+    .catch('active'),
+  urgency: z.union([z.literal(ALL), urgencySchema]).catch(ALL),
+  assigned_to: z.enum([ALL, 'mine', 'unassigned']).catch(ALL),
+});
+
+export const preferencesSchema = z.object({
+  theme: z.enum(THEMES).catch('system'),
+  language: z
+    .custom<Language>(value => Object.keys(LANGUAGE_LABELS).includes(value as string))
+    .catch('system'),
+  /** Delete the patient's chats, intake forms and triage results when they sign out */
+  session_data: z.boolean().catch(false),
+  queue_filters: withDefaults(queueFiltersSchema),
+  notifications: withDefaults(notificationsSchema),
+});
+
+export type UserPreferences = z.infer<typeof preferencesSchema>;
+export type NotificationPreferences = UserPreferences['notifications'];
+export type QueueFilterPreferences = UserPreferences['queue_filters'];
+
+/** Reads a stored preferences document, whatever shape it was saved in */
+export const parsePreferences = (value: unknown): UserPreferences =>
+  preferencesSchema.parse(value && typeof value === 'object' ? value : {});
+
+export const DEFAULT_PREFERENCES = parsePreferences({});
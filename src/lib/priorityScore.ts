@@ -0,0 +1,62 @@
+import type { QueueSettings } from '@/data/queueSettings';
+import { QueueTimestamps, getWaitMinutes } from '@/lib/queueStatus';
+
+type UrgencyLevel = 'low' | 'medium' | 'high';
+
+export interface PriorityInput extends QueueTimestamps {
+  urgency: UrgencyLevel;
+  intake?: {
+    age: number | null;
+    existing_conditions: string[] | null;
+  } | null;
+}
+
+export interface PriorityScore {
+  score: number;
+  waitMinutes: number;
+  targetMinutes: number;
+  isBreached: boolean;
+}
+
+// Same higher-risk age groups the triage engine uses
+const isAgeAtRisk = (age: number | null | undefined) =>
+  age !== null && age !== undefined && (age >= 65 || age < 2);
+
+export function getMaxWaitMinutes(urgency: UrgencyLevel, settings: QueueSettings): number {
+  if (urgency === 'high') return settings.max_wait_high_minutes;
+  if (urgency === 'medium') return settings.max_wait_medium_minutes;
+  return settings.max_wait_low_minutes;
+}
+
+const getUrgencyPoints = (urgency: UrgencyLevel, settings: QueueSettings) => {
+  if (urgency === 'high') return settings.urgency_points_high;
+  if (urgency === 'medium') return settings.urgency_points_medium;
+  return settings.urgency_points_low;
+};
+
+/**
+ * Wait time counts against the patient's own urgency target, so a low-urgency
+ * patient who has waited several targets' worth can overtake a new arrival.
+ * The queue is ranked by the database's priority_score_at(), which mirrors this.
+ */
+export function computePriorityScore(item: PriorityInput, settings: QueueSettings, now = Date.now()): PriorityScore {
+  const waitMinutes = getWaitMinutes(item, now);
+  const targetMinutes = getMaxWaitMinutes(item.urgency, settings);
+
+  const flagged = settings.flagged_conditions.map(c => c.toLowerCase());
+  const hasFlaggedCondition = (item.intake?.existing_conditions ?? [])
+    .some(condition => flagged.includes(condition.toLowerCase()));
+
+  const score =
+    getUrgencyPoints(item.urgency, settings) +
+    settings.wait_points * (waitMinutes / targetMinutes) +
+    (isAgeAtRisk(item.intake?.age) ? settings.age_risk_points : 0) +
+    (hasFlaggedCondition ? settings.flagged_condition_points : 0);
+
+  return {
+    score: Math.round(score),
+    waitMinutes,
+    targetMinutes,
+    isBreached: waitMinutes > targetMinutes,
+  };
+}
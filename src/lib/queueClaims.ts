@@ -0,0 +1,21 @@
+export interface StaffMember {
+  user_id: string;
+  name: string;
+}
+
+export interface Claim {
+  assigned_to: string | null;
+  claimed_at: string | null;
+}
+
+// Mirrors public.is_claim_active so the queue can show expiry without a round trip
+export function isClaimActive(claim: Claim, expiryMinutes: number, now = Date.now()): boolean {
+  if (!claim.assigned_to || !claim.claimed_at) return false;
+  return now - new Date(claim.claimed_at).getTime() < expiryMinutes * 60 * 1000;
+}
+
+export function minutesUntilExpiry(claim: Claim, expiryMinutes: number, now = Date.now()): number {
+  if (!claim.claimed_at) return 0;
+  const expiresAt = new Date(claim.claimed_at).getTime() + expiryMinutes * 60 * 1000;
+  return Math.max(0, Math.ceil((expiresAt - now) / 60000));
+}
@@ -0,0 +1,61 @@
+export type QueueStatus =
+  | 'waiting'
+  | 'in_review'
+  | 'called'
+  | 'in_consultation'
+  | 'completed'
+  | 'left_without_being_seen';
+
+/** A queue tab: every active status together, or a single status */
+export type QueueView = 'active' | QueueStatus;
+
+export const QUEUE_STATUS_LABELS: Record<QueueStatus, string> = {
+  waiting: 'Waiting',
+  in_review: 'In Review',
+  called: 'Called',
+  in_consultation: 'In Consultation',
+  completed: 'Completed',
+  left_without_being_seen: 'Left Without Being Seen',
+};
+
+// Statuses that still belong in the live queue
+export const ACTIVE_QUEUE_STATUSES: QueueStatus[] = ['waiting', 'in_review', 'called', 'in_consultation'];
+
+// Must match public.apply_queue_transition
+export const QUEUE_TRANSITIONS: Record<QueueStatus, QueueStatus[]> = {
+  waiting: ['in_review', 'called', 'left_without_being_seen'],
+  in_review: ['called', 'waiting', 'left_without_being_seen'],
+  called: ['in_consultation', 'waiting', 'left_without_being_seen'],
+  in_consultation: ['completed'],
+  completed: [],
+  left_without_being_seen: ['waiting'],
+};
+
+// Button labels describe the action rather than the target status
+export const TRANSITION_ACTIONS: Record<QueueStatus, string> = {
+  waiting: 'Return to Queue',
+  in_review: 'Start Review',
+  called: 'Call Patient',
+  in_consultation: 'Start Consultation',
+  completed: 'Complete',
+  left_without_being_seen: 'Left Without Being Seen',
+};
+
+export interface QueueTimestamps {
+  created_at: string;
+  review_started_at: string | null;
+  called_at: string | null;
+  consultation_started_at: string | null;
+  completed_at: string | null;
+  left_at: string | null;
+}
+
+/**
+ * Minutes the patient has waited to be seen: until they were called, left or
+ * reached consultation, or until now if they are still waiting.
+ */
+export function getWaitMinutes(item: QueueTimestamps, now = Date.now()): number {
+  const seenAt = item.called_at ?? item.consultation_started_at ?? item.left_at;
+  const end = seenAt ? new Date(seenAt).getTime() : now;
+  return Math.max(0, Math.floor((end - new Date(item.created_at).getTime()) / 60000));
+}
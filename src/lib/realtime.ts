@@ -0,0 +1,7 @@
+// removeChannel is async, and supabase.channel() hands back a channel that is
+// still leaving under the same topic, which then never joins. A fresh topic
+// for every subscription avoids it.
+let subscriptionCount = 0;
+
+/** A realtime topic no earlier subscription has used */
+export const uniqueTopic = (name: string) => `${name}-${++subscriptionCount}`;
@@ -0,0 +1,23 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type RetentionAction = Database['public']['Enums']['retention_action'];
+
+// Must match the table_name check on public.retention_policies
+export type RetentionTable = 'chat_sessions' | 'patient_intake' | 'triage_results' | 'alerts';
+
+export const RETENTION_TABLE_LABELS: Record<RetentionTable, string> = {
+  chat_sessions: 'Chat conversations',
+  patient_intake: 'Intake forms',
+  triage_results: 'Triage results',
+  alerts: 'Alerts',
+};
+
+export const RETENTION_ACTION_LABELS: Record<RetentionAction, string> = {
+  delete: 'Delete',
+  anonymise: 'Anonymise',
+};
+
+export const MAX_RETENTION_DAYS = 3650;
+
+export const describeRetention = (days: number | null) =>
+  days === null ? 'kept until you delete them' : `deleted after ${days} ${days === 1 ? 'day' : 'days'}`;
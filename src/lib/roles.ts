@@ -0,0 +1,18 @@
+import type { Enums } from '@/integrations/supabase/types';
+
+export type AppRole = Enums<'app_role'>;
+export type RoleStatus = Enums<'role_status'>;
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  patient: 'Patient',
+  healthcare_staff: 'Healthcare Staff',
+  admin: 'Administrator',
+};
+
+// Where a signed-in user lands by default
+export function getHomePath(role: AppRole | null, status: RoleStatus | null): string {
+  if (role && status !== 'approved') return '/pending-approval';
+  if (role === 'admin') return '/admin/users';
+  if (role === 'healthcare_staff') return '/queue';
+  return '/triage';
+}
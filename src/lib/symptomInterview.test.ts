@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateTriage } from './triageEngine';
+import {
+  applyAnswer,
+  createInterviewState,
+  getSlotQuestion,
+  isInterviewComplete,
+  parseOnset,
+  parseSeverity,
+  replayInterview,
+  summarizeInterview,
+  toIntakeRecord,
+  toTriageInput,
+} from './symptomInterview';
+
+/** The interview with the given slot just asked */
+const askedFor = (slot: ReturnType<typeof createInterviewState>['pending_slot']) => ({
+  ...createInterviewState(),
+  pending_slot: slot,
+});
+
+describe('parseOnset', () => {
+  it.each([
+    ['It started this morning', 'less-than-24h'],
+    ['about 3 hours ago', 'less-than-24h'],
+    ['since yesterday', '1-3-days'],
+    ['2 days ago', '1-3-days'],
+    ['four days', '4-7-days'],
+    ['last week', '4-7-days'],
+    ['8 days now', '1-2-weeks'],
+    ['a couple of weeks', '1-2-weeks'],
+    ['several months', 'more-than-2-weeks'],
+    ['last month', 'more-than-2-weeks'],
+  ])('reads "%s" as %s', (text, duration) => {
+    expect(parseOnset(text)).toBe(duration);
+  });
+
+  it.each([['not sure'], ['a while'], ['']])('finds no onset in "%s"', (text) => {
+    expect(parseOnset(text)).toBeNull();
+  });
+});
+
+describe('parseSeverity', () => {
+  it('reads an explicit score whether or not it was asked for', () => {
+    expect(parseSeverity('about 7/10', false)).toBe(7);
+    expect(parseSeverity('10 out of 10', false)).toBe(10);
+  });
+
+  it('reads a bare number or a word only as an answer to the question', () => {
+    expect(parseSeverity('I took 2 tablets', false)).toBeNull();
+    expect(parseSeverity('6', true)).toBe(6);
+    expect(parseSeverity('pretty severe', true)).toBe(8);
+    expect(parseSeverity('mild', true)).toBe(3);
+  });
+
+  it('ignores numbers off the scale', () => {
+    expect(parseSeverity('12', true)).toBeNull();
+    expect(parseSeverity('0', true)).toBeNull();
+  });
+});
+
+describe('applyAnswer', () => {
+  it('picks up every fact a message mentions and asks only for the rest', () => {
+    const state = applyAnswer(createInterviewState(), "I've had a headache for 2 days, about 6/10");
+
+    expect(state).toMatchObject({
+      chief_complaint: "I've had a headache for 2 days, about 6/10",
+      symptoms: ['Headache'],
+      onset: '1-3-days',
+      severity: 6,
+      pending_slot: 'medications',
+    });
+  });
+
+  it('leaves out negated symptoms', () => {
+    const state = applyAnswer(createInterviewState(), 'I have a headache and a cough but no fever');
+
+    expect(state.symptoms).toEqual(['Headache', 'Cough']);
+  });
+
+  it('collects emergency keywords alongside the symptoms', () => {
+    const state = applyAnswer(createInterviewState(), 'Chest pain and numbness in my left arm');
+
+    expect(state.symptoms).toEqual(['Chest pain']);
+    expect(state.emergency_keywords).toEqual(['chest pain', 'numbness']);
+  });
+
+  it('maps brand names to the medication and keeps other answers as written', () => {
+    expect(applyAnswer(askedFor('medications'), 'I took some Advil').medications).toEqual(['Ibuprofen']);
+    expect(applyAnswer(askedFor('medications'), 'vitamin D and ginger tea.').medications).toEqual([
+      'vitamin D', 'ginger tea',
+    ]);
+  });
+
+  it.each([['None'], ['no'], ['Nope, nothing'], ['n/a'], ['not really']])(
+    'records "%s" as nothing to report',
+    (answer) => {
+      expect(applyAnswer(askedFor('medications'), answer).medications).toEqual([]);
+      expect(applyAnswer(askedFor('conditions'), answer).conditions).toEqual([]);
+      expect(applyAnswer(askedFor('allergies'), answer).allergies).toEqual([]);
+    }
+  );
+
+  it('reads allergies from any message', () => {
+    expect(applyAnswer(createInterviewState(), 'I am allergic to penicillin and latex').allergies).toEqual([
+      'penicillin', 'latex',
+    ]);
+    expect(applyAnswer(createInterviewState(), 'Headache. No known allergies.').allergies).toEqual([]);
+    expect(applyAnswer(createInterviewState(), 'Headache').allergies).toBeNull();
+  });
+
+  it('asks again after an answer it cannot read, then moves on', () => {
+    const asked = replayInterview(['I feel unwell']);
+    const unclear = applyAnswer(asked, 'not sure');
+    const skipped = applyAnswer(unclear, 'hard to say');
+
+    expect(unclear.pending_slot).toBe('onset');
+    expect(getSlotQuestion(asked, unclear)).toBe(
+      'Sorry, I didn\'t quite catch that. When did these symptoms start? For example, "2 days ago" or "this morning".'
+    );
+    expect(skipped.skipped).toEqual(['onset']);
+    expect(skipped.pending_slot).toBe('severity');
+  });
+});
+
+describe('a finished interview', () => {
+  const state = replayInterview(['Bad headache', 'since yesterday', '5', 'none', 'No', 'nope']);
+
+  it('has every slot answered', () => {
+    expect(isInterviewComplete(state)).toBe(true);
+  });
+
+  it('reports answered "none" slots as none rather than missing', () => {
+    expect(summarizeInterview(state)).toEqual([
+      'Main concern: Bad headache',
+      'Symptoms: Headache',
+      'Duration: 1-3 days',
+      'Severity: 5/10',
+      'Medications: None reported',
+      'Conditions: None reported',
+      'Allergies: None reported',
+    ]);
+  });
+
+  it('becomes an intake record and a triage input', () => {
+    expect(toIntakeRecord(state)).toEqual({
+      symptoms: ['Headache'],
+      symptom_duration: '1-3-days',
+      existing_conditions: [],
+      additional_notes: [
+        'Main concern: Bad headache',
+        'Severity: 5/10',
+        'Medications: None reported',
+        'Allergies: None reported',
+      ].join('\n'),
+    });
+    expect(evaluateTriage(toTriageInput(state)).urgency_level).toBe('medium');
+  });
+
+  it('carries emergency keywords into the notes the engine reads', () => {
+    const emergency = replayInterview(['I think I am having a heart attack']);
+
+    expect(toIntakeRecord(emergency).additional_notes).toContain('Emergency keywords: heart attack');
+    expect(evaluateTriage(toTriageInput(emergency)).urgency_level).toBe('high');
+  });
+});
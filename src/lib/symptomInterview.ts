@@ -0,0 +1,350 @@
+// Slot-filling symptom interview used by the chatbot.
+// Each patient message is parsed for every fact it mentions; the bot then asks
+// only for the slots that are still missing.
+
+import { TriageInput, detectEmergencyKeywords } from './triageEngine';
+
+export type InterviewSlot =
+  | 'chief_complaint'
+  | 'onset'
+  | 'severity'
+  | 'medications'
+  | 'conditions'
+  | 'allergies';
+
+export type SymptomDuration =
+  | 'less-than-24h'
+  | '1-3-days'
+  | '4-7-days'
+  | '1-2-weeks'
+  | 'more-than-2-weeks';
+
+export const DURATION_LABELS: Record<SymptomDuration, string> = {
+  'less-than-24h': 'Less than 24 hours',
+  '1-3-days': '1-3 days',
+  '4-7-days': '4-7 days',
+  '1-2-weeks': '1-2 weeks',
+  'more-than-2-weeks': 'More than 2 weeks',
+};
+
+export interface InterviewState {
+  chief_complaint: string | null;
+  symptoms: string[];
+  onset: SymptomDuration | null;
+  severity: number | null;
+  // null means not asked yet, an empty list means the patient reported none
+  medications: string[] | null;
+  conditions: string[] | null;
+  allergies: string[] | null;
+  emergency_keywords: string[];
+  pending_slot: InterviewSlot | null;
+  attempts: Partial<Record<InterviewSlot, number>>;
+  skipped: InterviewSlot[];
+}
+
+export interface InterviewIntake {
+  symptoms: string[];
+  symptom_duration: SymptomDuration | null;
+  existing_conditions: string[];
+  additional_notes: string;
+}
+
+export const SLOT_ORDER: InterviewSlot[] = [
+  'chief_complaint', 'onset', 'severity', 'medications', 'conditions', 'allergies'
+];
+
+// Slots we stop asking about after this many unparseable answers
+const MAX_ATTEMPTS = 2;
+
+const SLOT_QUESTIONS: Record<InterviewSlot, string> = {
+  chief_complaint: 'Could you describe the main symptom or concern that brought you here today?',
+  onset: 'When did these symptoms start? For example, "2 days ago" or "this morning".',
+  severity: 'On a scale of 1-10, how would you rate your discomfort level?',
+  medications: 'Have you taken any medications or treatments for this?',
+  conditions: 'Do you have any pre-existing conditions, such as diabetes, asthma or heart disease?',
+  allergies: 'Do you have any allergies, including to medications?',
+};
+
+const ACKNOWLEDGEMENTS = ['Thank you for sharing that.', 'I understand.', 'That\'s helpful information.', 'Got it.'];
+
+const SYMPTOM_LEXICON: Record<string, string[]> = {
+  'Headache': ['headache', 'migraine', 'head hurts', 'head pain'],
+  'Fever': ['fever', 'temperature', 'feverish', 'chills'],
+  'Cough': ['cough'],
+  'Fatigue': ['fatigue', 'tired', 'exhausted', 'weakness'],
+  'Nausea': ['nausea', 'nauseous', 'vomit', 'throwing up'],
+  'Dizziness': ['dizzy', 'dizziness', 'lightheaded', 'light-headed', 'vertigo'],
+  'Body aches': ['body aches', 'aching', 'muscle pain', 'sore muscles'],
+  'Sore throat': ['sore throat', 'throat hurts', 'throat pain'],
+  'Shortness of breath': ['shortness of breath', 'short of breath', 'can\'t breathe', 'difficulty breathing', 'trouble breathing', 'breathless'],
+  'Chest pain': ['chest pain', 'chest hurts', 'chest tightness', 'pressure in my chest'],
+};
+
+const CONDITION_LEXICON: Record<string, string[]> = {
+  'Diabetes': ['diabetes', 'diabetic'],
+  'Hypertension': ['hypertension', 'high blood pressure'],
+  'Asthma': ['asthma'],
+  'Heart disease': ['heart disease', 'heart condition', 'heart failure'],
+  'Arthritis': ['arthritis'],
+  'Thyroid disorder': ['thyroid'],
+};
+
+const MEDICATION_LEXICON: Record<string, string[]> = {
+  'Ibuprofen': ['ibuprofen', 'advil', 'motrin'],
+  'Acetaminophen': ['acetaminophen', 'paracetamol', 'tylenol'],
+  'Aspirin': ['aspirin'],
+  'Antibiotics': ['antibiotic'],
+  'Antihistamines': ['antihistamine', 'benadryl', 'zyrtec', 'claritin'],
+  'Inhaler': ['inhaler'],
+  'Insulin': ['insulin'],
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, couple: 2, few: 3, several: 4,
+};
+
+const UNIT_DAYS: Record<string, number> = { hour: 1 / 24, day: 1, week: 7, month: 30, year: 365 };
+
+const SEVERITY_WORDS: Record<string, number> = {
+  mild: 3, moderate: 5, bad: 6, severe: 8, unbearable: 10, worst: 10,
+};
+
+const NEGATIVE_ANSWER = /^\s*(no|none|nope|nothing|nah|not really|n\/a|nkda)\b/i;
+
+const isNegated = (text: string, index: number): boolean => {
+  const preceding = text.slice(Math.max(0, index - 20), index);
+  return /\b(no|not|without|never|denies?)\b[^.,;]*$/.test(preceding);
+};
+
+const matchLexicon = (text: string, lexicon: Record<string, string[]>): string[] => {
+  const lowerText = text.toLowerCase();
+  return Object.entries(lexicon)
+    .filter(([, terms]) => terms.some((term) => {
+      const index = lowerText.indexOf(term);
+      return index !== -1 && !isNegated(lowerText, index);
+    }))
+    .map(([label]) => label);
+};
+
+const mergeUnique = (current: string[] | null, additions: string[]): string[] =>
+  Array.from(new Set([...(current ?? []), ...additions]));
+
+const splitList = (text: string): string[] =>
+  text
+    .split(/,|;|\band\b/i)
+    .map(part => part.trim().replace(/\.$/, ''))
+    .filter(Boolean);
+
+const toDurationBucket = (days: number): SymptomDuration => {
+  if (days < 1) return 'less-than-24h';
+  if (days <= 3) return '1-3-days';
+  if (days <= 7) return '4-7-days';
+  if (days <= 14) return '1-2-weeks';
+  return 'more-than-2-weeks';
+};
+
+export function parseOnset(text: string): SymptomDuration | null {
+  const lowerText = text.toLowerCase();
+
+  const match = lowerText.match(
+    /\b(\d+|a|an|one|two|three|four|five|six|seven|eight|nine|ten|couple|few|several)\s+(?:of\s+)?(hour|day|week|month|year)s?\b/
+  );
+  if (match) {
+    const count = /^\d+$/.test(match[1]) ? parseInt(match[1]) : NUMBER_WORDS[match[1]];
+    return toDurationBucket(count * UNIT_DAYS[match[2]]);
+  }
+
+  if (/\b(today|this morning|this afternoon|this evening|tonight|just started|an hour ago)\b/.test(lowerText)) {
+    return 'less-than-24h';
+  }
+  if (/\b(yesterday|last night)\b/.test(lowerText)) return '1-3-days';
+  if (/\blast week\b/.test(lowerText)) return '4-7-days';
+  if (/\blast month\b/.test(lowerText)) return 'more-than-2-weeks';
+
+  return null;
+}
+
+export function parseSeverity(text: string, expectingSeverity: boolean): number | null {
+  const lowerText = text.toLowerCase();
+
+  const explicit = lowerText.match(/\b(10|[1-9])\s*(?:\/|out of)\s*10\b/);
+  if (explicit) return parseInt(explicit[1]);
+  if (!expectingSeverity) return null;
+
+  const bare = lowerText.match(/\b(10|[1-9])\b/);
+  if (bare) return parseInt(bare[1]);
+
+  const word = Object.keys(SEVERITY_WORDS).find(w => lowerText.includes(w));
+  return word ? SEVERITY_WORDS[word] : null;
+}
+
+const parseAllergies = (text: string, expectingAllergies: boolean): string[] | null => {
+  const lowerText = text.toLowerCase();
+  if (/\b(no (known )?allergies|not allergic|nkda)\b/.test(lowerText)) return [];
+
+  const match = lowerText.match(/allergic to ([^.;!?]+)/);
+  if (match) return splitList(match[1]);
+
+  if (!expectingAllergies) return null;
+  return NEGATIVE_ANSWER.test(text) ? [] : splitList(text);
+};
+
+const parseFreeTextList = (text: string, known: string[]): string[] => {
+  if (known.length > 0) return known;
+  return NEGATIVE_ANSWER.test(text) ? [] : splitList(text);
+};
+
+export function createInterviewState(): InterviewState {
+  return {
+    chief_complaint: null,
+    symptoms: [],
+    onset: null,
+    severity: null,
+    medications: null,
+    conditions: null,
+    allergies: null,
+    emergency_keywords: [],
+    pending_slot: 'chief_complaint',
+    attempts: {},
+    skipped: [],
+  };
+}
+
+const isSlotFilled = (state: InterviewState, slot: InterviewSlot): boolean => {
+  switch (slot) {
+    case 'chief_complaint': return state.chief_complaint !== null;
+    case 'onset': return state.onset !== null;
+    case 'severity': return state.severity !== null;
+    case 'medications': return state.medications !== null;
+    case 'conditions': return state.conditions !== null;
+    case 'allergies': return state.allergies !== null;
+  }
+};
+
+export function nextMissingSlot(state: InterviewState): InterviewSlot | null {
+  return SLOT_ORDER.find(slot => !isSlotFilled(state, slot) && !state.skipped.includes(slot)) ?? null;
+}
+
+/**
+ * Folds one patient message into the interview. Facts are picked up from any
+ * message; free-text fallbacks only apply to the slot that was just asked.
+ */
+export function applyAnswer(state: InterviewState, text: string): InterviewState {
+  const expected = state.pending_slot;
+  const next: InterviewState = {
+    ...state,
+    attempts: { ...state.attempts },
+    skipped: [...state.skipped],
+  };
+
+  next.symptoms = mergeUnique(state.symptoms, matchLexicon(text, SYMPTOM_LEXICON));
+  next.emergency_keywords = mergeUnique(state.emergency_keywords, detectEmergencyKeywords(text));
+
+  if (expected === 'chief_complaint' && state.chief_complaint === null) {
+    next.chief_complaint = text.trim();
+  }
+
+  next.onset = state.onset ?? parseOnset(text);
+  next.severity = state.severity ?? parseSeverity(text, expected === 'severity');
+
+  const medications = matchLexicon(text, MEDICATION_LEXICON);
+  if (expected === 'medications' && state.medications === null) {
+    next.medications = parseFreeTextList(text, medications);
+  } else if (medications.length > 0) {
+    next.medications = mergeUnique(state.medications, medications);
+  }
+
+  const conditions = matchLexicon(text, CONDITION_LEXICON);
+  if (expected === 'conditions' && state.conditions === null) {
+    next.conditions = parseFreeTextList(text, conditions);
+  } else if (conditions.length > 0) {
+    next.conditions = mergeUnique(state.conditions, conditions);
+  }
+
+  const allergies = parseAllergies(text, expected === 'allergies' && state.allergies === null);
+  if (allergies !== null) {
+    next.allergies = allergies.length > 0 ? mergeUnique(state.allergies, allergies) : (state.allergies ?? []);
+  }
+
+  if (expected && !isSlotFilled(next, expected)) {
+    next.attempts[expected] = (next.attempts[expected] ?? 0) + 1;
+    if (next.attempts[expected] >= MAX_ATTEMPTS) next.skipped.push(expected);
+  }
+
+  next.pending_slot = nextMissingSlot(next);
+  return next;
+}
+
+export function replayInterview(answers: string[]): InterviewState {
+  return answers.reduce(applyAnswer, createInterviewState());
+}
+
+export function isInterviewComplete(state: InterviewState): boolean {
+  return state.pending_slot === null;
+}
+
+export function getSlotQuestion(previous: InterviewState, next: InterviewState): string | null {
+  if (!next.pending_slot) return null;
+
+  const question = SLOT_QUESTIONS[next.pending_slot];
+  if (previous.pending_slot === next.pending_slot) {
+    return `Sorry, I didn't quite catch that. ${question}`;
+  }
+
+  const answered = SLOT_ORDER.filter(slot => isSlotFilled(next, slot)).length;
+  return `${ACKNOWLEDGEMENTS[answered % ACKNOWLEDGEMENTS.length]} ${question}`;
+}
+
+const describeList = (values: string[] | null): string => {
+  if (values === null) return 'Not provided';
+  return values.length > 0 ? values.join(', ') : 'None reported';
+};
+
+const describeSeverity = (state: InterviewState): string =>
+  state.severity !== null ? `${state.severity}/10` : 'Not provided';
+
+export function summarizeInterview(state: InterviewState): string[] {
+  return [
+    `Main concern: ${state.chief_complaint ?? 'Not provided'}`,
+    `Symptoms: ${state.symptoms.length > 0 ? state.symptoms.join(', ') : 'Not provided'}`,
+    `Duration: ${state.onset ? DURATION_LABELS[state.onset] : 'Not provided'}`,
+    `Severity: ${describeSeverity(state)}`,
+    `Medications: ${describeList(state.medications)}`,
+    `Conditions: ${describeList(state.conditions)}`,
+    `Allergies: ${describeList(state.allergies)}`,
+  ];
+}
+
+export function toIntakeRecord(state: InterviewState): InterviewIntake {
+  // Symptoms, onset and conditions have their own intake columns
+  const notes = [
+    `Main concern: ${state.chief_complaint ?? 'Not provided'}`,
+    `Severity: ${describeSeverity(state)}`,
+    `Medications: ${describeList(state.medications)}`,
+    `Allergies: ${describeList(state.allergies)}`,
+  ];
+  if (state.emergency_keywords.length > 0) {
+    notes.push(`Emergency keywords: ${state.emergency_keywords.join(', ')}`);
+  }
+
+  return {
+    symptoms: state.symptoms,
+    symptom_duration: state.onset,
+    existing_conditions: state.conditions ?? [],
+    additional_notes: notes.join('\n'),
+  };
+}
+
+export function toTriageInput(state: InterviewState): TriageInput {
+  const intake = toIntakeRecord(state);
+  return {
+    age: null,
+    gender: null,
+    symptoms: intake.symptoms,
+    duration: intake.symptom_duration,
+    existing_conditions: intake.existing_conditions,
+    notes: intake.additional_notes,
+    severity: state.severity,
+  };
+}
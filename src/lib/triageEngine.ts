@@ -0,0 +1,3 @@
+// The engine lives with the edge functions so the server and the UI score
+// with the same rules; the browser copy is for previews only.
+export * from '../../supabase/functions/_shared/triageEngine';
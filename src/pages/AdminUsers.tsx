@@ -0,0 +1,201 @@
+import { useState } from 'react';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useManagedUsers, useUpdateUserRole } from '@/data/hooks/userRoles';
+import { AppRole, ROLE_LABELS, RoleStatus } from '@/lib/roles';
+import { Loader2, Search, UserCheck, UserX, Users } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatDate } from '@/lib/dates';
+
+const statusStyles: Record<RoleStatus, string> = {
+  approved: 'urgency-badge-low',
+  pending: 'urgency-badge-medium',
+  revoked: 'urgency-badge-high',
+};
+
+export default function AdminUsers() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { data: users = [], isLoading } = useManagedUsers();
+  const updateUserRole = useUpdateUserRole(user?.id);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [statusFilter, setStatusFilter] = useState<'all' | RoleStatus>('all');
+  const updatingId = updateUserRole.isPending ? updateUserRole.variables?.userId : null;
+
+  const updateRole = (
+    userId: string,
+    changes: { role?: AppRole; status?: RoleStatus },
+    successMessage: string
+  ) => {
+    updateUserRole.mutate(
+      { userId, changes },
+      { onSuccess: () => toast({ title: 'User updated', description: successMessage }) }
+    );
+  };
+
+  const filteredUsers = users.filter(u => {
+    if (statusFilter !== 'all' && u.status !== statusFilter) return false;
+    const query = searchQuery.trim().toLowerCase();
+    if (!query) return true;
+    return (
+      u.email?.toLowerCase().includes(query) ||
+      u.full_name?.toLowerCase().includes(query)
+    );
+  });
+
+  const pendingCount = users.filter(u => u.status === 'pending').length;
+
+  return (
+    <AppLayout>
+      <div className="animate-fade-in">
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold text-foreground font-display">User Management</h1>
+          <p className="text-muted-foreground">
+            Approve staff accounts, change roles and deactivate access.
+          </p>
+        </div>
+
+        <div className="mb-4 flex flex-col gap-3 sm:flex-row sm:items-center">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              placeholder="Search by name or email..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as 'all' | RoleStatus)}>
+            <SelectTrigger className="sm:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              <SelectItem value="pending">Pending ({pendingCount})</SelectItem>
+              <SelectItem value="approved">Approved</SelectItem>
+              <SelectItem value="revoked">Deactivated</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : filteredUsers.length === 0 ? (
+          <Card className="border-border">
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <Users className="h-12 w-12 text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">No users found</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="border-border shadow-healthcare">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Joined</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredUsers.map((u) => {
+                  const isSelf = u.user_id === user?.id;
+                  const isBusy = updatingId === u.user_id;
+                  const name = u.full_name || u.email || 'Unknown user';
+
+                  return (
+                    <TableRow key={u.user_id}>
+                      <TableCell>
+                        <p className="font-medium text-foreground">
+                          {name}
+                          {isSelf && <span className="ml-2 text-xs text-muted-foreground">(you)</span>}
+                        </p>
+                        {u.full_name && u.email && (
+                          <p className="text-sm text-muted-foreground">{u.email}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {u.role ? (
+                          <Select
+                            value={u.role}
+                            disabled={isSelf || isBusy}
+                            onValueChange={(value) =>
+                              updateRole(u.user_id, { role: value as AppRole }, `${name} is now ${ROLE_LABELS[value as AppRole]}.`)
+                            }
+                          >
+                            <SelectTrigger className="w-44">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {(Object.keys(ROLE_LABELS) as AppRole[]).map(role => (
+                                <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">No role</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {u.status && (
+                          <span className={cn(statusStyles[u.status], 'capitalize')}>
+                            {u.status === 'revoked' ? 'Deactivated' : u.status}
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {formatDate(u.created_at)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {u.role && !isSelf && (
+                          <div className="flex justify-end gap-2">
+                            {u.status !== 'approved' && (
+                              <Button
+                                size="sm"
+                                disabled={isBusy}
+                                onClick={() => updateRole(
+                                  u.user_id,
+                                  { status: 'approved' },
+                                  u.status === 'revoked' ? `${name} has been reactivated.` : `${name} has been approved.`
+                                )}
+                              >
+                                <UserCheck className="h-4 w-4 mr-1" />
+                                {u.status === 'revoked' ? 'Reactivate' : 'Approve'}
+                              </Button>
+                            )}
+                            {u.status !== 'revoked' && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={isBusy}
+                                className="text-destructive hover:bg-destructive/10"
+                                onClick={() => updateRole(u.user_id, { status: 'revoked' }, `${name} has been deactivated.`)}
+                              >
+                                <UserX className="h-4 w-4 mr-1" />
+                                Deactivate
+                              </Button>
+                            )}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </Card>
+        )}
+      </div>
+    </AppLayout>
+  );
+}
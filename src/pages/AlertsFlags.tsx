@@ -1,91 +1,72 @@
-import { useEffect, useState } from 'react';
+import { useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { AppLayout } from '@/components/layout/AppLayout';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Button } from '@/components/ui/button';
-import { supabase } from '@/integrations/supabase/client';
-import { Loader2, AlertTriangle, Bell, BellOff, CheckCircle } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { AlertCard } from '@/components/alerts/AlertCard';
+import { HighRiskPatients } from '@/components/alerts/HighRiskPatients';
+import { CursorPagination } from '@/components/lists/CursorPagination';
+import { ListFilters } from '@/components/lists/ListFilters';
+import { useAuth } from '@/contexts/AuthContext';
+import { AlertFilters, ReadState } from '@/data/alerts';
+import { getDisplayName } from '@/data/profiles';
+import { useAcknowledgeAlert, useAlerts, useMarkAlertAsRead, useUnreadAlertCount } from '@/data/hooks/alerts';
+import { useProfilesByIds } from '@/data/hooks/profiles';
+import { Loader2, Bell, BellOff } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { unlessAll } from '@/lib/listFilters';
+import { useListFilters } from '@/hooks/use-list-filters';
 
-interface Alert {
-  id: string;
-  user_id: string;
-  alert_type: string;
-  message: string;
-  is_read: boolean;
-  created_at: string;
-}
-
-interface HighRiskPatient {
-  id: string;
-  user_id: string;
-  urgency: 'high';
-  recommended_action: string | null;
-  created_at: string;
-}
+const readStateOptions: { value: ReadState; label: string }[] = [
+  { value: 'unread', label: 'Unread' },
+  { value: 'read', label: 'Read' },
+];
 
 export default function AlertsFlags() {
-  const [alerts, setAlerts] = useState<Alert[]>([]);
-  const [highRiskPatients, setHighRiskPatients] = useState<HighRiskPatient[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-
-  useEffect(() => {
-    const fetchData = async () => {
-      const [alertsRes, patientsRes] = await Promise.all([
-        supabase
-          .from('alerts')
-          .select('*')
-          .order('created_at', { ascending: false }),
-        supabase
-          .from('triage_results')
-          .select('*')
-          .eq('urgency', 'high')
-          .order('created_at', { ascending: false }),
-      ]);
-
-      if (alertsRes.data) setAlerts(alertsRes.data);
-      if (patientsRes.data) setHighRiskPatients(patientsRes.data as HighRiskPatient[]);
-      setIsLoading(false);
-    };
-
-    fetchData();
-
-    // Subscribe to realtime alerts
-    const channel = supabase
-      .channel('alerts-changes')
-      .on(
-        'postgres_changes',
-        { event: '*', schema: 'public', table: 'alerts' },
-        () => {
-          fetchData();
-        }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, []);
-
-  const markAsRead = async (alertId: string) => {
-    await supabase
-      .from('alerts')
-      .update({ is_read: true })
-      .eq('id', alertId);
-
-    setAlerts(prev =>
-      prev.map(a => (a.id === alertId ? { ...a, is_read: true } : a))
-    );
+  const navigate = useNavigate();
+  const { user, userRole } = useAuth();
+  // Admins are the escalation tier and only see alerts once they escalate
+  const isStaff = userRole === 'healthcare_staff';
+  const { values, search, update, pagination } = useListFilters();
+
+  const filters = useMemo<AlertFilters>(() => ({
+    readState: unlessAll(values.status as ReadState),
+    from: values.from || undefined,
+    to: values.to || undefined,
+    search: search || undefined,
+  }), [values.status, values.from, values.to, search]);
+
+  const sort = values.sort === 'oldest' ? 'oldest' : 'newest';
+  const {
+    items: alerts,
+    nextCursor,
+    isLoading,
+    isFetching: isFetchingAlerts,
+  } = useAlerts(filters, sort, pagination.cursor);
+  const { data: unreadCount = 0 } = useUnreadAlertCount();
+  const { data: acknowledgers = [] } = useProfilesByIds(alerts.map(a => a.acknowledged_by).filter(Boolean));
+  const markAlertAsRead = useMarkAlertAsRead(user?.id);
+  const acknowledgeAlert = useAcknowledgeAlert();
+
+  const isBusy = markAlertAsRead.isPending || acknowledgeAlert.isPending;
+
+  const getAcknowledgerName = (userId: string | null) => {
+    if (!userId) return null;
+    if (userId === user?.id) return 'you';
+    const acknowledger = acknowledgers.find(p => p.user_id === userId);
+    return acknowledger ? getDisplayName(acknowledger, 'Unknown clinician') : null;
   };
 
-  const unreadCount = alerts.filter(a => !a.is_read).length;
-
   return (
     <AppLayout>
       <div className="animate-fade-in">
         <div className="mb-6">
-          <h1 className="text-2xl font-bold text-foreground font-display">Alerts & Flags</h1>
+          <h1 className="text-2xl font-bold text-foreground font-display">
+            {isStaff ? 'Alerts & Flags' : 'Escalated Alerts'}
+          </h1>
           <p className="text-muted-foreground">
-            Monitor high-risk patients and important notifications.
+            {isStaff
+              ? 'Monitor high-risk patients and important notifications.'
+              : 'High-severity alerts that no clinician acknowledged in time.'}
           </p>
         </div>
 
@@ -94,54 +75,9 @@ export default function AlertsFlags() {
             <Loader2 className="h-8 w-8 animate-spin text-primary" />
           </div>
         ) : (
-          <div className="grid gap-6 lg:grid-cols-2">
+          <div className={cn('grid gap-6', isStaff && 'lg:grid-cols-2')}>
             {/* High-Risk Patients */}
-            <div>
-              <div className="flex items-center gap-2 mb-4">
-                <AlertTriangle className="h-5 w-5 text-urgency-high" />
-                <h2 className="text-lg font-semibold text-foreground">High-Risk Patients</h2>
-                <span className="ml-auto inline-flex items-center rounded-full bg-urgency-high-bg px-2.5 py-0.5 text-xs font-medium text-urgency-high">
-                  {highRiskPatients.length}
-                </span>
-              </div>
-
-              {highRiskPatients.length === 0 ? (
-                <Card className="border-border">
-                  <CardContent className="flex flex-col items-center justify-center py-8">
-                    <CheckCircle className="h-10 w-10 text-urgency-low mb-3" />
-                    <p className="text-muted-foreground text-sm">No high-risk patients</p>
-                  </CardContent>
-                </Card>
-              ) : (
-                <div className="space-y-3">
-                  {highRiskPatients.map((patient) => (
-                    <Card
-                      key={patient.id}
-                      className="border-border border-l-4 border-l-urgency-high shadow-healthcare"
-                    >
-                      <CardContent className="py-4">
-                        <div className="flex items-start gap-3">
-                          <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-urgency-high-bg">
-                            <AlertTriangle className="h-4 w-4 text-urgency-high" />
-                          </div>
-                          <div className="flex-1 min-w-0">
-                            <p className="font-medium text-foreground">
-                              Patient requires immediate attention
-                            </p>
-                            <p className="text-sm text-muted-foreground mt-1 line-clamp-2">
-                              {patient.recommended_action || 'Emergency symptoms detected'}
-                            </p>
-                            <p className="text-xs text-muted-foreground mt-2">
-                              {new Date(patient.created_at).toLocaleString()}
-                            </p>
-                          </div>
-                        </div>
-                      </CardContent>
-                    </Card>
-                  ))}
-                </div>
-              )}
-            </div>
+            {isStaff && <HighRiskPatients />}
 
             {/* Notifications */}
             <div>
@@ -155,6 +91,17 @@ export default function AlertsFlags() {
                 )}
               </div>
 
+              <div className="mb-4">
+                <ListFilters
+                  values={values}
+                  onChange={update}
+                  searchPlaceholder="Search notifications..."
+                  statusLabel="All notifications"
+                  statusOptions={readStateOptions}
+                  sortOptions={['newest', 'oldest']}
+                />
+              </div>
+
               {alerts.length === 0 ? (
                 <Card className="border-border">
                   <CardContent className="flex flex-col items-center justify-center py-8">
@@ -165,55 +112,27 @@ export default function AlertsFlags() {
               ) : (
                 <div className="space-y-3">
                   {alerts.map((alert) => (
-                    <Card
+                    <AlertCard
                       key={alert.id}
-                      className={cn(
-                        'border-border shadow-healthcare transition-all',
-                        !alert.is_read && 'bg-primary/5 border-primary/20'
-                      )}
-                    >
-                      <CardContent className="py-4">
-                        <div className="flex items-start gap-3">
-                          <div className={cn(
-                            'flex h-8 w-8 shrink-0 items-center justify-center rounded-full',
-                            alert.is_read ? 'bg-muted' : 'bg-primary/10'
-                          )}>
-                            <Bell className={cn(
-                              'h-4 w-4',
-                              alert.is_read ? 'text-muted-foreground' : 'text-primary'
-                            )} />
-                          </div>
-                          <div className="flex-1 min-w-0">
-                            <div className="flex items-start justify-between gap-2">
-                              <div>
-                                <p className="font-medium text-foreground capitalize">
-                                  {alert.alert_type.replace('_', ' ')}
-                                </p>
-                                <p className="text-sm text-muted-foreground mt-1">
-                                  {alert.message}
-                                </p>
-                              </div>
-                              {!alert.is_read && (
-                                <Button
-                                  variant="ghost"
-                                  size="sm"
-                                  onClick={() => markAsRead(alert.id)}
-                                  className="shrink-0"
-                                >
-                                  Mark read
-                                </Button>
-                              )}
-                            </div>
-                            <p className="text-xs text-muted-foreground mt-2">
-                              {new Date(alert.created_at).toLocaleString()}
-                            </p>
-                          </div>
-                        </div>
-                      </CardContent>
-                    </Card>
+                      alert={alert}
+                      acknowledgedByName={getAcknowledgerName(alert.acknowledged_by)}
+                      isBusy={isBusy}
+                      onMarkRead={() => markAlertAsRead.mutate(alert.id)}
+                      onAcknowledge={() => acknowledgeAlert.mutate(alert.id)}
+                      onViewCase={isStaff ? () => navigate(`/patient-cases?case=${alert.triage_result_id}`) : undefined}
+                    />
                   ))}
                 </div>
               )}
+
+              <CursorPagination
+                className="mt-4"
+                page={pagination.page}
+                hasNext={!!nextCursor}
+                isFetching={isFetchingAlerts}
+                onPrevious={pagination.previous}
+                onNext={() => nextCursor && pagination.next(nextCursor)}
+              />
             </div>
           </div>
         )}
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { useNavigate, Navigate } from 'react-router-dom';
+import { useNavigate, Navigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -9,13 +9,27 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Stethoscope, Loader2, AlertCircle } from 'lucide-react';
 import { z } from 'zod';
+import { getHomePath } from '@/lib/roles';
 
 const emailSchema = z.string().email('Please enter a valid email address');
 const passwordSchema = z.string().min(6, 'Password must be at least 6 characters');
 
+/**
+ * The in-app path a redirect parameter points to, or null when it would leave
+ * the app. Browsers read `/\host` as `//host` and drop tabs and newlines, so
+ * the parameter is resolved the way the browser would before it is trusted.
+ */
+function safeReturnPath(returnTo: string | null): string | null {
+  if (!returnTo?.startsWith('/')) return null;
+  const url = new URL(returnTo, window.location.origin);
+  if (url.origin !== window.location.origin) return null;
+  return `${url.pathname}${url.search}${url.hash}`;
+}
+
 export default function Auth() {
   const navigate = useNavigate();
-  const { user, userRole, loading, signIn, signUp } = useAuth();
+  const [searchParams] = useSearchParams();
+  const { user, userRole, roleStatus, loading, signIn, signUp } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -28,10 +42,14 @@ export default function Auth() {
   const [signupPassword, setSignupPassword] = useState('');
   const [signupName, setSignupName] = useState('');
   const [signupRole, setSignupRole] = useState<'patient' | 'healthcare_staff'>('patient');
+  const [signupInvitationCode, setSignupInvitationCode] = useState('');
 
-  // Redirect authenticated users
+  // Redirect authenticated users back to where they came from, or to their home page
   if (!loading && user && userRole) {
-    const redirectPath = userRole === 'healthcare_staff' ? '/queue' : '/triage';
+    const returnTo = safeReturnPath(searchParams.get('redirect'));
+    const redirectPath = roleStatus === 'approved' && returnTo
+      ? returnTo
+      : getHomePath(userRole, roleStatus);
     return <Navigate to={redirectPath} replace />;
   }
 
@@ -80,7 +98,13 @@ export default function Auth() {
       }
     }
 
-    const { error } = await signUp(signupEmail, signupPassword, signupRole, signupName);
+    const { error } = await signUp(
+      signupEmail,
+      signupPassword,
+      signupRole,
+      signupName,
+      signupRole === 'healthcare_staff' ? signupInvitationCode : undefined
+    );
     
     if (error) {
       if (error.message.includes('already registered')) {
@@ -229,6 +253,22 @@ export default function Auth() {
                       </div>
                     </RadioGroup>
                   </div>
+                  {signupRole === 'healthcare_staff' && (
+                    <div className="space-y-2">
+                      <Label htmlFor="signup-invitation">Invitation Code</Label>
+                      <Input
+                        id="signup-invitation"
+                        type="text"
+                        placeholder="Optional"
+                        value={signupInvitationCode}
+                        onChange={(e) => setSignupInvitationCode(e.target.value)}
+                        disabled={isLoading}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Without a valid invitation, staff accounts must be approved by an administrator.
+                      </p>
+                    </div>
+                  )}
                   <Button type="submit" className="w-full" disabled={isLoading}>
                     {isLoading ? (
                       <>
@@ -1,74 +1,24 @@
-import { useEffect, useState } from 'react';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { DataExportMenu } from '@/components/export/DataExportMenu';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
+import { useChatSessionsForUser, useIntakesForUser } from '@/data/hooks/patientRecords';
+import { useTriageResultsForUser } from '@/data/hooks/triageResults';
 import { Loader2, MessageSquare, FileText, Activity, User } from 'lucide-react';
 import { cn } from '@/lib/utils';
-
-interface ChatSession {
-  id: string;
-  messages: Array<{ role: string; content: string; timestamp: string }>;
-  created_at: string;
-}
-
-interface Intake {
-  id: string;
-  age: number | null;
-  gender: string | null;
-  symptoms: string[];
-  symptom_duration: string | null;
-  existing_conditions: string[];
-  additional_notes: string | null;
-  created_at: string;
-}
-
-interface TriageResult {
-  id: string;
-  urgency: 'low' | 'medium' | 'high';
-  recommended_action: string | null;
-  created_at: string;
-}
+import { formatDate } from '@/lib/dates';
 
 export default function CaseSummary() {
   const { user } = useAuth();
-  const [chatSessions, setChatSessions] = useState<ChatSession[]>([]);
-  const [intakes, setIntakes] = useState<Intake[]>([]);
-  const [triageResults, setTriageResults] = useState<TriageResult[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-
-  useEffect(() => {
-    if (!user) return;
+  const chatsQuery = useChatSessionsForUser(user?.id);
+  const intakesQuery = useIntakesForUser(user?.id);
+  const resultsQuery = useTriageResultsForUser(user?.id);
 
-    const fetchData = async () => {
-      const [chatsRes, intakesRes, resultsRes] = await Promise.all([
-        supabase
-          .from('chat_sessions')
-          .select('*')
-          .eq('user_id', user.id)
-          .order('created_at', { ascending: false }),
-        supabase
-          .from('patient_intake')
-          .select('*')
-          .eq('user_id', user.id)
-          .order('created_at', { ascending: false }),
-        supabase
-          .from('triage_results')
-          .select('*')
-          .eq('user_id', user.id)
-          .order('created_at', { ascending: false }),
-      ]);
-
-      if (chatsRes.data) setChatSessions(chatsRes.data as unknown as ChatSession[]);
-      if (intakesRes.data) setIntakes(intakesRes.data as Intake[]);
-      if (resultsRes.data) setTriageResults(resultsRes.data as TriageResult[]);
-
-      setIsLoading(false);
-    };
-
-    fetchData();
-  }, [user]);
+  const chatSessions = chatsQuery.data ?? [];
+  const intakes = intakesQuery.data ?? [];
+  const triageResults = resultsQuery.data ?? [];
+  const isLoading = chatsQuery.isLoading || intakesQuery.isLoading || resultsQuery.isLoading;
 
   const latestChat = chatSessions[0];
   const latestIntake = intakes[0];
@@ -87,11 +37,14 @@ export default function CaseSummary() {
   return (
     <AppLayout>
       <div className="animate-fade-in">
-        <div className="mb-6">
-          <h1 className="text-2xl font-bold text-foreground font-display">My Case Summary</h1>
-          <p className="text-muted-foreground">
-            View your complete health assessment history in one place.
-          </p>
+        <div className="mb-6 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground font-display">My Case Summary</h1>
+            <p className="text-muted-foreground">
+              View your complete health assessment history in one place.
+            </p>
+          </div>
+          <DataExportMenu />
         </div>
 
         <Tabs defaultValue="overview" className="space-y-6">
@@ -150,7 +103,7 @@ export default function CaseSummary() {
                 <CardHeader>
                   <CardTitle className="font-display">Latest Assessment</CardTitle>
                   <CardDescription>
-                    {new Date(latestResult.created_at).toLocaleDateString()}
+                    {formatDate(latestResult.created_at)}
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
@@ -177,7 +130,7 @@ export default function CaseSummary() {
                 <CardHeader>
                   <CardTitle className="font-display">Latest Intake Information</CardTitle>
                   <CardDescription>
-                    Submitted on {new Date(latestIntake.created_at).toLocaleDateString()}
+                    Submitted on {formatDate(latestIntake.created_at)}
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-4">
@@ -238,9 +191,14 @@ export default function CaseSummary() {
               chatSessions.map((session) => (
                 <Card key={session.id} className="border-border">
                   <CardHeader>
-                    <CardTitle className="text-sm">
-                      Session from {new Date(session.created_at).toLocaleDateString()}
-                    </CardTitle>
+                    <div className="flex items-center justify-between">
+                      <CardTitle className="text-sm">
+                        Session from {formatDate(session.created_at)}
+                      </CardTitle>
+                      <span className="inline-flex items-center rounded-full bg-muted px-2.5 py-0.5 text-xs font-medium text-muted-foreground capitalize">
+                        {session.status}
+                      </span>
+                    </div>
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-2 max-h-60 overflow-y-auto">
@@ -275,7 +233,7 @@ export default function CaseSummary() {
                 <Card key={intake.id} className="border-border">
                   <CardHeader>
                     <CardTitle className="text-sm">
-                      Intake from {new Date(intake.created_at).toLocaleDateString()}
+                      Intake from {formatDate(intake.created_at)}
                     </CardTitle>
                   </CardHeader>
                   <CardContent>
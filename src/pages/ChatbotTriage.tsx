@@ -3,10 +3,30 @@ import { AppLayout } from '@/components/layout/AppLayout';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
-import { Send, AlertTriangle, Bot, User } from 'lucide-react';
+import { Send, AlertTriangle, Bot, User, Loader2, RotateCcw, Square } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
 import { cn } from '@/lib/utils';
+import { detectEmergencyKeywords } from '@/lib/triageEngine';
+import { submitIntakeForTriage } from '@/data/intakes';
+import { useInvalidatePatientRecords } from '@/data/hooks/patientRecords';
+import { getConversationProvider, isAbortError } from '@/lib/conversation';
+import {
+  InterviewState,
+  applyAnswer,
+  createInterviewState,
+  isInterviewComplete,
+  replayInterview,
+  toIntakeRecord,
+} from '@/lib/symptomInterview';
+import {
+  ChatSessionStatus,
+  StoredChatMessage,
+  appendChatMessages,
+  closeChatSession,
+  resumeActiveChatSession,
+  startChatSession,
+} from '@/data/chatSessions';
+import { formatTime } from '@/lib/dates';
 
 interface Message {
   id: string;
@@ -16,26 +36,73 @@ interface Message {
   isEmergency?: boolean;
 }
 
-const EMERGENCY_KEYWORDS = [
-  'chest pain', 'can\'t breathe', 'difficulty breathing', 'severe bleeding',
-  'unconscious', 'stroke', 'heart attack', 'seizure', 'overdose',
-  'suicidal', 'suicide', 'severe pain', 'numbness', 'paralysis'
-];
+// A patient message awaiting (or retrying) its assistant reply
+interface PendingTurn {
+  history: Message[];
+  userMessage: Message;
+  previousInterview: InterviewState;
+  interview: InterviewState;
+  isEmergency: boolean;
+}
+
+type ClosingStatus = 'completed' | 'escalated';
+
+// One write to the chat session or its triage result
+type SessionWrite = () => Promise<void>;
+
+const conversationProvider = getConversationProvider();
 
-const INITIAL_MESSAGE: Message = {
+// Well inside what the hosted conversation function accepts per message
+const MAX_MESSAGE_LENGTH = 2000;
+
+const createInitialMessage = (): Message => ({
   id: '1',
   role: 'assistant',
   content: 'Hello! I\'m your virtual triage assistant. I\'m here to help assess your symptoms and guide you to the appropriate level of care. Please describe what symptoms you\'re experiencing today.',
   timestamp: new Date(),
-};
+});
+
+const toStoredMessage = (message: Message): StoredChatMessage => ({
+  role: message.role,
+  content: message.content,
+  timestamp: message.timestamp.toISOString(),
+  ...(message.isEmergency && { is_emergency: true }),
+});
+
+const fromStoredMessage = (message: StoredChatMessage, index: number): Message => ({
+  id: `stored-${index}`,
+  role: message.role,
+  content: message.content,
+  timestamp: new Date(message.timestamp),
+  isEmergency: message.is_emergency,
+});
 
 export default function ChatbotTriage() {
   const { user } = useAuth();
-  const [messages, setMessages] = useState<Message[]>([INITIAL_MESSAGE]);
+  const invalidatePatientRecords = useInvalidatePatientRecords();
+  const [messages, setMessages] = useState<Message[]>(() => [createInitialMessage()]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(true);
+  const [sessionStatus, setSessionStatus] = useState<ChatSessionStatus | null>(null);
   const [showEmergencyBanner, setShowEmergencyBanner] = useState(false);
+  const [interview, setInterview] = useState<InterviewState>(createInterviewState);
+  const [streamingReply, setStreamingReply] = useState<string | null>(null);
+  const [failedTurn, setFailedTurn] = useState<PendingTurn | null>(null);
+  const [replyError, setReplyError] = useState<string | null>(null);
+  // Set once the interview ends, until its triage result is recorded
+  const [closingStatus, setClosingStatus] = useState<ClosingStatus | null>(null);
+  // The write that failed and the ones queued behind it, kept for a retry
+  const [failedWrites, setFailedWrites] = useState<SessionWrite[] | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const sessionIdRef = useRef<string | null>(null);
+  // Serialises session writes so appends never race the initial insert
+  const pendingWriteRef = useRef<Promise<void>>(Promise.resolve());
+  const abortRef = useRef<AbortController | null>(null);
+  // Bumped for each new conversation so writes left over from the last one stay quiet
+  const conversationRef = useRef(0);
+
+  const isSessionClosed = sessionStatus !== null && sessionStatus !== 'active';
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -43,35 +110,36 @@ export default function ChatbotTriage() {
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [messages, streamingReply, replyError, failedWrites]);
 
-  const checkForEmergency = (text: string): boolean => {
-    const lowerText = text.toLowerCase();
-    return EMERGENCY_KEYWORDS.some(keyword => lowerText.includes(keyword));
-  };
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
 
-  const generateBotResponse = (userMessage: string): string => {
-    const isEmergency = checkForEmergency(userMessage);
-    
-    if (isEmergency) {
-      return '🚨 **IMPORTANT**: Based on what you\'ve described, you may need immediate medical attention. Please call 911 or go to your nearest emergency room immediately. If you\'re unsure, err on the side of caution and seek emergency care now.';
-    }
+  useEffect(() => {
+    if (!user) return;
 
-    const responses = [
-      'Thank you for sharing that. Can you tell me how long you\'ve been experiencing these symptoms?',
-      'I understand. On a scale of 1-10, how would you rate your discomfort level?',
-      'That\'s helpful information. Have you taken any medications or treatments for this?',
-      'Do you have any pre-existing conditions or allergies I should be aware of?',
-      'Based on what you\'ve described, I recommend scheduling an appointment with your primary care provider within the next 24-48 hours. In the meantime, rest and stay hydrated.',
-    ];
+    resumeActiveChatSession(user.id)
+      .then((session) => {
+        if (!session || session.messages.length === 0) return;
+        const restored = session.messages.map(fromStoredMessage);
+        sessionIdRef.current = session.id;
+        setSessionStatus('active');
+        setMessages(restored);
+        setInterview(replayInterview(restored.filter(m => m.role === 'user').map(m => m.content)));
+        setShowEmergencyBanner(restored.some(m => m.isEmergency));
+      })
+      .catch((error) => console.error('Error resuming chat:', error))
+      .finally(() => setIsRestoring(false));
+  }, [user]);
 
-    const messageCount = messages.filter(m => m.role === 'user').length;
-    return responses[Math.min(messageCount, responses.length - 1)];
+  const checkForEmergency = (text: string): boolean => {
+    return detectEmergencyKeywords(text).length > 0;
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!input.trim() || isLoading) return;
+    if (!input.trim() || isLoading || isSessionClosed || closingStatus || failedTurn || failedWrites) return;
 
     const userMessage: Message = {
       id: Date.now().toString(),
@@ -85,52 +153,188 @@ export default function ChatbotTriage() {
       setShowEmergencyBanner(true);
     }
 
+    const nextInterview = applyAnswer(interview, userMessage.content);
+
     setMessages(prev => [...prev, userMessage]);
+    setInterview(nextInterview);
     setInput('');
+
+    await requestReply({
+      history: messages,
+      userMessage,
+      previousInterview: interview,
+      interview: nextInterview,
+      isEmergency,
+    });
+  };
+
+  const requestReply = async (turn: PendingTurn) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsLoading(true);
+    setFailedTurn(null);
+    setReplyError(null);
+    setStreamingReply('');
+
+    try {
+      const content = await conversationProvider.respond(
+        {
+          history: [...turn.history, turn.userMessage].map(({ role, content }) => ({ role, content })),
+          previousInterview: turn.previousInterview,
+          interview: turn.interview,
+          isEmergency: turn.isEmergency,
+        },
+        {
+          signal: controller.signal,
+          onToken: (token) => setStreamingReply(prev => (prev ?? '') + token),
+        }
+      );
 
-    // Simulate API delay
-    setTimeout(() => {
       const botResponse: Message = {
         id: (Date.now() + 1).toString(),
         role: 'assistant',
-        content: generateBotResponse(userMessage.content),
+        content,
         timestamp: new Date(),
-        isEmergency,
+        isEmergency: turn.isEmergency,
       };
       setMessages(prev => [...prev, botResponse]);
-      setIsLoading(false);
-
-      // Save to database
-      if (user) {
-        const allMessages = [...messages, userMessage, botResponse].map(m => ({
-          role: m.role,
-          content: m.content,
-          timestamp: m.timestamp.toISOString(),
-        }));
-        
-        supabase
-          .from('chat_sessions')
-          .upsert({
-            user_id: user.id,
-            messages: allMessages,
-            status: 'active',
-          })
-          .then(({ error }) => {
-            if (error) console.error('Error saving chat:', error);
-          });
+
+      const conversation = [...turn.history, turn.userMessage, botResponse];
+      const closeWith = turn.isEmergency ? 'escalated' : isInterviewComplete(turn.interview) ? 'completed' : null;
+
+      setSessionStatus('active');
+      setClosingStatus(closeWith);
+      persistConversation(conversation, [turn.userMessage, botResponse], turn.interview, closeWith);
+    } catch (error) {
+      if (controller.signal.aborted && abortRef.current !== controller) return;
+      if (!isAbortError(error)) console.error('Error generating reply:', error);
+      setFailedTurn(turn);
+      setReplyError(isAbortError(error)
+        ? 'Response cancelled.'
+        : 'The assistant could not respond right now. Please try again.');
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setStreamingReply(null);
+        setIsLoading(false);
+      }
+    }
+  };
+
+  const handleCancelReply = () => {
+    abortRef.current?.abort();
+  };
+
+  // Writes run one at a time and stop at the first failure, so a retry picks
+  // up from the failed write without repeating the ones that succeeded
+  const runSessionWrites = (writes: SessionWrite[]) => {
+    const generation = conversationRef.current;
+    setFailedWrites(null);
+    pendingWriteRef.current = pendingWriteRef.current.then(async () => {
+      for (const [index, write] of writes.entries()) {
+        if (conversationRef.current !== generation) return;
+        try {
+          await write();
+        } catch {
+          if (conversationRef.current === generation) setFailedWrites(writes.slice(index));
+          return;
+        }
+      }
+    });
+  };
+
+  const persistConversation = (
+    conversation: Message[],
+    newMessages: Message[],
+    finalInterview: InterviewState,
+    closeWith: ClosingStatus | null
+  ) => {
+    if (!user) return;
+
+    const generation = conversationRef.current;
+    const saveMessages: SessionWrite = async () => {
+      if (sessionIdRef.current) {
+        await appendChatMessages(sessionIdRef.current, newMessages.map(toStoredMessage));
+      } else {
+        const session = await startChatSession(user.id, conversation.map(toStoredMessage));
+        sessionIdRef.current = session.id;
       }
-    }, 1000);
+    };
+
+    if (!closeWith) {
+      runSessionWrites([saveMessages]);
+      return;
+    }
+
+    // The session only closes, and the patient is only told, once the result is stored
+    runSessionWrites([
+      saveMessages,
+      () => recordTriageResult(sessionIdRef.current!, finalInterview),
+      async () => {
+        await closeChatSession(sessionIdRef.current!, closeWith);
+        if (conversationRef.current !== generation) return;
+        setSessionStatus(closeWith);
+        setClosingStatus(null);
+      },
+    ]);
+  };
+
+  const recordTriageResult = async (sessionId: string, finalInterview: InterviewState) => {
+    await submitIntakeForTriage({
+      ...toIntakeRecord(finalInterview),
+      age: null,
+      gender: null,
+      severity: finalInterview.severity,
+      chat_session_id: sessionId,
+      // A chat ends in one result, so its id marks the submission
+      submission_id: sessionId,
+    });
+    await invalidatePatientRecords();
+  };
+
+  const handleNewConversation = () => {
+    // Detach the in-flight reply first so it does not land in the new conversation
+    const inFlight = abortRef.current;
+    abortRef.current = null;
+    inFlight?.abort();
+    setStreamingReply(null);
+    setIsLoading(false);
+    setFailedTurn(null);
+    setReplyError(null);
+    setFailedWrites(null);
+    setClosingStatus(null);
+    conversationRef.current += 1;
+
+    const sessionId = sessionIdRef.current;
+    if (sessionId && sessionStatus === 'active') {
+      pendingWriteRef.current = pendingWriteRef.current
+        .then(() => closeChatSession(sessionId, 'abandoned'))
+        .catch((error) => console.error('Error closing chat:', error));
+    }
+
+    sessionIdRef.current = null;
+    setSessionStatus(null);
+    setShowEmergencyBanner(false);
+    setInterview(createInterviewState());
+    setMessages([createInitialMessage()]);
   };
 
   return (
     <AppLayout>
       <div className="mx-auto max-w-3xl animate-fade-in">
-        <div className="mb-6">
-          <h1 className="text-2xl font-bold text-foreground font-display">Symptom Assessment</h1>
-          <p className="text-muted-foreground">
-            Describe your symptoms to receive guidance on the appropriate level of care.
-          </p>
+        <div className="mb-6 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground font-display">Symptom Assessment</h1>
+            <p className="text-muted-foreground">
+              Describe your symptoms to receive guidance on the appropriate level of care.
+            </p>
+          </div>
+          {sessionStatus !== null && (
+            <Button variant="outline" onClick={handleNewConversation}>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              New Conversation
+            </Button>
+          )}
         </div>
 
         {showEmergencyBanner && (
@@ -148,6 +352,11 @@ export default function ChatbotTriage() {
         <Card className="flex h-[600px] flex-col overflow-hidden border-border shadow-healthcare">
           {/* Messages Area */}
           <div className="flex-1 overflow-y-auto p-4 space-y-4">
+            {isRestoring && (
+              <div className="flex items-center justify-center py-2">
+                <Loader2 className="h-5 w-5 animate-spin text-primary" />
+              </div>
+            )}
             {messages.map((message) => (
               <div
                 key={message.id}
@@ -169,7 +378,7 @@ export default function ChatbotTriage() {
                 >
                   <p className="text-sm whitespace-pre-wrap">{message.content}</p>
                   <p className="mt-1 text-xs opacity-60">
-                    {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    {formatTime(message.timestamp)}
                   </p>
                 </div>
                 {message.role === 'user' && (
@@ -185,31 +394,86 @@ export default function ChatbotTriage() {
                   <Bot className="h-4 w-4 text-primary-foreground" />
                 </div>
                 <div className="chat-bubble-bot">
-                  <div className="flex gap-1">
-                    <div className="h-2 w-2 rounded-full bg-muted-foreground animate-bounce" style={{ animationDelay: '0ms' }} />
-                    <div className="h-2 w-2 rounded-full bg-muted-foreground animate-bounce" style={{ animationDelay: '150ms' }} />
-                    <div className="h-2 w-2 rounded-full bg-muted-foreground animate-bounce" style={{ animationDelay: '300ms' }} />
-                  </div>
+                  {streamingReply ? (
+                    <p className="text-sm whitespace-pre-wrap">{streamingReply}</p>
+                  ) : (
+                    <div className="flex gap-1">
+                      <div className="h-2 w-2 rounded-full bg-muted-foreground animate-bounce" style={{ animationDelay: '0ms' }} />
+                      <div className="h-2 w-2 rounded-full bg-muted-foreground animate-bounce" style={{ animationDelay: '150ms' }} />
+                      <div className="h-2 w-2 rounded-full bg-muted-foreground animate-bounce" style={{ animationDelay: '300ms' }} />
+                    </div>
+                  )}
                 </div>
               </div>
             )}
+            {failedWrites && (
+              <div className="flex items-center justify-between gap-3 rounded-lg border border-destructive/20 bg-destructive/5 p-3">
+                <p className="text-sm text-destructive">
+                  {closingStatus
+                    ? 'Your results could not be recorded. Please try again.'
+                    : 'Your conversation could not be saved. Please try again.'}
+                </p>
+                <Button variant="outline" size="sm" onClick={() => runSessionWrites(failedWrites)}>
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Retry
+                </Button>
+              </div>
+            )}
+            {replyError && failedTurn && (
+              <div className="flex items-center justify-between gap-3 rounded-lg border border-destructive/20 bg-destructive/5 p-3">
+                <p className="text-sm text-destructive">{replyError}</p>
+                <Button variant="outline" size="sm" onClick={() => requestReply(failedTurn)}>
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Retry
+                </Button>
+              </div>
+            )}
             <div ref={messagesEndRef} />
           </div>
 
           {/* Input Area */}
           <div className="border-t border-border bg-card p-4">
-            <form onSubmit={handleSubmit} className="flex gap-2">
-              <Input
-                value={input}
-                onChange={(e) => setInput(e.target.value)}
-                placeholder="Describe your symptoms..."
-                disabled={isLoading}
-                className="flex-1"
-              />
-              <Button type="submit" disabled={isLoading || !input.trim()}>
-                <Send className="h-4 w-4" />
-              </Button>
-            </form>
+            {isSessionClosed ? (
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm text-muted-foreground">
+                  {sessionStatus === 'escalated'
+                    ? 'This conversation was escalated for urgent care.'
+                    : 'This assessment is complete. Your results have been recorded.'}
+                </p>
+                <Button onClick={handleNewConversation}>Start New Assessment</Button>
+              </div>
+            ) : closingStatus ? (
+              <p className="text-sm text-muted-foreground">
+                {failedWrites ? (
+                  'Your results have not been recorded yet.'
+                ) : (
+                  <span className="flex items-center gap-2">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Recording your results...
+                  </span>
+                )}
+              </p>
+            ) : (
+              <form onSubmit={handleSubmit} className="flex gap-2">
+                <Input
+                  value={input}
+                  onChange={(e) => setInput(e.target.value)}
+                  maxLength={MAX_MESSAGE_LENGTH}
+                  placeholder="Describe your symptoms..."
+                  disabled={isLoading || isRestoring || !!failedTurn || !!failedWrites}
+                  className="flex-1"
+                />
+                {isLoading ? (
+                  <Button type="button" variant="outline" onClick={handleCancelReply} title="Stop response">
+                    <Square className="h-4 w-4" />
+                  </Button>
+                ) : (
+                  <Button type="submit" disabled={isRestoring || !!failedTurn || !!failedWrites || !input.trim()}>
+                    <Send className="h-4 w-4" />
+                  </Button>
+                )}
+              </form>
+            )}
             <p className="mt-2 text-xs text-muted-foreground text-center">
               ⚕️ This tool provides guidance only and is not a substitute for professional medical advice.
             </p>
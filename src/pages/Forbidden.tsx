@@ -0,0 +1,26 @@
+import { useLocation } from 'react-router-dom';
+import { useEffect } from 'react';
+import { ShieldAlert } from 'lucide-react';
+
+const Forbidden = () => {
+  const location = useLocation();
+
+  useEffect(() => {
+    console.warn('403: User does not have access to route:', location.pathname);
+  }, [location.pathname]);
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-muted">
+      <div className="text-center">
+        <ShieldAlert className="mx-auto mb-4 h-12 w-12 text-destructive" />
+        <h1 className="mb-4 text-4xl font-bold">403</h1>
+        <p className="mb-4 text-xl text-muted-foreground">You don't have permission to view this page</p>
+        <a href="/" className="text-primary underline hover:text-primary/90">
+          Return to Home
+        </a>
+      </div>
+    </div>
+  );
+};
+
+export default Forbidden;
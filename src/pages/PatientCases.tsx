@@ -1,71 +1,63 @@
-import { useEffect, useState } from 'react';
+import { useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Input } from '@/components/ui/input';
-import { supabase } from '@/integrations/supabase/client';
-import { Loader2, Search, User, MessageSquare, FileText, Activity } from 'lucide-react';
+import { Loader2, User, MessageSquare, FileText, Activity } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ClinicianReviewPanel } from '@/components/cases/ClinicianReviewPanel';
+import { CursorPagination } from '@/components/lists/CursorPagination';
+import { ListFilters } from '@/components/lists/ListFilters';
+import { useAuth } from '@/contexts/AuthContext';
+import { getDisplayName } from '@/data/profiles';
+import { TriageFilters } from '@/data/triageResults';
+import { useProfilesByIds, useStaffMembers } from '@/data/hooks/profiles';
+import { useCase, useCases } from '@/data/hooks/triageResults';
+import { DISPOSITION_LABELS } from '@/lib/caseReview';
+import { ALL, unlessAll } from '@/lib/listFilters';
+import { QUEUE_STATUS_LABELS, QueueStatus } from '@/lib/queueStatus';
+import { useListFilters } from '@/hooks/use-list-filters';
+import { formatDate, formatDateTime } from '@/lib/dates';
 
-interface PatientCase {
-  id: string;
-  user_id: string;
-  urgency: 'low' | 'medium' | 'high';
-  recommended_action: string | null;
-  clinician_notes: string | null;
-  created_at: string;
-  profile?: {
-    full_name: string | null;
-    email: string | null;
-  };
-  intake?: {
-    age: number | null;
-    gender: string | null;
-    symptoms: string[];
-    symptom_duration: string | null;
-    existing_conditions: string[];
-  };
-  chat?: {
-    messages: Array<{ role: string; content: string }>;
-  };
-}
+const statusOptions = (Object.keys(QUEUE_STATUS_LABELS) as QueueStatus[]).map(status => ({
+  value: status,
+  label: QUEUE_STATUS_LABELS[status],
+}));
 
 export default function PatientCases() {
-  const [cases, setCases] = useState<PatientCase[]>([]);
-  const [selectedCase, setSelectedCase] = useState<PatientCase | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [searchTerm, setSearchTerm] = useState('');
+  const { user } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Opened from search with ?case=<id>; the case may not be on this page
+  const selectedCaseId = searchParams.get('case');
+  const setSelectedCaseId = (id: string) => setSearchParams({ case: id }, { replace: true });
+  const { values, search, update, pagination } = useListFilters();
 
-  useEffect(() => {
-    const fetchCases = async () => {
-      const { data, error } = await supabase
-        .from('triage_results')
-        .select('*')
-        .order('created_at', { ascending: false });
+  const filters = useMemo<TriageFilters>(() => ({
+    urgency: unlessAll(values.urgency),
+    statuses: values.status === ALL ? undefined : [values.status as QueueStatus],
+    assignedTo: unlessAll(values.assignedTo),
+    from: values.from || undefined,
+    to: values.to || undefined,
+    search: search || undefined,
+  }), [values.urgency, values.status, values.assignedTo, values.from, values.to, search]);
 
-      if (error) {
-        console.error('Error fetching cases:', error);
-      } else if (data) {
-        setCases(data as PatientCase[]);
-        if (data.length > 0) {
-          setSelectedCase(data[0] as PatientCase);
-        }
-      }
-      setIsLoading(false);
-    };
+  const { items: cases, nextCursor, isLoading, isFetching } = useCases(filters, values.sort, pagination.cursor);
+  const { data: staff = [] } = useStaffMembers();
 
-    fetchCases();
-  }, []);
+  const listedCase = cases.find(c => c.id === selectedCaseId);
+  const { data: fetchedCase } = useCase(listedCase ? null : selectedCaseId);
+  const selectedCase = listedCase ?? fetchedCase ?? cases[0] ?? null;
 
-  const filteredCases = cases.filter((c) => {
-    if (!searchTerm) return true;
-    const search = searchTerm.toLowerCase();
-    return (
-      c.profile?.full_name?.toLowerCase().includes(search) ||
-      c.profile?.email?.toLowerCase().includes(search) ||
-      c.urgency.includes(search)
-    );
-  });
+  const { data: reviewers = [] } = useProfilesByIds(
+    [...cases, selectedCase].map(c => c?.reviewed_by).filter(id => id && id !== user?.id)
+  );
+
+  const getReviewerName = (reviewerId: string | null) => {
+    if (!reviewerId) return null;
+    if (reviewerId === user?.id) return 'you';
+    const reviewer = reviewers.find(r => r.user_id === reviewerId);
+    return reviewer ? getDisplayName(reviewer, 'Unknown clinician') : null;
+  };
 
   return (
     <AppLayout>
@@ -77,6 +69,19 @@ export default function PatientCases() {
           </p>
         </div>
 
+        <div className="mb-6">
+          <ListFilters
+            values={values}
+            onChange={update}
+            searchPlaceholder="Search patients..."
+            showUrgency
+            statusOptions={statusOptions}
+            staff={staff}
+            currentUserId={user?.id}
+            sortOptions={['newest', 'oldest', 'urgency']}
+          />
+        </div>
+
         {isLoading ? (
           <div className="flex items-center justify-center py-12">
             <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -85,18 +90,8 @@ export default function PatientCases() {
           <div className="grid gap-6 lg:grid-cols-3">
             {/* Patient List */}
             <div className="lg:col-span-1">
-              <div className="mb-4 relative">
-                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-                <Input
-                  placeholder="Search patients..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className="pl-10"
-                />
-              </div>
-
               <div className="space-y-2 max-h-[calc(100vh-280px)] overflow-y-auto">
-                {filteredCases.map((patientCase) => (
+                {cases.map((patientCase) => (
                   <Card
                     key={patientCase.id}
                     className={cn(
@@ -105,7 +100,7 @@ export default function PatientCases() {
                         ? 'border-primary bg-primary/5'
                         : 'border-border'
                     )}
-                    onClick={() => setSelectedCase(patientCase)}
+                    onClick={() => setSelectedCaseId(patientCase.id)}
                   >
                     <CardContent className="py-3">
                       <div className="flex items-center gap-3">
@@ -114,10 +109,11 @@ export default function PatientCases() {
                         </div>
                         <div className="flex-1 min-w-0">
                           <p className="font-medium text-foreground truncate">
-                            {patientCase.profile?.full_name || 'Anonymous Patient'}
+                            {patientCase.profile?.full_name || patientCase.profile?.email || 'Anonymous Patient'}
                           </p>
                           <p className="text-xs text-muted-foreground">
-                            {new Date(patientCase.created_at).toLocaleDateString()}
+                            {formatDate(patientCase.created_at)}
+                            {patientCase.disposition && ` · ${DISPOSITION_LABELS[patientCase.disposition]}`}
                           </p>
                         </div>
                         <span className={cn('urgency-badge-' + patientCase.urgency, 'text-xs')}>
@@ -127,7 +123,18 @@ export default function PatientCases() {
                     </CardContent>
                   </Card>
                 ))}
+                {cases.length === 0 && (
+                  <p className="py-8 text-center text-sm text-muted-foreground">No cases match these filters</p>
+                )}
               </div>
+              <CursorPagination
+                className="mt-4"
+                page={pagination.page}
+                hasNext={!!nextCursor}
+                isFetching={isFetching}
+                onPrevious={pagination.previous}
+                onNext={() => nextCursor && pagination.next(nextCursor)}
+              />
             </div>
 
             {/* Case Details */}
@@ -138,10 +145,10 @@ export default function PatientCases() {
                     <div className="flex items-center justify-between">
                       <div>
                         <CardTitle className="font-display">
-                          {selectedCase.profile?.full_name || 'Anonymous Patient'}
+                          {selectedCase.profile?.full_name || selectedCase.profile?.email || 'Anonymous Patient'}
                         </CardTitle>
                         <CardDescription>
-                          Case from {new Date(selectedCase.created_at).toLocaleString()}
+                          Case from {formatDateTime(selectedCase.created_at)}
                         </CardDescription>
                       </div>
                       <span className={cn('urgency-badge-' + selectedCase.urgency)}>
@@ -175,14 +182,11 @@ export default function PatientCases() {
                             {selectedCase.recommended_action || 'No recommendation provided'}
                           </p>
                         </div>
-                        <div>
-                          <h4 className="font-semibold text-foreground mb-2">Clinician Notes</h4>
-                          <div className="rounded-lg bg-muted p-4 min-h-[100px]">
-                            <p className="text-sm text-muted-foreground italic">
-                              {selectedCase.clinician_notes || 'No notes added yet. This section is read-only for clinician documentation.'}
-                            </p>
-                          </div>
-                        </div>
+                        <ClinicianReviewPanel
+                          caseId={selectedCase.id}
+                          review={selectedCase}
+                          reviewerName={getReviewerName(selectedCase.reviewed_by)}
+                        />
                       </TabsContent>
 
                       <TabsContent value="intake" className="space-y-4">
@@ -215,6 +219,30 @@ export default function PatientCases() {
                                 ))}
                               </div>
                             </div>
+                            <div className="grid gap-4 sm:grid-cols-2">
+                              <div>
+                                <h4 className="text-sm font-medium text-foreground">Duration</h4>
+                                <p className="text-muted-foreground">
+                                  {selectedCase.intake.symptom_duration?.replace(/-/g, ' ') || 'Not specified'}
+                                </p>
+                              </div>
+                              <div>
+                                <h4 className="text-sm font-medium text-foreground">Pre-existing Conditions</h4>
+                                <p className="text-muted-foreground">
+                                  {selectedCase.intake.existing_conditions?.length
+                                    ? selectedCase.intake.existing_conditions.join(', ')
+                                    : 'None reported'}
+                                </p>
+                              </div>
+                            </div>
+                            {selectedCase.intake.additional_notes && (
+                              <div>
+                                <h4 className="text-sm font-medium text-foreground mb-2">Additional Notes</h4>
+                                <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                                  {selectedCase.intake.additional_notes}
+                                </p>
+                              </div>
+                            )}
                           </>
                         ) : (
                           <p className="text-muted-foreground">No intake data available</p>
@@ -222,7 +250,7 @@ export default function PatientCases() {
                       </TabsContent>
 
                       <TabsContent value="chat" className="space-y-3">
-                        {selectedCase.chat?.messages ? (
+                        {Array.isArray(selectedCase.chat?.messages) ? (
                           selectedCase.chat.messages.map((msg, idx) => (
                             <div
                               key={idx}
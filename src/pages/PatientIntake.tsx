@@ -9,7 +9,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Checkbox } from '@/components/ui/checkbox';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
+import { useSubmitIntake } from '@/data/hooks/patientRecords';
+import { useRetentionPolicies } from '@/data/hooks/retentionPolicies';
+import { describeRetention } from '@/lib/retention';
 import { Loader2, CheckCircle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 
@@ -27,8 +29,10 @@ export default function PatientIntake() {
   const { user } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
-  const [isLoading, setIsLoading] = useState(false);
+  const submitIntake = useSubmitIntake();
+  const { data: retentionPolicies } = useRetentionPolicies();
   const [isSubmitted, setIsSubmitted] = useState(false);
+  const intakeRetention = retentionPolicies?.find(p => p.table_name === 'patient_intake');
 
   const [formData, setFormData] = useState({
     age: '',
@@ -57,59 +61,33 @@ export default function PatientIntake() {
     }));
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) return;
 
-    setIsLoading(true);
-
-    try {
-      const { error } = await supabase.from('patient_intake').insert({
-        user_id: user.id,
+    submitIntake.mutate(
+      {
         age: parseInt(formData.age) || null,
         gender: formData.gender || null,
         symptoms: formData.symptoms,
         symptom_duration: formData.symptomDuration || null,
         existing_conditions: formData.existingConditions.filter(c => c !== 'None'),
         additional_notes: formData.additionalNotes || null,
-      });
-
-      if (error) throw error;
-
-      // Create a mock triage result
-      await supabase.from('triage_results').insert({
-        user_id: user.id,
-        urgency: formData.symptoms.some(s => 
-          ['Chest pain', 'Shortness of breath'].includes(s)
-        ) ? 'high' : formData.symptoms.length > 3 ? 'medium' : 'low',
-        recommended_action: formData.symptoms.some(s => 
-          ['Chest pain', 'Shortness of breath'].includes(s)
-        ) 
-          ? 'Seek immediate medical attention or call emergency services.'
-          : formData.symptoms.length > 3 
-            ? 'Schedule an appointment with your healthcare provider within 24-48 hours.'
-            : 'Monitor symptoms and rest. Seek care if symptoms worsen.',
-      });
-
-      setIsSubmitted(true);
-      toast({
-        title: 'Intake submitted successfully',
-        description: 'Your information has been recorded and processed.',
-      });
-
-      setTimeout(() => {
-        navigate('/results');
-      }, 2000);
-    } catch (error) {
-      console.error('Error submitting intake:', error);
-      toast({
-        title: 'Error',
-        description: 'Failed to submit intake. Please try again.',
-        variant: 'destructive',
-      });
-    } finally {
-      setIsLoading(false);
-    }
+      },
+      {
+        onSuccess: () => {
+          setIsSubmitted(true);
+          toast({
+            title: 'Intake submitted successfully',
+            description: 'Your information has been recorded and processed.',
+          });
+
+          setTimeout(() => {
+            navigate('/results');
+          }, 2000);
+        },
+      }
+    );
   };
 
   if (isSubmitted) {
@@ -250,8 +228,8 @@ export default function PatientIntake() {
                 />
               </div>
 
-              <Button type="submit" className="w-full" disabled={isLoading}>
-                {isLoading ? (
+              <Button type="submit" className="w-full" disabled={submitIntake.isPending}>
+                {submitIntake.isPending ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                     Submitting...
@@ -262,8 +240,9 @@ export default function PatientIntake() {
               </Button>
 
               <p className="text-xs text-muted-foreground text-center">
-                ⚕️ This information will be used to assess your symptoms. It is not stored permanently
-                and is not a substitute for professional medical evaluation.
+                ⚕️ This information will be used to assess your symptoms and is not a substitute for
+                professional medical evaluation.
+                {intakeRetention && ` Intake forms are ${describeRetention(intakeRetention.retention_days)}.`}
               </p>
             </CardContent>
           </Card>
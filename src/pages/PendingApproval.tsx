@@ -0,0 +1,64 @@
+import { Navigate, useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Clock, Loader2, LogOut } from 'lucide-react';
+
+export default function PendingApproval() {
+  const navigate = useNavigate();
+  const { user, userRole, roleStatus, loading, signOut } = useAuth();
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  if (!userRole || roleStatus === 'approved') {
+    return <Navigate to="/" replace />;
+  }
+
+  const isRevoked = roleStatus === 'revoked';
+
+  const handleSignOut = async () => {
+    await signOut();
+    navigate('/auth');
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md border-border shadow-healthcare">
+        <CardHeader className="items-center text-center">
+          <div className="mb-2 flex h-16 w-16 items-center justify-center rounded-full bg-urgency-medium-bg">
+            <Clock className="h-8 w-8 text-urgency-medium" />
+          </div>
+          <CardTitle className="font-display">
+            {isRevoked ? 'Account Deactivated' : 'Awaiting Approval'}
+          </CardTitle>
+          <CardDescription>
+            {isRevoked
+              ? `Access for ${user.email} has been deactivated.`
+              : `Your healthcare staff account for ${user.email} has been created.`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground text-center">
+            {isRevoked
+              ? 'Please contact an administrator if you believe this is a mistake.'
+              : 'An administrator needs to verify your account before you can access patient data. You will be able to sign in to the staff portal once your access is approved.'}
+          </p>
+          <Button variant="outline" className="w-full" onClick={handleSignOut}>
+            <LogOut className="mr-2 h-4 w-4" />
+            Sign Out
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
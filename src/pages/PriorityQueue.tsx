@@ -1,23 +1,41 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { supabase } from '@/integrations/supabase/client';
-import { Loader2, Search, Clock, AlertCircle, AlertTriangle, CheckCircle, RefreshCw } from 'lucide-react';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ClaimControls } from '@/components/queue/ClaimControls';
+import { CursorPagination } from '@/components/lists/CursorPagination';
+import { ListFilters } from '@/components/lists/ListFilters';
+import { useAuth } from '@/contexts/AuthContext';
+import { TriageFilters, matchesTriageFilters } from '@/data/triageResults';
+import { PAGE_SIZE } from '@/data/pagination';
+import { DEFAULT_QUEUE_SETTINGS } from '@/data/queueSettings';
+import { useQueueSettings } from '@/data/hooks/queueSettings';
+import { useStaffMembers } from '@/data/hooks/profiles';
+import {
+  useClaimCase,
+  useQueue,
+  useQueueCounts,
+  useReassignCase,
+  useReleaseCase,
+  useUpdateQueueStatus,
+} from '@/data/hooks/triageResults';
+import { computePriorityScore } from '@/lib/priorityScore';
+import { ALL, unlessAll } from '@/lib/listFilters';
+import { useListFilters } from '@/hooks/use-list-filters';
+import { usePreferences } from '@/hooks/use-preferences';
+import type { QueueFilterPreferences } from '@/lib/preferences';
+import {
+  ACTIVE_QUEUE_STATUSES,
+  QUEUE_STATUS_LABELS,
+  QUEUE_TRANSITIONS,
+  QueueStatus,
+  QueueView,
+  TRANSITION_ACTIONS,
+} from '@/lib/queueStatus';
+import { Loader2, Clock, AlertCircle, AlertTriangle, CheckCircle, RefreshCw, AlarmClock } from 'lucide-react';
 import { cn } from '@/lib/utils';
-
-interface QueueItem {
-  id: string;
-  user_id: string;
-  urgency: 'low' | 'medium' | 'high';
-  recommended_action: string | null;
-  created_at: string;
-  profile?: {
-    full_name: string | null;
-    email: string | null;
-  };
-}
+import { formatTime } from '@/lib/dates';
 
 const urgencyConfig = {
   high: { icon: AlertCircle, label: 'High', order: 0 },
@@ -25,68 +43,96 @@ const urgencyConfig = {
   low: { icon: CheckCircle, label: 'Low', order: 2 },
 };
 
-export default function PriorityQueue() {
-  const [queue, setQueue] = useState<QueueItem[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [searchTerm, setSearchTerm] = useState('');
-
-  const fetchQueue = async () => {
-    setIsLoading(true);
-    const { data, error } = await supabase
-      .from('triage_results')
-      .select('*')
-      .order('created_at', { ascending: false });
-
-    if (error) {
-      console.error('Error fetching queue:', error);
-    } else if (data) {
-      // Sort by urgency (high first) then by timestamp
-      const sortedData = [...data].sort((a, b) => {
-        const urgencyOrder = { high: 0, medium: 1, low: 2 };
-        const urgencyDiff = urgencyOrder[a.urgency as keyof typeof urgencyOrder] - urgencyOrder[b.urgency as keyof typeof urgencyOrder];
-        if (urgencyDiff !== 0) return urgencyDiff;
-        return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
-      });
-      setQueue(sortedData as unknown as QueueItem[]);
-    }
-    setIsLoading(false);
-  };
+const queueViews: { value: QueueView; label: string }[] = [
+  { value: 'active', label: 'Active' },
+  ...(Object.keys(QUEUE_STATUS_LABELS) as QueueStatus[]).map(status => ({
+    value: status,
+    label: QUEUE_STATUS_LABELS[status],
+  })),
+];
 
-  useEffect(() => {
-    fetchQueue();
-
-    // Subscribe to realtime updates
-    const channel = supabase
-      .channel('queue-changes')
-      .on(
-        'postgres_changes',
-        { event: '*', schema: 'public', table: 'triage_results' },
-        () => {
-          fetchQueue();
-        }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, []);
+const getViewStatuses = (view: QueueView): QueueStatus[] =>
+  view === 'active' ? ACTIVE_QUEUE_STATUSES : [view];
 
-  const filteredQueue = queue.filter((item) => {
-    if (!searchTerm) return true;
-    const search = searchTerm.toLowerCase();
+export default function PriorityQueue() {
+  const { preferences, isLoading } = usePreferences();
+
+  // The queue opens on the user's default filters, so wait for them
+  if (isLoading) {
     return (
-      item.profile?.full_name?.toLowerCase().includes(search) ||
-      item.profile?.email?.toLowerCase().includes(search) ||
-      item.urgency.includes(search)
+      <AppLayout>
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </AppLayout>
     );
+  }
+
+  return <QueueBoard defaults={preferences.queue_filters} />;
+}
+
+function QueueBoard({ defaults }: { defaults: QueueFilterPreferences }) {
+  const { user } = useAuth();
+  const [busyItemId, setBusyItemId] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [view, setView] = useState<QueueView>(defaults.view);
+  const { values, search, update, pagination } = useListFilters({
+    urgency: defaults.urgency,
+    assignedTo: defaults.assigned_to === 'mine' ? user?.id ?? ALL : defaults.assigned_to,
   });
 
-  const stats = {
-    total: queue.length,
-    high: queue.filter(q => q.urgency === 'high').length,
-    medium: queue.filter(q => q.urgency === 'medium').length,
-    low: queue.filter(q => q.urgency === 'low').length,
+  const filters = useMemo<TriageFilters>(() => ({
+    statuses: getViewStatuses(view),
+    urgency: unlessAll(values.urgency),
+    assignedTo: unlessAll(values.assignedTo),
+    from: values.from || undefined,
+    to: values.to || undefined,
+    search: search || undefined,
+  }), [view, values.urgency, values.assignedTo, values.from, values.to, search]);
+
+  // The totals show every urgency, whichever one the list is narrowed to
+  const countFilters = useMemo(() => ({ ...filters, urgency: undefined }), [filters]);
+
+  const { items: queue, nextCursor, isLoading, isFetching, refresh: fetchQueue } = useQueue(filters, pagination.cursor);
+  const { data: stats = { total: 0, high: 0, medium: 0, low: 0 } } = useQueueCounts(countFilters);
+  const { data: staff = [] } = useStaffMembers();
+  const { data: settings = DEFAULT_QUEUE_SETTINGS } = useQueueSettings();
+  const updateStatus = useUpdateQueueStatus();
+  const claim = useClaimCase();
+  const release = useReleaseCase();
+  const reassign = useReassignCase();
+
+  useEffect(() => {
+    // Claims expire and scores grow without a database change, so re-render periodically
+    const timer = window.setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  // The mutations patch the cached queue; other clients pick it up from queue-changes
+  const runQueueAction = async (itemId: string, action: () => Promise<unknown>) => {
+    setBusyItemId(itemId);
+    try {
+      await action();
+      setNow(Date.now());
+    } catch {
+      // Reported by the mutation cache
+    } finally {
+      setBusyItemId(null);
+    }
+  };
+
+  // The server ranks the queue; wait times tick here between refreshes
+  const prioritizedQueue = useMemo(
+    () => queue.map(item => ({ ...item, priority: computePriorityScore(item, settings, now) })),
+    [queue, settings, now]
+  );
+
+  // Mutations patch the cached page, so a row may stop matching before the refetch
+  const filteredQueue = prioritizedQueue.filter(item => matchesTriageFilters(item, filters));
+
+  const changeView = (next: QueueView) => {
+    setView(next);
+    pagination.reset();
   };
 
   return (
@@ -96,11 +142,11 @@ export default function PriorityQueue() {
           <div>
             <h1 className="text-2xl font-bold text-foreground font-display">Priority Queue</h1>
             <p className="text-muted-foreground">
-              Real-time patient triage queue sorted by urgency.
+              Real-time patient triage queue sorted by priority score.
             </p>
           </div>
-          <Button variant="outline" onClick={fetchQueue} disabled={isLoading}>
-            <RefreshCw className={cn('mr-2 h-4 w-4', isLoading && 'animate-spin')} />
+          <Button variant="outline" onClick={() => fetchQueue()} disabled={isFetching}>
+            <RefreshCw className={cn('mr-2 h-4 w-4', isFetching && 'animate-spin')} />
             Refresh
           </Button>
         </div>
@@ -133,14 +179,26 @@ export default function PriorityQueue() {
           </Card>
         </div>
 
-        {/* Search */}
-        <div className="mb-4 relative">
-          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-          <Input
-            placeholder="Search patients..."
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-            className="pl-10"
+        {/* Status Views */}
+        <Tabs value={view} onValueChange={(value) => changeView(value as QueueView)} className="mb-4">
+          <TabsList className="flex-wrap h-auto">
+            {queueViews.map(option => (
+              <TabsTrigger key={option.value} value={option.value}>
+                {option.label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        {/* Filters */}
+        <div className="mb-4">
+          <ListFilters
+            values={values}
+            onChange={update}
+            searchPlaceholder="Search patients..."
+            showUrgency
+            staff={staff}
+            currentUserId={user?.id}
           />
         </div>
 
@@ -160,47 +218,104 @@ export default function PriorityQueue() {
           <div className="space-y-3">
             {filteredQueue.map((item, index) => {
               const Icon = urgencyConfig[item.urgency].icon;
+              const isClosed = !ACTIVE_QUEUE_STATUSES.includes(item.queue_status);
+              const { priority } = item;
               return (
                 <Card
                   key={item.id}
                   className={cn(
                     'border-border shadow-healthcare transition-all hover:shadow-lg cursor-pointer',
-                    item.urgency === 'high' && 'border-l-4 border-l-urgency-high'
+                    item.urgency === 'high' && 'border-l-4 border-l-urgency-high',
+                    priority.isBreached && !isClosed && 'ring-2 ring-urgency-high/40'
                   )}
                 >
-                  <CardContent className="flex items-center gap-4 py-4">
-                    <div className="flex h-8 w-8 items-center justify-center rounded-full bg-muted text-muted-foreground font-medium">
-                      {index + 1}
-                    </div>
-                    <div className={cn(
-                      'flex h-10 w-10 items-center justify-center rounded-full',
-                      `urgency-badge-${item.urgency}`.replace('urgency-badge', 'bg')
-                    )}>
-                      <Icon className={cn(
-                        'h-5 w-5',
-                        item.urgency === 'high' && 'text-urgency-high',
-                        item.urgency === 'medium' && 'text-urgency-medium',
-                        item.urgency === 'low' && 'text-urgency-low'
-                      )} />
-                    </div>
-                    <div className="flex-1 min-w-0">
-                      <p className="font-medium text-foreground truncate">
-                        {item.profile?.full_name || item.profile?.email || 'Anonymous Patient'}
-                      </p>
-                      <p className="text-sm text-muted-foreground truncate">
-                        {item.recommended_action || 'Awaiting assessment'}
-                      </p>
-                    </div>
-                    <div className="text-right">
-                      <span className={cn(
-                        'inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium',
-                        `urgency-badge-${item.urgency}`
+                  <CardContent className="space-y-3 py-4">
+                    <div className="flex items-center gap-4">
+                      <div className="flex h-8 w-8 items-center justify-center rounded-full bg-muted text-muted-foreground font-medium">
+                        {(pagination.page - 1) * PAGE_SIZE + index + 1}
+                      </div>
+                      <div className={cn(
+                        'flex h-10 w-10 items-center justify-center rounded-full',
+                        `urgency-badge-${item.urgency}`.replace('urgency-badge', 'bg')
                       )}>
-                        {urgencyConfig[item.urgency].label}
+                        <Icon className={cn(
+                          'h-5 w-5',
+                          item.urgency === 'high' && 'text-urgency-high',
+                          item.urgency === 'medium' && 'text-urgency-medium',
+                          item.urgency === 'low' && 'text-urgency-low'
+                        )} />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium text-foreground truncate">
+                          {item.profile?.full_name || item.profile?.email || 'Anonymous Patient'}
+                        </p>
+                        <p className="text-sm text-muted-foreground truncate">
+                          {item.recommended_action || 'Awaiting assessment'}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <span className={cn(
+                          'inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium',
+                          `urgency-badge-${item.urgency}`
+                        )}>
+                          {urgencyConfig[item.urgency].label}
+                        </span>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {formatTime(item.created_at)}
+                        </p>
+                      </div>
+                    </div>
+                    <div
+                      className="flex flex-wrap items-center gap-2 border-t border-border pt-3"
+                      onClick={(e) => e.stopPropagation()}
+                    >
+                      <span className="inline-flex items-center rounded-full bg-secondary px-2.5 py-0.5 text-xs font-medium text-secondary-foreground">
+                        {QUEUE_STATUS_LABELS[item.queue_status]}
+                      </span>
+                      <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                        <Clock className="h-3.5 w-3.5" />
+                        Waited {priority.waitMinutes} of {priority.targetMinutes} min
                       </span>
-                      <p className="text-xs text-muted-foreground mt-1">
-                        {new Date(item.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                      </p>
+                      {priority.isBreached && (
+                        <span className="inline-flex items-center gap-1 rounded-full bg-urgency-high-bg px-2.5 py-0.5 text-xs font-medium text-urgency-high">
+                          <AlarmClock className="h-3.5 w-3.5" />
+                          Over target by {priority.waitMinutes - priority.targetMinutes} min
+                        </span>
+                      )}
+                      <span className="text-xs text-muted-foreground" title="Priority score">
+                        Score {item.priority_score ?? priority.score}
+                      </span>
+                      <div className="ml-auto flex flex-wrap items-center gap-2">
+                        {QUEUE_TRANSITIONS[item.queue_status].map(next => (
+                          <Button
+                            key={next}
+                            size="sm"
+                            variant={next === 'left_without_being_seen' ? 'ghost' : 'secondary'}
+                            disabled={busyItemId === item.id}
+                            onClick={() => runQueueAction(
+                              item.id,
+                              () => updateStatus.mutateAsync({ id: item.id, status: next })
+                            )}
+                          >
+                            {TRANSITION_ACTIONS[next]}
+                          </Button>
+                        ))}
+                        {!isClosed && (
+                          <ClaimControls
+                            claim={item}
+                            currentUserId={user?.id}
+                            staff={staff}
+                            expiryMinutes={settings.claim_expiry_minutes}
+                            now={now}
+                            isBusy={busyItemId === item.id}
+                            onClaim={() => runQueueAction(item.id, () => claim.mutateAsync(item.id))}
+                            onRelease={() => runQueueAction(item.id, () => release.mutateAsync(item.id))}
+                            onReassign={(assigneeId) =>
+                              runQueueAction(item.id, () => reassign.mutateAsync({ id: item.id, assigneeId }))
+                            }
+                          />
+                        )}
+                      </div>
                     </div>
                   </CardContent>
                 </Card>
@@ -208,6 +323,15 @@ export default function PriorityQueue() {
             })}
           </div>
         )}
+
+        <CursorPagination
+          className="mt-6"
+          page={pagination.page}
+          hasNext={!!nextCursor}
+          isFetching={isFetching}
+          onPrevious={pagination.previous}
+          onNext={() => nextCursor && pagination.next(nextCursor)}
+        />
       </div>
     </AppLayout>
   );
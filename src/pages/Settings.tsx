@@ -1,79 +1,43 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Switch } from '@/components/ui/switch';
-import { Separator } from '@/components/ui/separator';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, User, Shield, Bell, Trash2 } from 'lucide-react';
+import { DataExportMenu } from '@/components/export/DataExportMenu';
+import { DeleteAccountSection } from '@/components/settings/DeleteAccountSection';
+import { NotificationSettingsCard } from '@/components/settings/NotificationSettingsCard';
+import { PreferencesCard } from '@/components/settings/PreferencesCard';
+import { QueueSettingsCard } from '@/components/settings/QueueSettingsCard';
+import { RetentionSettingsCard } from '@/components/settings/RetentionSettingsCard';
+import { useProfile, useUpdateProfile } from '@/data/hooks/profiles';
+import { Loader2, User, Shield } from 'lucide-react';
 
 export default function Settings() {
   const { user, userRole } = useAuth();
   const { toast } = useToast();
-  const [isLoading, setIsLoading] = useState(false);
   const [fullName, setFullName] = useState('');
-  const [dataRetention, setDataRetention] = useState(true);
-  const [notifications, setNotifications] = useState(true);
+  const { data: profile } = useProfile(user?.id);
+  const updateProfile = useUpdateProfile(user?.id);
+  const isLoading = updateProfile.isPending;
 
-  const handleUpdateProfile = async () => {
-    if (!user) return;
-    setIsLoading(true);
-
-    const { error } = await supabase
-      .from('profiles')
-      .update({ full_name: fullName })
-      .eq('user_id', user.id);
-
-    if (error) {
-      toast({
-        title: 'Error',
-        description: 'Failed to update profile.',
-        variant: 'destructive',
-      });
-    } else {
-      toast({
-        title: 'Profile updated',
-        description: 'Your profile has been updated successfully.',
-      });
-    }
-    setIsLoading(false);
-  };
+  useEffect(() => {
+    if (profile?.full_name) setFullName(profile.full_name);
+  }, [profile?.full_name]);
 
-  const handleDeleteData = async () => {
+  const handleUpdateProfile = () => {
     if (!user) return;
-    
-    const confirmed = window.confirm(
-      'Are you sure you want to delete all your health data? This action cannot be undone.'
-    );
-    
-    if (!confirmed) return;
-
-    setIsLoading(true);
-
-    try {
-      await Promise.all([
-        supabase.from('chat_sessions').delete().eq('user_id', user.id),
-        supabase.from('patient_intake').delete().eq('user_id', user.id),
-        supabase.from('triage_results').delete().eq('user_id', user.id),
-        supabase.from('alerts').delete().eq('user_id', user.id),
-      ]);
 
-      toast({
-        title: 'Data deleted',
-        description: 'All your health data has been removed.',
-      });
-    } catch (error) {
-      toast({
-        title: 'Error',
-        description: 'Failed to delete data.',
-        variant: 'destructive',
-      });
-    }
-    setIsLoading(false);
+    updateProfile.mutate(fullName, {
+      onSuccess: () => {
+        toast({
+          title: 'Profile updated',
+          description: 'Your profile has been updated successfully.',
+        });
+      },
+    });
   };
 
   return (
@@ -138,45 +102,13 @@ export default function Settings() {
             </CardContent>
           </Card>
 
-          {/* Preferences Section */}
-          <Card className="border-border shadow-healthcare">
-            <CardHeader>
-              <div className="flex items-center gap-2">
-                <Bell className="h-5 w-5 text-primary" />
-                <CardTitle className="font-display">Preferences</CardTitle>
-              </div>
-              <CardDescription>Configure your notification and data settings.</CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-6">
-              <div className="flex items-center justify-between">
-                <div className="space-y-0.5">
-                  <Label htmlFor="notifications">Notifications</Label>
-                  <p className="text-sm text-muted-foreground">
-                    Receive alerts about your triage results
-                  </p>
-                </div>
-                <Switch
-                  id="notifications"
-                  checked={notifications}
-                  onCheckedChange={setNotifications}
-                />
-              </div>
-              <Separator />
-              <div className="flex items-center justify-between">
-                <div className="space-y-0.5">
-                  <Label htmlFor="retention">Session-Based Data</Label>
-                  <p className="text-sm text-muted-foreground">
-                    Keep data only for the current session
-                  </p>
-                </div>
-                <Switch
-                  id="retention"
-                  checked={dataRetention}
-                  onCheckedChange={setDataRetention}
-                />
-              </div>
-            </CardContent>
-          </Card>
+          {userRole === 'admin' && <QueueSettingsCard />}
+
+          {userRole === 'admin' && <RetentionSettingsCard />}
+
+          {userRole === 'healthcare_staff' && <NotificationSettingsCard />}
+
+          <PreferencesCard />
 
           {/* Privacy Section */}
           <Card className="border-border shadow-healthcare">
@@ -197,33 +129,20 @@ export default function Settings() {
                 </p>
               </div>
 
-              <div className="rounded-lg border border-destructive/20 bg-destructive/5 p-4">
-                <div className="flex items-start gap-3">
-                  <Trash2 className="h-5 w-5 text-destructive mt-0.5" />
-                  <div className="flex-1">
-                    <h4 className="font-medium text-destructive mb-1">Delete All Health Data</h4>
-                    <p className="text-sm text-muted-foreground mb-3">
-                      This will permanently delete all your chat sessions, intake forms, and
-                      triage results. This action cannot be undone.
+              {userRole === 'patient' && (
+                <div className="flex flex-col gap-3 rounded-lg border border-border p-4 sm:flex-row sm:items-center sm:justify-between">
+                  <div>
+                    <h4 className="font-medium text-foreground mb-1">Export Your Data</h4>
+                    <p className="text-sm text-muted-foreground">
+                      Your profile, intake forms, conversations and triage results, as a PDF report
+                      or a JSON archive.
                     </p>
-                    <Button
-                      variant="destructive"
-                      size="sm"
-                      onClick={handleDeleteData}
-                      disabled={isLoading}
-                    >
-                      {isLoading ? (
-                        <>
-                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                          Deleting...
-                        </>
-                      ) : (
-                        'Delete My Data'
-                      )}
-                    </Button>
                   </div>
+                  <DataExportMenu size="sm" />
                 </div>
-              </div>
+              )}
+
+              <DeleteAccountSection />
             </CardContent>
           </Card>
 
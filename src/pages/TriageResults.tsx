@@ -1,17 +1,10 @@
-import { useEffect, useState } from 'react';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
+import { useTriageResultsForUser } from '@/data/hooks/triageResults';
 import { Loader2, AlertCircle, CheckCircle, AlertTriangle, Clock } from 'lucide-react';
 import { cn } from '@/lib/utils';
-
-interface TriageResult {
-  id: string;
-  urgency: 'low' | 'medium' | 'high';
-  recommended_action: string | null;
-  created_at: string;
-}
+import { formatDate, formatTime } from '@/lib/dates';
 
 const urgencyConfig = {
   low: {
@@ -39,29 +32,7 @@ const urgencyConfig = {
 
 export default function TriageResults() {
   const { user } = useAuth();
-  const [results, setResults] = useState<TriageResult[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-
-  useEffect(() => {
-    if (!user) return;
-
-    const fetchResults = async () => {
-      const { data, error } = await supabase
-        .from('triage_results')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        console.error('Error fetching results:', error);
-      } else {
-        setResults(data as TriageResult[]);
-      }
-      setIsLoading(false);
-    };
-
-    fetchResults();
-  }, [user]);
+  const { data: results = [], isLoading } = useTriageResultsForUser(user?.id);
 
   const latestResult = results[0];
 
@@ -128,8 +99,8 @@ export default function TriageResults() {
                   <div className="flex items-center gap-2 text-sm text-muted-foreground">
                     <Clock className="h-4 w-4" />
                     <span>
-                      Assessed on {new Date(latestResult.created_at).toLocaleDateString()} at{' '}
-                      {new Date(latestResult.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                      Assessed on {formatDate(latestResult.created_at)} at{' '}
+                      {formatTime(latestResult.created_at)}
                     </span>
                   </div>
                 </CardContent>
@@ -157,7 +128,7 @@ export default function TriageResults() {
                               {urgencyConfig[result.urgency].label}
                             </p>
                             <p className="text-sm text-muted-foreground">
-                              {new Date(result.created_at).toLocaleDateString()}
+                              {formatDate(result.created_at)}
                             </p>
                           </div>
                         </CardContent>
@@ -1,7 +1,7 @@
-import { useEffect, useState } from 'react';
+import { useMemo } from 'react';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { supabase } from '@/integrations/supabase/client';
+import { useWorkloadStats } from '@/data/hooks/triageResults';
 import { Loader2, Users, Clock, TrendingUp, Activity } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
 
@@ -19,81 +19,34 @@ const URGENCY_COLORS = {
 };
 
 export default function WorkloadAnalytics() {
-  const [stats, setStats] = useState<Stats>({
-    totalToday: 0,
-    totalWeek: 0,
-    highPriority: 0,
-    avgResponseTime: 0,
-  });
-  const [urgencyData, setUrgencyData] = useState<Array<{ name: string; value: number; color: string }>>([]);
-  const [dailyData, setDailyData] = useState<Array<{ day: string; patients: number }>>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const { data: workload, isLoading } = useWorkloadStats();
 
-  useEffect(() => {
-    const fetchAnalytics = async () => {
-      const now = new Date();
-      const todayStart = new Date(now.setHours(0, 0, 0, 0)).toISOString();
-      const weekStart = new Date(now.setDate(now.getDate() - 7)).toISOString();
+  const { stats, urgencyData, dailyData } = useMemo(() => {
+    const counts = workload?.urgency ?? { total: 0, high: 0, medium: 0, low: 0 };
 
-      // Fetch all triage results
-      const { data: allResults } = await supabase
-        .from('triage_results')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (allResults) {
-        // Calculate stats
-        const today = allResults.filter(r => new Date(r.created_at) >= new Date(todayStart));
-        const week = allResults.filter(r => new Date(r.created_at) >= new Date(weekStart));
-        const high = allResults.filter(r => r.urgency === 'high');
-
-        setStats({
-          totalToday: today.length,
-          totalWeek: week.length,
-          highPriority: high.length,
-          avgResponseTime: Math.round(Math.random() * 10 + 5), // Mock data
-        });
-
-        // Urgency distribution
-        const low = allResults.filter(r => r.urgency === 'low').length;
-        const medium = allResults.filter(r => r.urgency === 'medium').length;
-        const highCount = allResults.filter(r => r.urgency === 'high').length;
-
-        setUrgencyData([
-          { name: 'Low', value: low, color: URGENCY_COLORS.low },
-          { name: 'Medium', value: medium, color: URGENCY_COLORS.medium },
-          { name: 'High', value: highCount, color: URGENCY_COLORS.high },
-        ]);
-
-        // Daily breakdown (last 7 days)
-        const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-        const dailyStats: { [key: string]: number } = {};
-        
-        for (let i = 6; i >= 0; i--) {
-          const date = new Date();
-          date.setDate(date.getDate() - i);
-          const dayName = days[date.getDay()];
-          dailyStats[dayName] = 0;
-        }
-
-        allResults.forEach(result => {
-          const date = new Date(result.created_at);
-          const dayName = days[date.getDay()];
-          if (dailyStats[dayName] !== undefined) {
-            dailyStats[dayName]++;
-          }
-        });
-
-        setDailyData(
-          Object.entries(dailyStats).map(([day, patients]) => ({ day, patients }))
-        );
-      }
-
-      setIsLoading(false);
+    const stats: Stats = {
+      totalToday: workload?.today ?? 0,
+      totalWeek: workload?.week ?? 0,
+      highPriority: counts.high,
+      avgResponseTime: Math.round(Math.random() * 10 + 5), // Mock data
     };
 
-    fetchAnalytics();
-  }, []);
+    // Urgency distribution
+    const urgencyData = [
+      { name: 'Low', value: counts.low, color: URGENCY_COLORS.low },
+      { name: 'Medium', value: counts.medium, color: URGENCY_COLORS.medium },
+      { name: 'High', value: counts.high, color: URGENCY_COLORS.high },
+    ];
+
+    // Daily breakdown (last 7 days)
+    const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+    const dailyData = (workload?.daily ?? []).map(({ date, count }) => ({
+      day: days[new Date(date).getDay()],
+      patients: count,
+    }));
+
+    return { stats, urgencyData, dailyData };
+  }, [workload]);
 
   if (isLoading) {
     return (
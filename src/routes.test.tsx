@@ -0,0 +1,146 @@
+import { ReactElement } from 'react';
+import { render, screen } from '@testing-library/react';
+import { MemoryRouter, Route, Routes, useLocation } from 'react-router-dom';
+import type { User } from '@supabase/supabase-js';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { RequireRole } from '@/components/auth/RequireRole';
+import { useAuth } from '@/contexts/AuthContext';
+import { AppRole, ROLE_LABELS, RoleStatus } from '@/lib/roles';
+import Auth from './pages/Auth';
+import { GUARDED_ROUTES, GuardedRoute } from './routes';
+
+const { stubPage } = vi.hoisted(() => ({
+  stubPage: (name: string) => ({ default: () => `${name} page` }),
+}));
+
+// The guard is under test, not the pages, so each page renders its name
+vi.mock('./pages/ChatbotTriage', () => stubPage('ChatbotTriage'));
+vi.mock('./pages/PatientIntake', () => stubPage('PatientIntake'));
+vi.mock('./pages/TriageResults', () => stubPage('TriageResults'));
+vi.mock('./pages/CaseSummary', () => stubPage('CaseSummary'));
+vi.mock('./pages/PriorityQueue', () => stubPage('PriorityQueue'));
+vi.mock('./pages/PatientCases', () => stubPage('PatientCases'));
+vi.mock('./pages/AlertsFlags', () => stubPage('AlertsFlags'));
+vi.mock('./pages/WorkloadAnalytics', () => stubPage('WorkloadAnalytics'));
+vi.mock('./pages/Settings', () => stubPage('Settings'));
+vi.mock('./pages/AdminUsers', () => stubPage('AdminUsers'));
+vi.mock('@/contexts/AuthContext', () => ({ useAuth: vi.fn() }));
+
+const ROLES = Object.keys(ROLE_LABELS) as AppRole[];
+
+function CurrentLocation() {
+  const location = useLocation();
+  return <p>Redirected to {`${location.pathname}${location.search}`}</p>;
+}
+
+interface SignedInAs {
+  role: AppRole | null;
+  status?: RoleStatus;
+}
+
+function signIn(signedInAs: SignedInAs | null) {
+  vi.mocked(useAuth).mockReturnValue({
+    user: signedInAs ? ({ id: 'user-1' } as User) : null,
+    session: null,
+    userRole: signedInAs?.role ?? null,
+    roleStatus: signedInAs?.role ? signedInAs.status ?? 'approved' : null,
+    loading: false,
+    signIn: vi.fn(),
+    signUp: vi.fn(),
+    signOut: vi.fn(),
+  });
+}
+
+function renderRoute(route: GuardedRoute, signedInAs: SignedInAs | null) {
+  signIn(signedInAs);
+
+  render(
+    <MemoryRouter initialEntries={[route.path]}>
+      <Routes>
+        <Route path={route.path} element={<RequireRole roles={route.roles}>{route.element}</RequireRole>} />
+        <Route path="/auth" element={<CurrentLocation />} />
+        <Route path="/pending-approval" element={<CurrentLocation />} />
+      </Routes>
+    </MemoryRouter>
+  );
+}
+
+// What the route's stubbed page renders
+const pageText = (route: GuardedRoute) => ((route.element as ReactElement).type as () => string)();
+
+describe.each(GUARDED_ROUTES)('$path', (route) => {
+  const otherRoles = ROLES.filter(role => !route.roles.includes(role));
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('sends signed-out visitors to sign in, then back here', () => {
+    renderRoute(route, null);
+
+    expect(screen.getByText(`Redirected to /auth?redirect=${encodeURIComponent(route.path)}`)).toBeInTheDocument();
+  });
+
+  it.each([...otherRoles, null])('shows 403 to a signed-in user with role %s', (role) => {
+    renderRoute(route, { role });
+
+    expect(screen.getByRole('heading', { name: '403' })).toBeInTheDocument();
+    expect(screen.queryByText(pageText(route))).not.toBeInTheDocument();
+  });
+
+  it.each(['pending', 'revoked'] as RoleStatus[])('sends %s staff to the approval page', (status) => {
+    renderRoute(route, { role: 'healthcare_staff', status });
+
+    expect(screen.getByText('Redirected to /pending-approval')).toBeInTheDocument();
+  });
+
+  it.each(route.roles)('renders the page for an approved %s', (role) => {
+    renderRoute(route, { role });
+
+    expect(screen.getByText(pageText(route))).toBeInTheDocument();
+  });
+});
+
+describe('/auth', () => {
+  function renderSignIn(search: string) {
+    signIn({ role: 'healthcare_staff' });
+
+    render(
+      <MemoryRouter initialEntries={[`/auth${search}`]}>
+        <Routes>
+          <Route path="/auth" element={<Auth />} />
+          <Route path="*" element={<CurrentLocation />} />
+        </Routes>
+      </MemoryRouter>
+    );
+  }
+
+  it('sends a signed-in user back to the page they came from', () => {
+    renderSignIn(`?redirect=${encodeURIComponent('/cases?status=waiting')}`);
+
+    expect(screen.getByText('Redirected to /cases?status=waiting')).toBeInTheDocument();
+  });
+
+  it.each([
+    ['https://evil.example'],
+    ['//evil.example'],
+    ['/\\evil.example'],
+    ['/\t/evil.example'],
+  ])('sends a signed-in user home instead of to %j', (returnTo) => {
+    renderSignIn(`?redirect=${encodeURIComponent(returnTo)}`);
+
+    expect(screen.getByText('Redirected to /queue')).toBeInTheDocument();
+  });
+
+  it('reads an escaped backslash in the redirect as a backslash', () => {
+    renderSignIn('?redirect=/%5Cevil.example');
+
+    expect(screen.getByText('Redirected to /queue')).toBeInTheDocument();
+  });
+
+  it('keeps a redirect whose path holds an escaped backslash in the app', () => {
+    renderSignIn(`?redirect=${encodeURIComponent('/%5Cevil.example')}`);
+
+    expect(screen.getByText('Redirected to /%5Cevil.example')).toBeInTheDocument();
+  });
+});
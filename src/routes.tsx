@@ -0,0 +1,44 @@
+import { ReactNode } from "react";
+import { AppRole } from "@/lib/roles";
+import ChatbotTriage from "./pages/ChatbotTriage";
+import PatientIntake from "./pages/PatientIntake";
+import TriageResults from "./pages/TriageResults";
+import CaseSummary from "./pages/CaseSummary";
+import PriorityQueue from "./pages/PriorityQueue";
+import PatientCases from "./pages/PatientCases";
+import AlertsFlags from "./pages/AlertsFlags";
+import WorkloadAnalytics from "./pages/WorkloadAnalytics";
+import Settings from "./pages/Settings";
+import AdminUsers from "./pages/AdminUsers";
+
+export interface GuardedRoute {
+  path: string;
+  element: ReactNode;
+  roles: AppRole[];
+}
+
+const PATIENT: AppRole[] = ['patient'];
+const STAFF: AppRole[] = ['healthcare_staff'];
+const ADMIN: AppRole[] = ['admin'];
+const ALL_ROLES: AppRole[] = [...PATIENT, ...STAFF, ...ADMIN];
+
+// Every page behind sign-in, with the roles allowed to open it
+export const GUARDED_ROUTES: GuardedRoute[] = [
+  // Patient Routes
+  { path: '/triage', element: <ChatbotTriage />, roles: PATIENT },
+  { path: '/intake', element: <PatientIntake />, roles: PATIENT },
+  { path: '/results', element: <TriageResults />, roles: PATIENT },
+  { path: '/case-summary', element: <CaseSummary />, roles: PATIENT },
+
+  // Healthcare Staff Routes
+  { path: '/queue', element: <PriorityQueue />, roles: STAFF },
+  { path: '/patient-cases', element: <PatientCases />, roles: STAFF },
+  { path: '/alerts', element: <AlertsFlags />, roles: [...STAFF, ...ADMIN] },
+  { path: '/analytics', element: <WorkloadAnalytics />, roles: STAFF },
+
+  // Admin Routes
+  { path: '/admin/users', element: <AdminUsers />, roles: ADMIN },
+
+  // Shared Routes
+  { path: '/settings', element: <Settings />, roles: ALL_ROLES },
+];
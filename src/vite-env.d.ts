@@ -1 +1,5 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_TRIAGE_CONVERSATION_PROVIDER?: 'rules' | 'hosted';
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { TRIAGE_ENGINE_VERSION, TriageInput, evaluateTriage } from './triageEngine.ts';
+
+const triage = (overrides: Partial<TriageInput>) =>
+  evaluateTriage({
+    age: null,
+    gender: null,
+    symptoms: ['Headache'],
+    duration: null,
+    existing_conditions: [],
+    notes: null,
+    ...overrides,
+  });
+
+const factorCodes = (input: Partial<TriageInput>) => triage(input).contributing_factors.map(factor => factor.code);
+
+describe('evaluateTriage', () => {
+  it('rates a single mild symptom low', () => {
+    const decision = triage({});
+
+    expect(decision.urgency_level).toBe('low');
+    expect(decision.contributing_factors).toEqual([]);
+    expect(decision.recommended_action).toBe('Monitor symptoms and rest. Seek care if symptoms worsen.');
+    expect(decision.engine_version).toBe(TRIAGE_ENGINE_VERSION);
+  });
+
+  it.each([['Chest pain'], ['shortness of breath']])('rates the red-flag symptom %s high', (symptom) => {
+    const decision = triage({ symptoms: ['Headache', symptom] });
+
+    expect(decision.urgency_level).toBe('high');
+    expect(decision.contributing_factors).toContainEqual({
+      code: 'red_flag_symptom',
+      description: `Red-flag symptom reported: ${symptom.toLowerCase()}`,
+      urgency: 'high',
+    });
+    expect(decision.recommended_action).toBe('Seek immediate medical attention or call emergency services.');
+  });
+
+  it('rates emergency keywords in the notes high, one factor per keyword', () => {
+    const decision = triage({ notes: 'Sudden NUMBNESS in my arm, and I think it is a stroke' });
+
+    expect(decision.urgency_level).toBe('high');
+    expect(decision.contributing_factors.map(factor => factor.description)).toEqual([
+      'Emergency keyword in notes: "stroke"',
+      'Emergency keyword in notes: "numbness"',
+    ]);
+  });
+
+  it.each([
+    [null, 'low', []],
+    [1, 'low', []],
+    [4, 'low', []],
+    [5, 'medium', ['moderate_discomfort']],
+    [7, 'medium', ['moderate_discomfort']],
+    [8, 'high', ['severe_discomfort']],
+    [10, 'high', ['severe_discomfort']],
+  ])('rates severity %s as %s', (severity, urgency, codes) => {
+    expect(triage({ severity }).urgency_level).toBe(urgency);
+    expect(factorCodes({ severity })).toEqual(codes);
+  });
+
+  it('rates more than three symptoms medium', () => {
+    expect(triage({ symptoms: ['Headache', 'Fever', 'Cough'] }).urgency_level).toBe('low');
+    expect(triage({ symptoms: ['Headache', 'Fever', 'Cough', 'Fatigue'] }).urgency_level).toBe('medium');
+  });
+
+  it.each([
+    [1, 'medium'],
+    [2, 'low'],
+    [64, 'low'],
+    [65, 'medium'],
+    [90, 'medium'],
+  ])('rates a patient aged %i with a symptom %s', (age, urgency) => {
+    expect(triage({ age }).urgency_level).toBe(urgency);
+  });
+
+  it('does not raise urgency for age, conditions or duration without symptoms', () => {
+    const decision = triage({
+      symptoms: [],
+      age: 80,
+      existing_conditions: ['Diabetes'],
+      duration: 'more-than-2-weeks',
+    });
+
+    expect(decision.urgency_level).toBe('low');
+    expect(decision.contributing_factors).toEqual([]);
+  });
+
+  it('rates high-risk conditions medium and names them', () => {
+    const decision = triage({ existing_conditions: ['Diabetes', 'Arthritis', 'ASTHMA'] });
+
+    expect(decision.urgency_level).toBe('medium');
+    expect(decision.contributing_factors).toEqual([
+      { code: 'high_risk_condition', description: 'Pre-existing condition: diabetes, asthma', urgency: 'medium' },
+    ]);
+  });
+
+  it('ignores a "None" condition', () => {
+    expect(triage({ existing_conditions: ['None'] }).urgency_level).toBe('low');
+    expect(factorCodes({ existing_conditions: ['None', 'Hypertension'] })).toEqual(['high_risk_condition']);
+  });
+
+  it.each([
+    ['4-7-days', 'low'],
+    ['1-2-weeks', 'medium'],
+    ['more-than-2-weeks', 'medium'],
+  ])('rates symptoms lasting %s %s', (duration, urgency) => {
+    expect(triage({ duration }).urgency_level).toBe(urgency);
+  });
+
+  it('takes the highest urgency of all factors and keeps every factor', () => {
+    const decision = triage({ symptoms: ['Chest pain'], age: 70, severity: 6 });
+
+    expect(decision.urgency_level).toBe('high');
+    expect(decision.contributing_factors.map(factor => factor.code)).toEqual([
+      'red_flag_symptom', 'moderate_discomfort', 'age_risk',
+    ]);
+  });
+});
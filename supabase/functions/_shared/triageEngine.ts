@@ -0,0 +1,141 @@
+// Rule-based triage scoring shared by every intake channel.
+// This file is imported by both the edge functions (Deno) and the web app, so
+// it must stay free of imports. The triage-intake function is authoritative.
+
+export const TRIAGE_ENGINE_VERSION = 'rules-1.1.0';
+
+export type UrgencyLevel = 'low' | 'medium' | 'high';
+
+export interface TriageInput {
+  age: number | null;
+  gender: string | null;
+  symptoms: string[];
+  duration: string | null;
+  existing_conditions: string[];
+  notes: string | null;
+  // Self-reported discomfort on a 1-10 scale, when the channel collects it
+  severity?: number | null;
+}
+
+export interface ContributingFactor {
+  code: string;
+  description: string;
+  urgency: UrgencyLevel;
+}
+
+export interface TriageDecision {
+  urgency_level: UrgencyLevel;
+  recommended_action: string;
+  contributing_factors: ContributingFactor[];
+  engine_version: string;
+}
+
+export const EMERGENCY_KEYWORDS = [
+  'chest pain', 'can\'t breathe', 'difficulty breathing', 'severe bleeding',
+  'unconscious', 'stroke', 'heart attack', 'seizure', 'overdose',
+  'suicidal', 'suicide', 'severe pain', 'numbness', 'paralysis'
+];
+
+const RED_FLAG_SYMPTOMS = ['chest pain', 'shortness of breath'];
+
+export const HIGH_RISK_CONDITIONS = ['diabetes', 'heart disease', 'hypertension', 'asthma'];
+
+const SEVERE_DISCOMFORT = 8;
+const MODERATE_DISCOMFORT = 5;
+
+const PROLONGED_DURATIONS = ['1-2-weeks', 'more-than-2-weeks'];
+
+const RECOMMENDED_ACTIONS: Record<UrgencyLevel, string> = {
+  high: 'Seek immediate medical attention or call emergency services.',
+  medium: 'Schedule an appointment with your healthcare provider within 24-48 hours.',
+  low: 'Monitor symptoms and rest. Seek care if symptoms worsen.',
+};
+
+const URGENCY_RANK: Record<UrgencyLevel, number> = { low: 0, medium: 1, high: 2 };
+
+export function detectEmergencyKeywords(text: string | null): string[] {
+  if (!text) return [];
+  const lowerText = text.toLowerCase();
+  return EMERGENCY_KEYWORDS.filter(keyword => lowerText.includes(keyword));
+}
+
+export function evaluateTriage(input: TriageInput): TriageDecision {
+  const symptoms = input.symptoms.map(s => s.toLowerCase());
+  const conditions = input.existing_conditions
+    .map(c => c.toLowerCase())
+    .filter(c => c !== 'none');
+  const factors: ContributingFactor[] = [];
+
+  symptoms
+    .filter(s => RED_FLAG_SYMPTOMS.includes(s))
+    .forEach(s => factors.push({
+      code: 'red_flag_symptom',
+      description: `Red-flag symptom reported: ${s}`,
+      urgency: 'high',
+    }));
+
+  detectEmergencyKeywords(input.notes).forEach(keyword => factors.push({
+    code: 'emergency_keyword',
+    description: `Emergency keyword in notes: "${keyword}"`,
+    urgency: 'high',
+  }));
+
+  if (input.severity != null && input.severity >= SEVERE_DISCOMFORT) {
+    factors.push({
+      code: 'severe_discomfort',
+      description: `Self-reported severity ${input.severity}/10`,
+      urgency: 'high',
+    });
+  } else if (input.severity != null && input.severity >= MODERATE_DISCOMFORT) {
+    factors.push({
+      code: 'moderate_discomfort',
+      description: `Self-reported severity ${input.severity}/10`,
+      urgency: 'medium',
+    });
+  }
+
+  if (symptoms.length > 3) {
+    factors.push({
+      code: 'multiple_symptoms',
+      description: `${symptoms.length} concurrent symptoms reported`,
+      urgency: 'medium',
+    });
+  }
+
+  if (symptoms.length > 0 && input.age !== null && (input.age >= 65 || input.age < 2)) {
+    factors.push({
+      code: 'age_risk',
+      description: `Age ${input.age} is in a higher-risk group`,
+      urgency: 'medium',
+    });
+  }
+
+  const riskConditions = conditions.filter(c => HIGH_RISK_CONDITIONS.includes(c));
+  if (symptoms.length > 0 && riskConditions.length > 0) {
+    factors.push({
+      code: 'high_risk_condition',
+      description: `Pre-existing condition: ${riskConditions.join(', ')}`,
+      urgency: 'medium',
+    });
+  }
+
+  if (symptoms.length > 0 && input.duration && PROLONGED_DURATIONS.includes(input.duration)) {
+    factors.push({
+      code: 'prolonged_duration',
+      description: 'Symptoms have persisted for over a week',
+      urgency: 'medium',
+    });
+  }
+
+  const urgency = factors.reduce<UrgencyLevel>(
+    (current, factor) => (URGENCY_RANK[factor.urgency] > URGENCY_RANK[current] ? factor.urgency : current),
+    'low'
+  );
+
+  return {
+    urgency_level: urgency,
+    recommended_action: RECOMMENDED_ACTIONS[urgency],
+    contributing_factors: factors,
+    engine_version: TRIAGE_ENGINE_VERSION,
+  };
+}
@@ -0,0 +1,141 @@
+// Streams follow-up questions for the chatbot from a hosted, OpenAI-compatible
+// chat model. Configure with TRIAGE_LLM_API_URL, TRIAGE_LLM_API_KEY and
+// TRIAGE_LLM_MODEL. The client only calls this for non-emergency interview turns.
+// Only signed-in users may call it, since every request spends model budget.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+
+interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+interface ConversationBody {
+  history: ConversationTurn[];
+  next_slot: string;
+  known_facts: string[];
+}
+
+// The client sends its most recent turns; anything longer is rejected
+const MAX_HISTORY_TURNS = 12;
+const MAX_FACTS = 20;
+const MAX_TEXT_LENGTH = 4000;
+
+const isText = (value: unknown, maxLength = MAX_TEXT_LENGTH): value is string =>
+  typeof value === 'string' && value.length <= maxLength;
+
+// Only the patient's and assistant's turns are forwarded, never a system message
+const isTurn = (value: unknown): value is ConversationTurn => {
+  const turn = value as Partial<ConversationTurn> | null;
+  return !!turn && (turn.role === 'user' || turn.role === 'assistant') && isText(turn.content);
+};
+
+function parseBody(raw: Record<string, unknown>): ConversationBody | string {
+  const { history, next_slot, known_facts } = raw ?? {};
+
+  if (!Array.isArray(history) || history.length === 0 || history.length > MAX_HISTORY_TURNS || !history.every(isTurn)) {
+    return 'Invalid value for history';
+  }
+  if (!isText(next_slot, 50) || next_slot.length === 0) return 'Invalid value for next_slot';
+  if (!Array.isArray(known_facts) || known_facts.length > MAX_FACTS || !known_facts.every(fact => isText(fact))) {
+    return 'Invalid value for known_facts';
+  }
+
+  return {
+    history: history.map(({ role, content }) => ({ role, content })),
+    next_slot,
+    known_facts,
+  };
+}
+
+const SYSTEM_PROMPT = `You are a virtual triage assistant collecting symptoms before a patient sees a clinician.
+Reply with one short, empathetic sentence acknowledging the patient's last message,
+followed by exactly one question asking for the missing fact. Never diagnose or recommend treatment.`;
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const apiUrl = Deno.env.get('TRIAGE_LLM_API_URL');
+  const apiKey = Deno.env.get('TRIAGE_LLM_API_KEY');
+  if (!apiUrl || !apiKey) {
+    return new Response('Hosted model is not configured', { status: 503, headers: corsHeaders });
+  }
+
+  const userClient = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+  });
+  const { data: { user } } = await userClient.auth.getUser();
+  if (!user) {
+    return new Response('Not authenticated', { status: 401, headers: corsHeaders });
+  }
+
+  const { data: role } = await userClient.from('user_roles').select('status').eq('user_id', user.id).maybeSingle();
+  if (role?.status === 'revoked') {
+    return new Response('Account has been deactivated', { status: 403, headers: corsHeaders });
+  }
+
+  let body: ConversationBody | string;
+  try {
+    body = parseBody(await req.json());
+  } catch {
+    body = 'Invalid request body';
+  }
+  if (typeof body === 'string') {
+    return new Response(body, { status: 400, headers: corsHeaders });
+  }
+
+  const upstream = await fetch(apiUrl, {
+    method: 'POST',
+    signal: req.signal,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${apiKey}`,
+    },
+    body: JSON.stringify({
+      model: Deno.env.get('TRIAGE_LLM_MODEL') ?? 'gpt-4o-mini',
+      stream: true,
+      messages: [
+        {
+          role: 'system',
+          content: `${SYSTEM_PROMPT}\n\nKnown facts:\n${body.known_facts.join('\n')}\n\nMissing fact to ask about: ${body.next_slot}`,
+        },
+        ...body.history,
+      ],
+    }),
+  });
+
+  if (!upstream.ok || !upstream.body) {
+    return new Response('Hosted model request failed', { status: 502, headers: corsHeaders });
+  }
+
+  // Re-emit the model's server-sent events as a plain text token stream
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const tokens = upstream.body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      buffer += decoder.decode(chunk, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, '').trim();
+        if (!data || data === '[DONE]' || !line.startsWith('data:')) continue;
+        try {
+          const token = JSON.parse(data).choices?.[0]?.delta?.content;
+          if (token) controller.enqueue(encoder.encode(token));
+        } catch {
+          // Ignore keep-alive and partial frames
+        }
+      }
+    },
+  }));
+
+  return new Response(tokens, {
+    headers: { ...corsHeaders, 'Content-Type': 'text/plain; charset=utf-8' },
+  });
+});
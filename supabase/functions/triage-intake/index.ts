@@ -0,0 +1,190 @@
+// Records a patient's intake and writes the authoritative triage result.
+// Patients cannot insert triage_results themselves; urgency is only ever
+// computed here, with the service role, from the intake that was submitted.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { evaluateTriage } from '../_shared/triageEngine.ts';
+
+interface IntakeBody {
+  age: number | null;
+  gender: string | null;
+  symptoms: string[];
+  symptom_duration: string | null;
+  existing_conditions: string[];
+  additional_notes: string | null;
+  severity: number | null;
+  chat_session_id: string | null;
+  submission_id: string | null;
+}
+
+const MAX_LIST_LENGTH = 30;
+const MAX_TEXT_LENGTH = 5000;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.length <= MAX_LIST_LENGTH && value.every(v => typeof v === 'string' && v.length <= 200);
+
+const optionalString = (value: unknown, maxLength: number): string | null | undefined => {
+  if (value === undefined || value === null || value === '') return null;
+  return typeof value === 'string' && value.length <= maxLength ? value : undefined;
+};
+
+const optionalUuid = (value: unknown): string | null | undefined => {
+  if (value === undefined || value === null) return null;
+  return typeof value === 'string' && UUID_PATTERN.test(value) ? value : undefined;
+};
+
+const optionalInteger = (value: unknown, min: number, max: number): number | null | undefined => {
+  if (value === undefined || value === null) return null;
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= max ? (value as number) : undefined;
+};
+
+function parseBody(raw: Record<string, unknown>): IntakeBody | string {
+  const body = {
+    age: optionalInteger(raw.age, 0, 150),
+    gender: optionalString(raw.gender, 50),
+    symptoms: raw.symptoms ?? [],
+    symptom_duration: optionalString(raw.symptom_duration, 50),
+    existing_conditions: raw.existing_conditions ?? [],
+    additional_notes: optionalString(raw.additional_notes, MAX_TEXT_LENGTH),
+    severity: optionalInteger(raw.severity, 1, 10),
+    chat_session_id: optionalString(raw.chat_session_id, 36),
+    submission_id: optionalUuid(raw.submission_id),
+  };
+
+  const invalid = Object.entries(body).find(([, value]) => value === undefined);
+  if (invalid) return `Invalid value for ${invalid[0]}`;
+  if (!isStringList(body.symptoms)) return 'Invalid value for symptoms';
+  if (!isStringList(body.existing_conditions)) return 'Invalid value for existing_conditions';
+
+  return body as IntakeBody;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+  });
+  const admin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  const { data: { user } } = await userClient.auth.getUser();
+  if (!user) {
+    return jsonResponse({ error: 'Not authenticated' }, 401);
+  }
+
+  // The service role bypasses the policies that shut deactivated accounts out
+  const { data: role } = await admin.from('user_roles').select('status').eq('user_id', user.id).maybeSingle();
+  if (role?.status === 'revoked') {
+    return jsonResponse({ error: 'Account has been deactivated' }, 403);
+  }
+
+  let body: IntakeBody | string;
+  try {
+    body = parseBody(await req.json());
+  } catch {
+    body = 'Invalid request body';
+  }
+  if (typeof body === 'string') {
+    return jsonResponse({ error: body }, 400);
+  }
+
+  if (body.chat_session_id) {
+    const { data: session } = await admin
+      .from('chat_sessions')
+      .select('id')
+      .eq('id', body.chat_session_id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!session) {
+      return jsonResponse({ error: 'Chat session not found' }, 404);
+    }
+  }
+
+  const decision = evaluateTriage({
+    age: body.age,
+    gender: body.gender,
+    symptoms: body.symptoms,
+    duration: body.symptom_duration,
+    existing_conditions: body.existing_conditions,
+    notes: body.additional_notes,
+    severity: body.severity,
+  });
+
+  const respondWith = (result: { intake_id: string | null }) =>
+    jsonResponse({
+      intake_id: result.intake_id,
+      triage_result: result,
+      contributing_factors: decision.contributing_factors,
+    });
+
+  // A retried submission gets the result its first attempt wrote
+  const findSubmittedResult = async () => {
+    if (!body.submission_id) return null;
+    const { data } = await admin
+      .from('triage_results')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('submission_id', body.submission_id)
+      .maybeSingle();
+    return data;
+  };
+
+  const submitted = await findSubmittedResult();
+  if (submitted) return respondWith(submitted);
+
+  const { data: intake, error: intakeError } = await admin
+    .from('patient_intake')
+    .insert({
+      user_id: user.id,
+      age: body.age,
+      gender: body.gender,
+      symptoms: body.symptoms,
+      symptom_duration: body.symptom_duration,
+      existing_conditions: body.existing_conditions,
+      additional_notes: body.additional_notes,
+      severity: body.severity,
+    })
+    .select('id')
+    .single();
+
+  if (intakeError) {
+    console.error('Error inserting intake:', intakeError);
+    return jsonResponse({ error: 'Failed to record intake' }, 500);
+  }
+
+  const { data: result, error: resultError } = await admin
+    .from('triage_results')
+    .insert({
+      user_id: user.id,
+      intake_id: intake.id,
+      chat_session_id: body.chat_session_id,
+      submission_id: body.submission_id,
+      urgency: decision.urgency_level,
+      machine_urgency: decision.urgency_level,
+      recommended_action: decision.recommended_action,
+      engine_version: decision.engine_version,
+    })
+    .select('*')
+    .single();
+
+  if (resultError) {
+    // Do not leave an intake behind without its result; the patient can submit again
+    const { error: cleanupError } = await admin.from('patient_intake').delete().eq('id', intake.id);
+    if (cleanupError) console.error('Error removing intake without a result:', cleanupError);
+
+    // An attempt running alongside this one wrote the result first
+    const concurrent = resultError.code === '23505' ? await findSubmittedResult() : null;
+    if (concurrent) return respondWith(concurrent);
+
+    console.error('Error inserting triage result:', resultError);
+    return jsonResponse({ error: 'Failed to record triage result' }, 500);
+  }
+
+  return respondWith(result);
+});
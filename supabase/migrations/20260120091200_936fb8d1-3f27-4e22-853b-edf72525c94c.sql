@@ -0,0 +1,3 @@
+-- Record which triage rule set produced each result
+ALTER TABLE public.triage_results
+    ADD COLUMN engine_version TEXT;
@@ -0,0 +1,26 @@
+-- Chat session lifecycle: active sessions are appended to, then closed with a final status
+UPDATE public.chat_sessions
+SET status = 'abandoned'
+WHERE status IS NULL OR status NOT IN ('active', 'completed', 'abandoned', 'escalated');
+
+ALTER TABLE public.chat_sessions
+    ALTER COLUMN status SET NOT NULL,
+    ADD CONSTRAINT chat_sessions_status_check
+        CHECK (status IN ('active', 'completed', 'abandoned', 'escalated')),
+    ADD COLUMN closed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX chat_sessions_user_status_idx
+    ON public.chat_sessions (user_id, status, updated_at DESC);
+
+-- Append messages atomically so concurrent writes never overwrite each other.
+-- Runs as the caller, so the existing UPDATE policy still applies.
+CREATE OR REPLACE FUNCTION public.append_chat_messages(_session_id UUID, _messages JSONB)
+RETURNS void
+LANGUAGE sql
+SET search_path = public
+AS $$
+    UPDATE public.chat_sessions
+    SET messages = COALESCE(messages, '[]'::jsonb) || _messages
+    WHERE id = _session_id
+      AND status = 'active'
+$$;
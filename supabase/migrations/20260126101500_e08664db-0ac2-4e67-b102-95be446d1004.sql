@@ -0,0 +1,6 @@
+-- Triage results are written only by the triage-intake edge function
+DROP POLICY "Users can insert their own triage results" ON public.triage_results;
+
+-- Self-reported severity (1-10) collected by the chatbot interview
+ALTER TABLE public.patient_intake
+    ADD COLUMN severity SMALLINT CHECK (severity BETWEEN 1 AND 10);
@@ -0,0 +1,90 @@
+-- Staff onboarding: healthcare_staff roles start pending until approved,
+-- either by a valid invitation code at signup or by an administrator.
+CREATE TYPE public.role_status AS ENUM ('pending', 'approved');
+
+ALTER TABLE public.user_roles
+    ADD COLUMN status role_status NOT NULL DEFAULT 'pending',
+    ADD COLUMN approved_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN approved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Existing roles stay approved: there is no one yet who could approve them,
+-- and locking staff out would leave hand-written SQL as the only way back.
+-- Only signups from here on wait for an invitation or approval.
+UPDATE public.user_roles
+SET status = 'approved', approved_at = now();
+
+-- Roles are only ever created by the signup trigger below
+DROP POLICY "Users can insert their own role" ON public.user_roles;
+
+-- Only approved roles grant access
+CREATE OR REPLACE FUNCTION public.has_role(_user_id UUID, _role app_role)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM public.user_roles
+        WHERE user_id = _user_id
+          AND role = _role
+          AND status = 'approved'
+    )
+$$;
+
+-- Create staff_invitations table
+CREATE TABLE public.staff_invitations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    code TEXT NOT NULL UNIQUE DEFAULT upper(substr(md5(gen_random_uuid()::text), 1, 10)),
+    email TEXT,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + interval '7 days',
+    used_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Any code here grants the staff role, so clients get no access until there
+-- are administrators to issue them; until then codes are issued from SQL
+ALTER TABLE public.staff_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Assign the role requested at signup. Staff are approved only when they
+-- present an unused, unexpired invitation issued for their email (or any email).
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+    _invited_by UUID;
+    _invitation_id UUID;
+BEGIN
+    INSERT INTO public.profiles (user_id, email, full_name)
+    VALUES (NEW.id, NEW.email, NEW.raw_user_meta_data ->> 'full_name');
+
+    IF NEW.raw_user_meta_data ->> 'requested_role' = 'healthcare_staff' THEN
+        UPDATE public.staff_invitations
+        SET used_by = NEW.id, used_at = now()
+        WHERE code = NEW.raw_user_meta_data ->> 'invitation_code'
+          AND used_by IS NULL
+          AND expires_at > now()
+          AND (email IS NULL OR lower(email) = lower(NEW.email))
+        RETURNING id, created_by INTO _invitation_id, _invited_by;
+
+        INSERT INTO public.user_roles (user_id, role, status, approved_at, approved_by)
+        VALUES (
+            NEW.id,
+            'healthcare_staff',
+            CASE WHEN _invitation_id IS NULL THEN 'pending'::role_status ELSE 'approved'::role_status END,
+            CASE WHEN _invitation_id IS NULL THEN NULL ELSE now() END,
+            _invited_by
+        );
+    ELSE
+        INSERT INTO public.user_roles (user_id, role, status, approved_at)
+        VALUES (NEW.id, 'patient', 'approved', now());
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
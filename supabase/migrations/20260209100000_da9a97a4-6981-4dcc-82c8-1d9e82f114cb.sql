@@ -0,0 +1,4 @@
+-- New enum values must be committed before policies can reference them,
+-- so they get a migration of their own.
+ALTER TYPE public.app_role ADD VALUE 'admin';
+ALTER TYPE public.role_status ADD VALUE 'revoked';
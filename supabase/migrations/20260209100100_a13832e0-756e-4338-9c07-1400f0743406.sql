@@ -0,0 +1,27 @@
+-- Admin user management. The first admin has to be granted from SQL:
+--   UPDATE public.user_roles SET role = 'admin', status = 'approved' WHERE user_id = '<uuid>';
+
+-- RLS Policies for user_roles
+CREATE POLICY "Admins can view all roles"
+ON public.user_roles FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Admins cannot change their own role, so there is always someone left to undo a mistake
+CREATE POLICY "Admins can update other users' roles"
+ON public.user_roles FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin') AND user_id <> auth.uid())
+WITH CHECK (public.has_role(auth.uid(), 'admin') AND user_id <> auth.uid());
+
+-- RLS Policies for profiles
+CREATE POLICY "Admins can view all profiles"
+ON public.profiles FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- RLS Policies for staff_invitations
+CREATE POLICY "Admins can view invitations"
+ON public.staff_invitations FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can create invitations"
+ON public.staff_invitations FOR INSERT
+WITH CHECK (public.has_role(auth.uid(), 'admin') AND created_by = auth.uid());
@@ -0,0 +1,49 @@
+-- Clinician review of triage results. machine_urgency keeps what the engine
+-- decided so overrides can be compared against it.
+ALTER TABLE public.triage_results
+    ADD COLUMN machine_urgency urgency_level,
+    ADD COLUMN disposition TEXT,
+    ADD COLUMN reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    ADD COLUMN reviewed_at TIMESTAMP WITH TIME ZONE,
+    ADD CONSTRAINT triage_results_disposition_check
+        CHECK (disposition IN ('seen', 'referred', 'discharged', 'no_show'));
+
+UPDATE public.triage_results SET machine_urgency = urgency;
+
+ALTER TABLE public.triage_results
+    ALTER COLUMN machine_urgency SET NOT NULL;
+
+-- machine_urgency is fixed at insert time, and the reviewer is always the
+-- caller, so neither can be written by the client
+CREATE OR REPLACE FUNCTION public.stamp_triage_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        NEW.machine_urgency := NEW.urgency;
+        NEW.reviewed_by := NULL;
+        NEW.reviewed_at := NULL;
+        RETURN NEW;
+    END IF;
+
+    NEW.machine_urgency := OLD.machine_urgency;
+
+    IF NEW.urgency IS DISTINCT FROM OLD.urgency
+        OR NEW.clinician_notes IS DISTINCT FROM OLD.clinician_notes
+        OR NEW.disposition IS DISTINCT FROM OLD.disposition
+        OR NEW.reviewed_at IS DISTINCT FROM OLD.reviewed_at THEN
+        NEW.reviewed_by := auth.uid();
+        NEW.reviewed_at := now();
+    ELSE
+        NEW.reviewed_by := OLD.reviewed_by;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_triage_results_review
+    BEFORE INSERT OR UPDATE ON public.triage_results
+    FOR EACH ROW EXECUTE FUNCTION public.stamp_triage_review();
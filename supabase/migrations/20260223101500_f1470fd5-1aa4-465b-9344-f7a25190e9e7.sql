@@ -0,0 +1,123 @@
+-- Queue-wide settings, kept in a single row
+CREATE TABLE public.queue_settings (
+    id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+    claim_expiry_minutes INTEGER NOT NULL DEFAULT 15
+        CHECK (claim_expiry_minutes BETWEEN 1 AND 480),
+    updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.queue_settings DEFAULT VALUES;
+
+ALTER TABLE public.queue_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff and admins can view queue settings"
+ON public.queue_settings FOR SELECT
+USING (public.has_role(auth.uid(), 'healthcare_staff') OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update queue settings"
+ON public.queue_settings FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_queue_settings_updated_at
+    BEFORE UPDATE ON public.queue_settings
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Staff need to see each other to reassign cases
+CREATE POLICY "Healthcare staff can view staff roles"
+ON public.user_roles FOR SELECT
+USING (public.has_role(auth.uid(), 'healthcare_staff') AND role = 'healthcare_staff');
+
+-- Claims on triage results
+ALTER TABLE public.triage_results
+    ADD COLUMN assigned_to UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    ADD COLUMN claimed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX triage_results_assigned_to_idx ON public.triage_results (assigned_to);
+
+-- A claim is live while claimed_at is within the configured expiry
+CREATE OR REPLACE FUNCTION public.is_claim_active(_claimed_at TIMESTAMP WITH TIME ZONE)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT _claimed_at IS NOT NULL
+       AND _claimed_at > now() - make_interval(mins => (SELECT claim_expiry_minutes FROM public.queue_settings))
+$$;
+
+-- Claims go through these functions so two people can never hold the same
+-- case. They run as the caller, so the staff UPDATE policy still applies.
+
+-- Claims an unowned or expired case; claiming your own case again renews it
+CREATE OR REPLACE FUNCTION public.claim_triage_result(_triage_result_id UUID)
+RETURNS public.triage_results
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    _result public.triage_results;
+BEGIN
+    UPDATE public.triage_results
+    SET assigned_to = auth.uid(), claimed_at = now()
+    WHERE id = _triage_result_id
+      AND (assigned_to IS NULL OR assigned_to = auth.uid() OR NOT public.is_claim_active(claimed_at))
+    RETURNING * INTO _result;
+
+    IF _result.id IS NULL THEN
+        RAISE EXCEPTION 'Case is already claimed by someone else' USING ERRCODE = 'P0001';
+    END IF;
+
+    RETURN _result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.release_triage_result(_triage_result_id UUID)
+RETURNS public.triage_results
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    _result public.triage_results;
+BEGIN
+    UPDATE public.triage_results
+    SET assigned_to = NULL, claimed_at = NULL
+    WHERE id = _triage_result_id
+      AND (assigned_to IS NULL OR assigned_to = auth.uid() OR NOT public.is_claim_active(claimed_at))
+    RETURNING * INTO _result;
+
+    IF _result.id IS NULL THEN
+        RAISE EXCEPTION 'Only the clinician holding this case can release it' USING ERRCODE = 'P0001';
+    END IF;
+
+    RETURN _result;
+END;
+$$;
+
+-- Hands a case you hold (or an unowned one) to another staff member
+CREATE OR REPLACE FUNCTION public.reassign_triage_result(_triage_result_id UUID, _assignee UUID)
+RETURNS public.triage_results
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    _result public.triage_results;
+BEGIN
+    IF NOT public.has_role(_assignee, 'healthcare_staff') THEN
+        RAISE EXCEPTION 'Cases can only be assigned to approved healthcare staff' USING ERRCODE = 'P0001';
+    END IF;
+
+    UPDATE public.triage_results
+    SET assigned_to = _assignee, claimed_at = now()
+    WHERE id = _triage_result_id
+      AND (assigned_to IS NULL OR assigned_to = auth.uid() OR NOT public.is_claim_active(claimed_at))
+    RETURNING * INTO _result;
+
+    IF _result.id IS NULL THEN
+        RAISE EXCEPTION 'Only the clinician holding this case can reassign it' USING ERRCODE = 'P0001';
+    END IF;
+
+    RETURN _result;
+END;
+$$;
@@ -0,0 +1,64 @@
+-- Queue lifecycle for triage results. Each status change is timestamped so
+-- wait times can be measured from created_at.
+ALTER TABLE public.triage_results
+    ADD COLUMN queue_status TEXT NOT NULL DEFAULT 'waiting',
+    ADD COLUMN review_started_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN called_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN consultation_started_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN completed_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN left_at TIMESTAMP WITH TIME ZONE,
+    ADD CONSTRAINT triage_results_queue_status_check
+        CHECK (queue_status IN ('waiting', 'in_review', 'called', 'in_consultation', 'completed', 'left_without_being_seen'));
+
+-- Cases a clinician has already closed out are not waiting any more
+UPDATE public.triage_results
+SET queue_status = 'completed', completed_at = COALESCE(reviewed_at, now())
+WHERE disposition IS NOT NULL;
+
+CREATE INDEX triage_results_queue_status_idx
+    ON public.triage_results (queue_status, created_at DESC);
+
+-- Allowed moves, kept in sync with QUEUE_TRANSITIONS in src/lib/queueStatus.ts
+CREATE OR REPLACE FUNCTION public.apply_queue_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.queue_status = OLD.queue_status THEN
+        RETURN NEW;
+    END IF;
+
+    IF NOT (
+        (OLD.queue_status = 'waiting' AND NEW.queue_status IN ('in_review', 'called', 'left_without_being_seen'))
+        OR (OLD.queue_status = 'in_review' AND NEW.queue_status IN ('waiting', 'called', 'left_without_being_seen'))
+        OR (OLD.queue_status = 'called' AND NEW.queue_status IN ('waiting', 'in_consultation', 'left_without_being_seen'))
+        OR (OLD.queue_status = 'in_consultation' AND NEW.queue_status = 'completed')
+        OR (OLD.queue_status = 'left_without_being_seen' AND NEW.queue_status = 'waiting')
+    ) THEN
+        RAISE EXCEPTION 'Cannot move a case from % to %', OLD.queue_status, NEW.queue_status
+            USING ERRCODE = 'P0001';
+    END IF;
+
+    CASE NEW.queue_status
+        WHEN 'in_review' THEN NEW.review_started_at := now();
+        WHEN 'called' THEN NEW.called_at := now();
+        WHEN 'in_consultation' THEN NEW.consultation_started_at := now();
+        WHEN 'completed' THEN NEW.completed_at := now();
+        WHEN 'left_without_being_seen' THEN NEW.left_at := now();
+        ELSE NULL;
+    END CASE;
+
+    -- Closed cases no longer need an owner in the queue
+    IF NEW.queue_status IN ('completed', 'left_without_being_seen') THEN
+        NEW.assigned_to := NULL;
+        NEW.claimed_at := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_triage_results_queue_transition
+    BEFORE UPDATE OF queue_status ON public.triage_results
+    FOR EACH ROW EXECUTE FUNCTION public.apply_queue_transition();
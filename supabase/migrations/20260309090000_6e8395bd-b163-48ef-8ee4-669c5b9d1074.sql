@@ -0,0 +1,15 @@
+-- Priority scoring for the queue. A patient's score is their urgency points,
+-- plus wait_points scaled by how much of their max-wait target they have
+-- waited (wait / target, so it keeps growing past the target), plus points
+-- for a higher-risk age or a flagged condition.
+ALTER TABLE public.queue_settings
+    ADD COLUMN urgency_points_high INTEGER NOT NULL DEFAULT 100 CHECK (urgency_points_high >= 0),
+    ADD COLUMN urgency_points_medium INTEGER NOT NULL DEFAULT 50 CHECK (urgency_points_medium >= 0),
+    ADD COLUMN urgency_points_low INTEGER NOT NULL DEFAULT 10 CHECK (urgency_points_low >= 0),
+    ADD COLUMN max_wait_high_minutes INTEGER NOT NULL DEFAULT 15 CHECK (max_wait_high_minutes > 0),
+    ADD COLUMN max_wait_medium_minutes INTEGER NOT NULL DEFAULT 60 CHECK (max_wait_medium_minutes > 0),
+    ADD COLUMN max_wait_low_minutes INTEGER NOT NULL DEFAULT 240 CHECK (max_wait_low_minutes > 0),
+    ADD COLUMN wait_points INTEGER NOT NULL DEFAULT 50 CHECK (wait_points >= 0),
+    ADD COLUMN age_risk_points INTEGER NOT NULL DEFAULT 15 CHECK (age_risk_points >= 0),
+    ADD COLUMN flagged_condition_points INTEGER NOT NULL DEFAULT 15 CHECK (flagged_condition_points >= 0),
+    ADD COLUMN flagged_conditions TEXT[] NOT NULL DEFAULT ARRAY['diabetes', 'heart disease', 'hypertension', 'asthma'];
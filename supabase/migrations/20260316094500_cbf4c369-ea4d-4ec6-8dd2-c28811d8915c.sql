@@ -0,0 +1,10 @@
+-- Let triage results embed the patient's profile. Every user gets a profile
+-- from handle_new_user, but backfill any that predate it before adding the key.
+INSERT INTO public.profiles (user_id, email)
+SELECT u.id, u.email
+FROM auth.users u
+WHERE NOT EXISTS (SELECT 1 FROM public.profiles p WHERE p.user_id = u.id);
+
+ALTER TABLE public.triage_results
+    ADD CONSTRAINT triage_results_user_id_profiles_fkey
+        FOREIGN KEY (user_id) REFERENCES public.profiles(user_id) ON DELETE CASCADE;
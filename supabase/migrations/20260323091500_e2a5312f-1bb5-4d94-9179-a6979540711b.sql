@@ -0,0 +1,24 @@
+-- Realtime clients catch up after a reconnect by asking for rows changed since
+-- the last change they saw, which needs a last-modified column.
+ALTER TABLE public.triage_results
+    ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+ALTER TABLE public.alerts
+    ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+UPDATE public.triage_results
+SET updated_at = GREATEST(created_at, processed_at, reviewed_at, claimed_at, review_started_at,
+                          called_at, consultation_started_at, completed_at, left_at);
+
+UPDATE public.alerts SET updated_at = created_at;
+
+CREATE INDEX triage_results_updated_at_idx ON public.triage_results (updated_at);
+CREATE INDEX alerts_updated_at_idx ON public.alerts (updated_at);
+
+CREATE TRIGGER update_triage_results_updated_at
+    BEFORE UPDATE ON public.triage_results
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_alerts_updated_at
+    BEFORE UPDATE ON public.alerts
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,24 @@
+-- Staff lists are paged with keyset cursors on (created_at, id), or on
+-- (urgency, created_at, id) for the queue, so each page is an index range scan.
+CREATE INDEX triage_results_created_at_id_idx
+    ON public.triage_results (created_at DESC, id DESC);
+
+CREATE INDEX triage_results_urgency_created_at_id_idx
+    ON public.triage_results (urgency DESC, created_at, id);
+
+DROP INDEX public.triage_results_queue_status_idx;
+
+CREATE INDEX triage_results_queue_status_idx
+    ON public.triage_results (queue_status, urgency DESC, created_at, id);
+
+CREATE INDEX alerts_created_at_id_idx
+    ON public.alerts (created_at DESC, id DESC);
+
+-- Patient search matches names and emails anywhere in the text
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+CREATE INDEX profiles_full_name_trgm_idx
+    ON public.profiles USING gin (full_name extensions.gin_trgm_ops);
+
+CREATE INDEX profiles_email_trgm_idx
+    ON public.profiles USING gin (email extensions.gin_trgm_ops);
@@ -0,0 +1,186 @@
+-- Full-text search over triage results. Each result's document is built from
+-- the patient's profile, the intake, the patient's side of the chat and the
+-- clinician's notes, and kept current by triggers on every source. Documents
+-- live in their own table so `select *` on triage_results stays small.
+CREATE TABLE public.triage_search_index (
+    triage_result_id UUID PRIMARY KEY REFERENCES public.triage_results(id) ON DELETE CASCADE,
+    document TSVECTOR NOT NULL
+);
+
+CREATE INDEX triage_search_index_document_idx
+    ON public.triage_search_index USING gin (document);
+
+ALTER TABLE public.triage_search_index ENABLE ROW LEVEL SECURITY;
+
+-- Lets staff lists filter on the document; rows are written by triggers only
+CREATE POLICY "Healthcare staff can view the search index"
+ON public.triage_search_index FOR SELECT
+USING (public.has_role(auth.uid(), 'healthcare_staff'));
+
+-- Only the patient's messages: the assistant asks the same questions of everyone
+CREATE OR REPLACE FUNCTION public.chat_transcript(_messages JSONB)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+    SELECT string_agg(message->>'content', ' ')
+    FROM jsonb_array_elements(
+        CASE WHEN jsonb_typeof(_messages) = 'array' THEN _messages ELSE '[]'::jsonb END
+    ) AS message
+    WHERE message->>'role' = 'user'
+$$;
+
+-- Names rank above symptoms, which rank above notes and the transcript
+CREATE OR REPLACE FUNCTION public.triage_search_vector(
+    _user_id UUID,
+    _intake_id UUID,
+    _chat_session_id UUID,
+    _clinician_notes TEXT
+)
+RETURNS TSVECTOR
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT
+        setweight(to_tsvector('english', concat_ws(' ', p.full_name, p.email)), 'A')
+        || setweight(to_tsvector('english', concat_ws(' ',
+               array_to_string(i.symptoms, ' '), array_to_string(i.existing_conditions, ' '))), 'B')
+        || setweight(to_tsvector('english', concat_ws(' ', i.additional_notes, _clinician_notes)), 'C')
+        || setweight(to_tsvector('english', coalesce(public.chat_transcript(c.messages), '')), 'D')
+    FROM (SELECT 1) AS one
+    LEFT JOIN public.profiles p ON p.user_id = _user_id
+    LEFT JOIN public.patient_intake i ON i.id = _intake_id
+    LEFT JOIN public.chat_sessions c ON c.id = _chat_session_id
+$$;
+
+-- Writes the documents for the given results; runs as the owner so RLS
+-- cannot hide the results a patient's own edit affects
+CREATE OR REPLACE FUNCTION public.index_triage_results(_triage_result_ids UUID[])
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    INSERT INTO public.triage_search_index (triage_result_id, document)
+    SELECT t.id, public.triage_search_vector(t.user_id, t.intake_id, t.chat_session_id, t.clinician_notes)
+    FROM public.triage_results t
+    WHERE t.id = ANY(_triage_result_ids)
+    ON CONFLICT (triage_result_id) DO UPDATE SET document = EXCLUDED.document
+$$;
+
+-- Both expose other patients' text, so only the triggers below may call them
+REVOKE EXECUTE ON FUNCTION public.triage_search_vector(UUID, UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.index_triage_results(UUID[]) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.reindex_triage_search()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM public.index_triage_results(ARRAY(
+        SELECT t.id
+        FROM public.triage_results t
+        WHERE CASE TG_TABLE_NAME
+            WHEN 'triage_results' THEN t.id = NEW.id
+            WHEN 'profiles' THEN t.user_id = NEW.user_id
+            WHEN 'patient_intake' THEN t.intake_id = NEW.id
+            WHEN 'chat_sessions' THEN t.chat_session_id = NEW.id
+        END
+    ));
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER reindex_search_on_triage_change
+    AFTER INSERT OR UPDATE OF user_id, intake_id, chat_session_id, clinician_notes ON public.triage_results
+    FOR EACH ROW EXECUTE FUNCTION public.reindex_triage_search();
+
+-- Source rows can change after the result exists, e.g. a patient renaming themselves
+CREATE TRIGGER reindex_search_on_profile_change
+    AFTER UPDATE OF full_name, email ON public.profiles
+    FOR EACH ROW EXECUTE FUNCTION public.reindex_triage_search();
+
+CREATE TRIGGER reindex_search_on_intake_change
+    AFTER UPDATE OF symptoms, existing_conditions, additional_notes ON public.patient_intake
+    FOR EACH ROW EXECUTE FUNCTION public.reindex_triage_search();
+
+CREATE TRIGGER reindex_search_on_chat_change
+    AFTER UPDATE OF messages ON public.chat_sessions
+    FOR EACH ROW EXECUTE FUNCTION public.reindex_triage_search();
+
+SELECT public.index_triage_results(ARRAY(SELECT id FROM public.triage_results));
+
+-- Staff list searches now use the index instead of matching profile text
+DROP INDEX public.profiles_full_name_trgm_idx;
+DROP INDEX public.profiles_email_trgm_idx;
+
+-- Every word must match, the last one as a prefix so results appear while typing
+CREATE OR REPLACE FUNCTION public.to_prefix_tsquery(_query TEXT)
+RETURNS TSQUERY
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+    SELECT to_tsquery('english', string_agg(word || CASE WHEN last THEN ':*' ELSE '' END, ' & '))
+    FROM (
+        SELECT word, ordinality = count(*) OVER () AS last
+        FROM unnest(regexp_split_to_array(lower(_query), '[^[:alnum:]]+')) WITH ORDINALITY AS words(word, ordinality)
+        WHERE word <> ''
+    ) AS words
+$$;
+
+-- Runs as the caller, so only staff, who can read the index, get results
+CREATE OR REPLACE FUNCTION public.search_triage_results(_query TEXT, _limit INTEGER DEFAULT 20)
+RETURNS TABLE (
+    triage_result_id UUID,
+    user_id UUID,
+    patient_name TEXT,
+    urgency urgency_level,
+    queue_status TEXT,
+    created_at TIMESTAMP WITH TIME ZONE,
+    rank REAL,
+    headline TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    WITH query AS (
+        SELECT public.to_prefix_tsquery(_query) AS tsquery
+    ),
+    matches AS (
+        SELECT t.*, ts_rank(s.document, query.tsquery) AS rank
+        FROM public.triage_results t
+        JOIN public.triage_search_index s ON s.triage_result_id = t.id
+        CROSS JOIN query
+        WHERE s.document @@ query.tsquery
+        ORDER BY rank DESC, t.created_at DESC
+        LIMIT LEAST(GREATEST(_limit, 1), 50)
+    )
+    -- Headlines are costly, so they are built for the returned rows only
+    SELECT
+        m.id,
+        m.user_id,
+        COALESCE(p.full_name, p.email),
+        m.urgency,
+        m.queue_status,
+        m.created_at,
+        m.rank,
+        ts_headline(
+            'english',
+            concat_ws(' · ', array_to_string(i.symptoms, ', '), i.additional_notes, m.clinician_notes,
+                      public.chat_transcript(c.messages)),
+            query.tsquery,
+            'MaxWords=18, MinWords=6, MaxFragments=1, StartSel=<<, StopSel=>>'
+        )
+    FROM matches m
+    CROSS JOIN query
+    LEFT JOIN public.profiles p ON p.user_id = m.user_id
+    LEFT JOIN public.patient_intake i ON i.id = m.intake_id
+    LEFT JOIN public.chat_sessions c ON c.id = m.chat_session_id
+    ORDER BY m.rank DESC, m.created_at DESC
+$$;
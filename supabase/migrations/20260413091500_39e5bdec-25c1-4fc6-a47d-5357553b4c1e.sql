@@ -0,0 +1,197 @@
+-- Alerts are raised by the database as triage events happen, so every client
+-- and edge function gets them without having to remember to insert them.
+CREATE TYPE public.alert_type AS ENUM (
+    'high_urgency',
+    'emergency_keyword',
+    'wait_time_breach',
+    'urgency_downgrade'
+);
+
+-- Nothing has inserted alerts until now; an unknown type fails the cast
+-- rather than being silently relabelled
+ALTER TABLE public.alerts
+    ALTER COLUMN alert_type TYPE public.alert_type USING alert_type::public.alert_type,
+    ADD COLUMN chat_session_id UUID REFERENCES public.chat_sessions(id) ON DELETE CASCADE;
+
+-- Each of these is raised once: per result, or per chat for emergencies
+CREATE UNIQUE INDEX alerts_once_per_result_idx
+    ON public.alerts (triage_result_id, alert_type)
+    WHERE alert_type IN ('high_urgency', 'wait_time_breach');
+
+CREATE UNIQUE INDEX alerts_emergency_once_per_chat_idx
+    ON public.alerts (chat_session_id)
+    WHERE alert_type = 'emergency_keyword';
+
+CREATE OR REPLACE FUNCTION public.patient_label(_user_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT COALESCE(
+        (SELECT COALESCE(full_name, email) FROM public.profiles WHERE user_id = _user_id),
+        'Anonymous patient'
+    )
+$$;
+
+-- Kept in sync with EMERGENCY_KEYWORDS in supabase/functions/_shared/triageEngine.ts
+CREATE OR REPLACE FUNCTION public.find_emergency_keywords(_text TEXT)
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+    SELECT COALESCE(array_agg(keyword ORDER BY ordinality), '{}')
+    FROM unnest(ARRAY[
+        'chest pain', 'can''t breathe', 'difficulty breathing', 'severe bleeding',
+        'unconscious', 'stroke', 'heart attack', 'seizure', 'overdose',
+        'suicidal', 'suicide', 'severe pain', 'numbness', 'paralysis'
+    ]) WITH ORDINALITY AS keywords(keyword, ordinality)
+    WHERE strpos(lower(_text), keyword) > 0
+$$;
+
+-- Alert triggers run as the owner: the patient's own writes raise them, and
+-- patients cannot insert alerts
+CREATE OR REPLACE FUNCTION public.raise_triage_result_alerts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.urgency = 'high' THEN
+            INSERT INTO public.alerts (user_id, triage_result_id, chat_session_id, alert_type, message)
+            VALUES (
+                NEW.user_id, NEW.id, NEW.chat_session_id, 'high_urgency',
+                format('%s was triaged as high urgency.', public.patient_label(NEW.user_id))
+            )
+            ON CONFLICT (triage_result_id, alert_type)
+                WHERE alert_type IN ('high_urgency', 'wait_time_breach') DO NOTHING;
+        END IF;
+
+        -- Emergencies raised during the chat now have a result to point at
+        IF NEW.chat_session_id IS NOT NULL THEN
+            UPDATE public.alerts
+            SET triage_result_id = NEW.id
+            WHERE chat_session_id = NEW.chat_session_id
+              AND triage_result_id IS NULL;
+        END IF;
+
+        RETURN NULL;
+    END IF;
+
+    -- urgency_level sorts low < medium < high
+    IF NEW.urgency < OLD.urgency THEN
+        INSERT INTO public.alerts (user_id, triage_result_id, chat_session_id, alert_type, message)
+        VALUES (
+            NEW.user_id, NEW.id, NEW.chat_session_id, 'urgency_downgrade',
+            format('%s was downgraded from %s to %s urgency by %s.',
+                   public.patient_label(NEW.user_id), OLD.urgency, NEW.urgency,
+                   COALESCE((SELECT COALESCE(full_name, email) FROM public.profiles WHERE user_id = NEW.reviewed_by),
+                            'a clinician'))
+        );
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER raise_alerts_on_triage_result_insert
+    AFTER INSERT ON public.triage_results
+    FOR EACH ROW EXECUTE FUNCTION public.raise_triage_result_alerts();
+
+CREATE TRIGGER raise_alerts_on_urgency_change
+    AFTER UPDATE OF urgency ON public.triage_results
+    FOR EACH ROW EXECUTE FUNCTION public.raise_triage_result_alerts();
+
+-- Checks only the patient's newly appended messages; the client's own
+-- is_emergency flag is not trusted
+CREATE OR REPLACE FUNCTION public.raise_emergency_keyword_alert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _keywords TEXT[];
+    _seen INTEGER := 0;
+BEGIN
+    IF jsonb_typeof(NEW.messages) IS DISTINCT FROM 'array' THEN
+        RETURN NULL;
+    END IF;
+
+    IF TG_OP = 'UPDATE' AND jsonb_typeof(OLD.messages) = 'array' THEN
+        _seen := jsonb_array_length(OLD.messages);
+    END IF;
+
+    SELECT public.find_emergency_keywords(string_agg(message->>'content', ' '))
+    INTO _keywords
+    FROM jsonb_array_elements(NEW.messages) WITH ORDINALITY AS messages(message, ordinality)
+    WHERE ordinality > _seen
+      AND message->>'role' = 'user';
+
+    IF cardinality(_keywords) > 0 THEN
+        INSERT INTO public.alerts (user_id, triage_result_id, chat_session_id, alert_type, message)
+        VALUES (
+            NEW.user_id,
+            (SELECT id FROM public.triage_results WHERE chat_session_id = NEW.id ORDER BY created_at DESC LIMIT 1),
+            NEW.id,
+            'emergency_keyword',
+            format('%s mentioned %s in the triage chat.',
+                   public.patient_label(NEW.user_id), array_to_string(_keywords, ', '))
+        )
+        ON CONFLICT (chat_session_id) WHERE alert_type = 'emergency_keyword' DO NOTHING;
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER raise_alert_on_emergency_keyword
+    AFTER INSERT OR UPDATE OF messages ON public.chat_sessions
+    FOR EACH ROW EXECUTE FUNCTION public.raise_emergency_keyword_alert();
+
+-- Patients still waiting to be seen past the max wait for their urgency.
+-- Wait is measured as in getWaitMinutes in src/lib/queueStatus.ts.
+CREATE OR REPLACE FUNCTION public.raise_wait_time_alerts()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _raised INTEGER;
+BEGIN
+    INSERT INTO public.alerts (user_id, triage_result_id, chat_session_id, alert_type, message)
+    SELECT
+        t.user_id, t.id, t.chat_session_id, 'wait_time_breach',
+        format('%s has waited over %s minutes at %s urgency.',
+               public.patient_label(t.user_id), target.minutes, t.urgency)
+    FROM public.triage_results t
+    CROSS JOIN public.queue_settings s
+    CROSS JOIN LATERAL (
+        SELECT CASE t.urgency
+            WHEN 'high' THEN s.max_wait_high_minutes
+            WHEN 'medium' THEN s.max_wait_medium_minutes
+            ELSE s.max_wait_low_minutes
+        END AS minutes
+    ) AS target
+    WHERE t.queue_status IN ('waiting', 'in_review')
+      AND t.called_at IS NULL
+      AND t.consultation_started_at IS NULL
+      AND t.left_at IS NULL
+      AND t.created_at < now() - make_interval(mins => target.minutes)
+    ON CONFLICT (triage_result_id, alert_type)
+        WHERE alert_type IN ('high_urgency', 'wait_time_breach') DO NOTHING;
+
+    GET DIAGNOSTICS _raised = ROW_COUNT;
+    RETURN _raised;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.raise_wait_time_alerts() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+SELECT cron.schedule('raise-wait-time-alerts', '* * * * *', 'SELECT public.raise_wait_time_alerts()');
@@ -0,0 +1,208 @@
+-- Alert ownership. Read state is per user, acknowledging an alert records
+-- who took it on, unacknowledged high-severity alerts escalate to admins,
+-- and every step is written to alert_events.
+CREATE TYPE public.alert_severity AS ENUM ('normal', 'high', 'critical');
+
+ALTER TABLE public.alerts
+    ADD COLUMN severity public.alert_severity NOT NULL DEFAULT 'normal',
+    ADD COLUMN acknowledged_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    ADD COLUMN acknowledged_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN escalated_at TIMESTAMP WITH TIME ZONE;
+
+-- The shared flag cannot be attributed to anyone, so it is not carried over
+ALTER TABLE public.alerts DROP COLUMN is_read;
+
+ALTER TABLE public.queue_settings
+    ADD COLUMN alert_escalation_minutes INTEGER NOT NULL DEFAULT 10
+        CHECK (alert_escalation_minutes BETWEEN 1 AND 1440);
+
+CREATE TABLE public.alert_reads (
+    alert_id UUID NOT NULL REFERENCES public.alerts(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    read_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    PRIMARY KEY (alert_id, user_id)
+);
+
+CREATE INDEX alert_reads_user_id_idx ON public.alert_reads (user_id);
+
+ALTER TABLE public.alert_reads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own alert reads"
+ON public.alert_reads FOR SELECT
+USING (auth.uid() = user_id);
+
+-- The alert lookup runs under the caller's policies, so only visible alerts can be read
+CREATE POLICY "Users can mark visible alerts as read"
+ON public.alert_reads FOR INSERT
+WITH CHECK (auth.uid() = user_id AND EXISTS (SELECT 1 FROM public.alerts a WHERE a.id = alert_id));
+
+CREATE TABLE public.alert_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    alert_id UUID NOT NULL REFERENCES public.alerts(id) ON DELETE CASCADE,
+    event TEXT NOT NULL CHECK (event IN ('raised', 'read', 'acknowledged', 'escalated')),
+    actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX alert_events_alert_id_idx ON public.alert_events (alert_id, created_at);
+
+ALTER TABLE public.alert_events ENABLE ROW LEVEL SECURITY;
+
+-- Written by the triggers below only
+CREATE POLICY "Healthcare staff can view alert events"
+ON public.alert_events FOR SELECT
+USING (public.has_role(auth.uid(), 'healthcare_staff'));
+
+CREATE POLICY "Admins can view alert events"
+ON public.alert_events FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Admins are the second tier: they see alerts once they escalate
+CREATE POLICY "Admins can view escalated alerts"
+ON public.alerts FOR SELECT
+USING (public.has_role(auth.uid(), 'admin') AND escalated_at IS NOT NULL);
+
+CREATE POLICY "Admins can acknowledge escalated alerts"
+ON public.alerts FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin') AND escalated_at IS NOT NULL);
+
+-- Emergencies are critical; high-urgency patients, including one kept
+-- waiting too long, are high
+CREATE OR REPLACE FUNCTION public.alert_severity_for(_alert_type public.alert_type, _triage_result_id UUID)
+RETURNS public.alert_severity
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN _alert_type = 'emergency_keyword' THEN 'critical'
+        WHEN _alert_type = 'high_urgency' THEN 'high'
+        WHEN _alert_type = 'wait_time_breach'
+            AND (SELECT urgency FROM public.triage_results WHERE id = _triage_result_id) = 'high' THEN 'high'
+        ELSE 'normal'
+    END::public.alert_severity
+$$;
+
+UPDATE public.alerts SET severity = public.alert_severity_for(alert_type, triage_result_id);
+
+-- Severity is derived, and acknowledgement always belongs to the caller.
+-- Escalation is only ever set by the scheduled job, which has no auth.uid().
+CREATE OR REPLACE FUNCTION public.stamp_alert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        NEW.severity := public.alert_severity_for(NEW.alert_type, NEW.triage_result_id);
+        NEW.acknowledged_by := NULL;
+        NEW.acknowledged_at := NULL;
+        NEW.escalated_at := NULL;
+        RETURN NEW;
+    END IF;
+
+    NEW.severity := OLD.severity;
+
+    IF OLD.acknowledged_at IS NOT NULL THEN
+        NEW.acknowledged_by := OLD.acknowledged_by;
+        NEW.acknowledged_at := OLD.acknowledged_at;
+    ELSIF NEW.acknowledged_at IS NOT NULL THEN
+        NEW.acknowledged_by := auth.uid();
+        NEW.acknowledged_at := now();
+    ELSE
+        NEW.acknowledged_by := NULL;
+    END IF;
+
+    IF auth.uid() IS NOT NULL THEN
+        NEW.escalated_at := OLD.escalated_at;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_alerts
+    BEFORE INSERT OR UPDATE ON public.alerts
+    FOR EACH ROW EXECUTE FUNCTION public.stamp_alert();
+
+CREATE OR REPLACE FUNCTION public.log_alert_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_TABLE_NAME = 'alert_reads' THEN
+        INSERT INTO public.alert_events (alert_id, event, actor_id, created_at)
+        VALUES (NEW.alert_id, 'read', NEW.user_id, NEW.read_at);
+        RETURN NULL;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        INSERT INTO public.alert_events (alert_id, event, created_at)
+        VALUES (NEW.id, 'raised', NEW.created_at);
+        RETURN NULL;
+    END IF;
+
+    IF OLD.escalated_at IS NULL AND NEW.escalated_at IS NOT NULL THEN
+        INSERT INTO public.alert_events (alert_id, event, created_at)
+        VALUES (NEW.id, 'escalated', NEW.escalated_at);
+    END IF;
+
+    IF OLD.acknowledged_at IS NULL AND NEW.acknowledged_at IS NOT NULL THEN
+        INSERT INTO public.alert_events (alert_id, event, actor_id, created_at)
+        VALUES (NEW.id, 'acknowledged', NEW.acknowledged_by, NEW.acknowledged_at);
+
+        -- Acknowledging an alert also reads it
+        INSERT INTO public.alert_reads (alert_id, user_id, read_at)
+        VALUES (NEW.id, NEW.acknowledged_by, NEW.acknowledged_at)
+        ON CONFLICT (alert_id, user_id) DO NOTHING;
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER log_alerts_raised
+    AFTER INSERT ON public.alerts
+    FOR EACH ROW EXECUTE FUNCTION public.log_alert_event();
+
+CREATE TRIGGER log_alerts_ownership
+    AFTER UPDATE OF acknowledged_at, escalated_at ON public.alerts
+    FOR EACH ROW EXECUTE FUNCTION public.log_alert_event();
+
+CREATE TRIGGER log_alert_reads
+    AFTER INSERT ON public.alert_reads
+    FOR EACH ROW EXECUTE FUNCTION public.log_alert_event();
+
+INSERT INTO public.alert_events (alert_id, event, created_at)
+SELECT id, 'raised', created_at FROM public.alerts;
+
+CREATE OR REPLACE FUNCTION public.escalate_unacknowledged_alerts()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _escalated INTEGER;
+BEGIN
+    UPDATE public.alerts
+    SET escalated_at = now()
+    WHERE severity IN ('high', 'critical')
+      AND acknowledged_at IS NULL
+      AND escalated_at IS NULL
+      AND created_at < now() - make_interval(mins => (SELECT alert_escalation_minutes FROM public.queue_settings));
+
+    GET DIAGNOSTICS _escalated = ROW_COUNT;
+    RETURN _escalated;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.escalate_unacknowledged_alerts() FROM PUBLIC, anon, authenticated;
+
+CREATE INDEX alerts_unacknowledged_idx
+    ON public.alerts (created_at)
+    WHERE acknowledged_at IS NULL AND escalated_at IS NULL;
+
+SELECT cron.schedule('escalate-unacknowledged-alerts', '* * * * *', 'SELECT public.escalate_unacknowledged_alerts()');
@@ -0,0 +1,32 @@
+-- Per-user browser notification settings. Notifications are opt-in; quiet
+-- hours are wall-clock times in the user's own time zone.
+CREATE TABLE public.notification_preferences (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    enabled BOOLEAN NOT NULL DEFAULT false,
+    sound BOOLEAN NOT NULL DEFAULT true,
+    urgencies urgency_level[] NOT NULL DEFAULT ARRAY['high']::urgency_level[],
+    critical_alerts BOOLEAN NOT NULL DEFAULT true,
+    quiet_hours_start TIME,
+    quiet_hours_end TIME,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT notification_preferences_quiet_hours_check
+        CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL))
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notification preferences"
+ON public.notification_preferences FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own notification preferences"
+ON public.notification_preferences FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notification preferences"
+ON public.notification_preferences FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_notification_preferences_updated_at
+    BEFORE UPDATE ON public.notification_preferences
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,46 @@
+-- One row of settings per user. The shape is validated by the client
+-- (src/lib/preferences.ts), which falls back to a default for any missing or
+-- unrecognised value, so new settings need no migration.
+CREATE TABLE public.user_preferences (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    preferences JSONB NOT NULL DEFAULT '{}'::jsonb,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT user_preferences_object_check CHECK (jsonb_typeof(preferences) = 'object')
+);
+
+ALTER TABLE public.user_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own preferences"
+ON public.user_preferences FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own preferences"
+ON public.user_preferences FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own preferences"
+ON public.user_preferences FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_user_preferences_updated_at
+    BEFORE UPDATE ON public.user_preferences
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Notification settings move into the preferences document
+INSERT INTO public.user_preferences (user_id, preferences)
+SELECT
+    user_id,
+    jsonb_build_object(
+        'notifications',
+        jsonb_build_object(
+            'enabled', enabled,
+            'sound', sound,
+            'urgencies', to_jsonb(urgencies),
+            'critical_alerts', critical_alerts,
+            'quiet_hours_start', to_char(quiet_hours_start, 'HH24:MI'),
+            'quiet_hours_end', to_char(quiet_hours_end, 'HH24:MI')
+        )
+    )
+FROM public.notification_preferences;
+
+DROP TABLE public.notification_preferences;
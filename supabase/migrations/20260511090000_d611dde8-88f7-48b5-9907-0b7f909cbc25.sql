@@ -0,0 +1,228 @@
+-- Data retention. Each patient data table has a retention period after which
+-- a nightly job deletes its rows, or for triage results may instead strip
+-- everything that identifies the patient and keep the case for analytics.
+-- Cases still in the queue, and the intake and chat they came from, are
+-- never purged.
+CREATE TYPE public.retention_action AS ENUM ('delete', 'anonymise');
+
+CREATE TABLE public.retention_policies (
+    table_name TEXT PRIMARY KEY
+        CHECK (table_name IN ('chat_sessions', 'patient_intake', 'triage_results', 'alerts')),
+    -- NULL keeps rows indefinitely
+    retention_days INTEGER CHECK (retention_days BETWEEN 1 AND 3650),
+    action retention_action NOT NULL DEFAULT 'delete',
+    updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT retention_policies_action_check
+        CHECK (action = 'delete' OR table_name = 'triage_results')
+);
+
+INSERT INTO public.retention_policies (table_name, retention_days, action) VALUES
+    ('chat_sessions', 30, 'delete'),
+    ('patient_intake', 90, 'delete'),
+    ('triage_results', 365, 'anonymise'),
+    ('alerts', 90, 'delete');
+
+ALTER TABLE public.retention_policies ENABLE ROW LEVEL SECURITY;
+
+-- Patients are told how long their data is kept
+CREATE POLICY "Signed-in users can view retention policies"
+ON public.retention_policies FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can update retention policies"
+ON public.retention_policies FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_retention_policies_updated_at
+    BEFORE UPDATE ON public.retention_policies
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Anonymised results keep their urgency, status and timestamps but no patient
+ALTER TABLE public.triage_results ALTER COLUMN user_id DROP NOT NULL;
+
+-- Server jobs run without a user, so clearing notes must not count as a review
+CREATE OR REPLACE FUNCTION public.stamp_triage_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        NEW.machine_urgency := NEW.urgency;
+        NEW.reviewed_by := NULL;
+        NEW.reviewed_at := NULL;
+        RETURN NEW;
+    END IF;
+
+    NEW.machine_urgency := OLD.machine_urgency;
+
+    IF auth.uid() IS NOT NULL AND (
+        NEW.urgency IS DISTINCT FROM OLD.urgency
+        OR NEW.clinician_notes IS DISTINCT FROM OLD.clinician_notes
+        OR NEW.disposition IS DISTINCT FROM OLD.disposition
+        OR NEW.reviewed_at IS DISTINCT FROM OLD.reviewed_at
+    ) THEN
+        NEW.reviewed_by := auth.uid();
+        NEW.reviewed_at := now();
+    ELSE
+        NEW.reviewed_by := OLD.reviewed_by;
+        NEW.reviewed_at := OLD.reviewed_at;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_closed_queue_status(_status TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+    SELECT _status IN ('completed', 'left_without_being_seen')
+$$;
+
+-- Deletes one patient's closed cases created before _before, then the intake
+-- forms and chats no open case still needs. Alerts and search documents go
+-- with their results through their foreign keys.
+CREATE OR REPLACE FUNCTION public.purge_user_records(_user_id UUID, _before TIMESTAMP WITH TIME ZONE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _count INTEGER;
+    _purged INTEGER := 0;
+BEGIN
+    DELETE FROM public.triage_results
+    WHERE user_id = _user_id
+      AND created_at < _before
+      AND public.is_closed_queue_status(queue_status);
+    GET DIAGNOSTICS _count = ROW_COUNT;
+    _purged := _purged + _count;
+
+    DELETE FROM public.patient_intake i
+    WHERE i.user_id = _user_id
+      AND i.created_at < _before
+      AND NOT EXISTS (SELECT 1 FROM public.triage_results t WHERE t.intake_id = i.id);
+    GET DIAGNOSTICS _count = ROW_COUNT;
+    _purged := _purged + _count;
+
+    DELETE FROM public.chat_sessions c
+    WHERE c.user_id = _user_id
+      AND c.created_at < _before
+      AND NOT EXISTS (SELECT 1 FROM public.triage_results t WHERE t.chat_session_id = c.id);
+    GET DIAGNOSTICS _count = ROW_COUNT;
+    _purged := _purged + _count;
+
+    RETURN _purged;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_user_records(UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- Called at sign-out. Does nothing unless the caller chose session-based data.
+CREATE OR REPLACE FUNCTION public.purge_my_session_data()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not signed in' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.user_preferences
+        WHERE user_id = auth.uid() AND preferences->'session_data' = 'true'::jsonb
+    ) THEN
+        RETURN 0;
+    END IF;
+
+    RETURN public.purge_user_records(auth.uid(), now());
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.purge_expired_data()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _policy public.retention_policies%ROWTYPE;
+    _cutoff TIMESTAMP WITH TIME ZONE;
+    _count INTEGER;
+    _purged INTEGER := 0;
+BEGIN
+    FOR _policy IN
+        SELECT * FROM public.retention_policies WHERE retention_days IS NOT NULL
+    LOOP
+        _cutoff := now() - make_interval(days => _policy.retention_days);
+
+        CASE _policy.table_name
+            WHEN 'alerts' THEN
+                DELETE FROM public.alerts WHERE created_at < _cutoff;
+            WHEN 'triage_results' THEN
+                IF _policy.action = 'anonymise' THEN
+                    -- Alert messages name the patient
+                    DELETE FROM public.alerts a
+                    USING public.triage_results t
+                    WHERE a.triage_result_id = t.id
+                      AND t.user_id IS NOT NULL
+                      AND t.created_at < _cutoff
+                      AND public.is_closed_queue_status(t.queue_status);
+
+                    UPDATE public.triage_results
+                    SET user_id = NULL,
+                        intake_id = NULL,
+                        chat_session_id = NULL,
+                        recommended_action = NULL,
+                        clinician_notes = NULL
+                    WHERE user_id IS NOT NULL
+                      AND created_at < _cutoff
+                      AND public.is_closed_queue_status(queue_status);
+                ELSE
+                    DELETE FROM public.triage_results
+                    WHERE created_at < _cutoff
+                      AND public.is_closed_queue_status(queue_status);
+                END IF;
+            WHEN 'patient_intake' THEN
+                DELETE FROM public.patient_intake i
+                WHERE i.created_at < _cutoff
+                  AND NOT EXISTS (
+                      SELECT 1 FROM public.triage_results t
+                      WHERE t.intake_id = i.id AND NOT public.is_closed_queue_status(t.queue_status)
+                  );
+            WHEN 'chat_sessions' THEN
+                DELETE FROM public.chat_sessions c
+                WHERE c.updated_at < _cutoff
+                  AND NOT EXISTS (
+                      SELECT 1 FROM public.triage_results t
+                      WHERE t.chat_session_id = c.id AND NOT public.is_closed_queue_status(t.queue_status)
+                  );
+        END CASE;
+
+        GET DIAGNOSTICS _count = ROW_COUNT;
+        _purged := _purged + _count;
+    END LOOP;
+
+    -- Session-based data is purged at sign-out; this catches patients who
+    -- closed the browser instead, and cases that were still open then
+    SELECT _purged + COALESCE(sum(public.purge_user_records(p.user_id, now() - interval '1 day')), 0)
+    INTO _purged
+    FROM public.user_preferences p
+    WHERE p.preferences->'session_data' = 'true'::jsonb;
+
+    RETURN _purged;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_expired_data() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('purge-expired-data', '0 3 * * *', 'SELECT public.purge_expired_data()');
@@ -0,0 +1,164 @@
+-- Account deletion. Patients lose every record about them; clinicians' names
+-- are cleared from the cases and alerts they worked on, which stay.
+
+-- Deleting a clinician clears reviewed_by and acknowledged_by through their
+-- foreign keys. Those updates come from the foreign key's own trigger, so
+-- the stamps let nested updates clear the column but still pin it for clients.
+CREATE OR REPLACE FUNCTION public.stamp_triage_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        NEW.machine_urgency := NEW.urgency;
+        NEW.reviewed_by := NULL;
+        NEW.reviewed_at := NULL;
+        RETURN NEW;
+    END IF;
+
+    NEW.machine_urgency := OLD.machine_urgency;
+
+    IF auth.uid() IS NOT NULL AND (
+        NEW.urgency IS DISTINCT FROM OLD.urgency
+        OR NEW.clinician_notes IS DISTINCT FROM OLD.clinician_notes
+        OR NEW.disposition IS DISTINCT FROM OLD.disposition
+        OR NEW.reviewed_at IS DISTINCT FROM OLD.reviewed_at
+    ) THEN
+        NEW.reviewed_by := auth.uid();
+        NEW.reviewed_at := now();
+    ELSE
+        IF NEW.reviewed_by IS NOT NULL OR pg_trigger_depth() = 1 THEN
+            NEW.reviewed_by := OLD.reviewed_by;
+        END IF;
+        NEW.reviewed_at := OLD.reviewed_at;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.stamp_alert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        NEW.severity := public.alert_severity_for(NEW.alert_type, NEW.triage_result_id);
+        NEW.acknowledged_by := NULL;
+        NEW.acknowledged_at := NULL;
+        NEW.escalated_at := NULL;
+        RETURN NEW;
+    END IF;
+
+    NEW.severity := OLD.severity;
+
+    IF OLD.acknowledged_at IS NOT NULL THEN
+        IF NEW.acknowledged_by IS NOT NULL OR pg_trigger_depth() = 1 THEN
+            NEW.acknowledged_by := OLD.acknowledged_by;
+        END IF;
+        NEW.acknowledged_at := OLD.acknowledged_at;
+    ELSIF NEW.acknowledged_at IS NOT NULL THEN
+        NEW.acknowledged_by := auth.uid();
+        NEW.acknowledged_at := now();
+    ELSE
+        NEW.acknowledged_by := NULL;
+    END IF;
+
+    IF auth.uid() IS NOT NULL THEN
+        NEW.escalated_at := OLD.escalated_at;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Deletes the caller's account and reports what went. Children are deleted
+-- before their parents; the clinician references are counted first and then
+-- cleared by their foreign keys when the auth user goes.
+CREATE OR REPLACE FUNCTION public.delete_my_account()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _anonymised JSONB;
+    _alerts INTEGER;
+    _alert_reads INTEGER;
+    _triage_results INTEGER;
+    _intakes INTEGER;
+    _chat_sessions INTEGER;
+    _preferences INTEGER;
+    _roles INTEGER;
+    _profiles INTEGER;
+BEGIN
+    IF _user_id IS NULL THEN
+        RAISE EXCEPTION 'Not signed in' USING ERRCODE = '42501';
+    END IF;
+
+    IF public.has_role(_user_id, 'admin') AND NOT EXISTS (
+        SELECT 1 FROM public.user_roles
+        WHERE role = 'admin' AND status = 'approved' AND user_id <> _user_id
+    ) THEN
+        RAISE EXCEPTION 'Approve another administrator before deleting the only admin account'
+            USING ERRCODE = 'P0001';
+    END IF;
+
+    _anonymised := jsonb_build_object(
+        'reviewed_cases', (SELECT count(*) FROM public.triage_results WHERE reviewed_by = _user_id),
+        'assigned_cases', (SELECT count(*) FROM public.triage_results WHERE assigned_to = _user_id),
+        'acknowledged_alerts', (SELECT count(*) FROM public.alerts WHERE acknowledged_by = _user_id),
+        'alert_events', (SELECT count(*) FROM public.alert_events WHERE actor_id = _user_id),
+        'staff_invitations', (SELECT count(*) FROM public.staff_invitations
+                              WHERE created_by = _user_id OR used_by = _user_id)
+    );
+
+    DELETE FROM public.alert_reads WHERE user_id = _user_id;
+    GET DIAGNOSTICS _alert_reads = ROW_COUNT;
+
+    -- Before the results, which would otherwise take them without a count
+    DELETE FROM public.alerts WHERE user_id = _user_id;
+    GET DIAGNOSTICS _alerts = ROW_COUNT;
+
+    DELETE FROM public.triage_results WHERE user_id = _user_id;
+    GET DIAGNOSTICS _triage_results = ROW_COUNT;
+
+    DELETE FROM public.patient_intake WHERE user_id = _user_id;
+    GET DIAGNOSTICS _intakes = ROW_COUNT;
+
+    DELETE FROM public.chat_sessions WHERE user_id = _user_id;
+    GET DIAGNOSTICS _chat_sessions = ROW_COUNT;
+
+    DELETE FROM public.user_preferences WHERE user_id = _user_id;
+    GET DIAGNOSTICS _preferences = ROW_COUNT;
+
+    DELETE FROM public.user_roles WHERE user_id = _user_id;
+    GET DIAGNOSTICS _roles = ROW_COUNT;
+
+    DELETE FROM public.profiles WHERE user_id = _user_id;
+    GET DIAGNOSTICS _profiles = ROW_COUNT;
+
+    DELETE FROM auth.users WHERE id = _user_id;
+
+    RETURN jsonb_build_object(
+        'deleted', jsonb_build_object(
+            'chat_sessions', _chat_sessions,
+            'patient_intake', _intakes,
+            'triage_results', _triage_results,
+            'alerts', _alerts,
+            'alert_reads', _alert_reads,
+            'user_preferences', _preferences,
+            'user_roles', _roles,
+            'profiles', _profiles
+        ),
+        'anonymised', _anonymised,
+        'deleted_at', now()
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.delete_my_account() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.delete_my_account() TO authenticated;
@@ -0,0 +1,63 @@
+-- Deactivated accounts lose API access, not just the app's pages. Staff and
+-- admin policies already go through has_role(), which only counts approved
+-- roles; the tables users reach through their own user_id get a restrictive
+-- policy on top. Their own role stays readable so the app can tell them why.
+CREATE OR REPLACE FUNCTION public.is_account_active(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT NOT EXISTS (
+        SELECT 1
+        FROM public.user_roles
+        WHERE user_id = _user_id
+          AND status = 'revoked'
+    )
+$$;
+
+CREATE POLICY "Deactivated accounts have no access"
+ON public.profiles AS RESTRICTIVE FOR ALL
+USING (public.is_account_active(auth.uid()))
+WITH CHECK (public.is_account_active(auth.uid()));
+
+CREATE POLICY "Deactivated accounts have no access"
+ON public.chat_sessions AS RESTRICTIVE FOR ALL
+USING (public.is_account_active(auth.uid()))
+WITH CHECK (public.is_account_active(auth.uid()));
+
+CREATE POLICY "Deactivated accounts have no access"
+ON public.patient_intake AS RESTRICTIVE FOR ALL
+USING (public.is_account_active(auth.uid()))
+WITH CHECK (public.is_account_active(auth.uid()));
+
+CREATE POLICY "Deactivated accounts have no access"
+ON public.triage_results AS RESTRICTIVE FOR ALL
+USING (public.is_account_active(auth.uid()))
+WITH CHECK (public.is_account_active(auth.uid()));
+
+CREATE POLICY "Deactivated accounts have no access"
+ON public.alerts AS RESTRICTIVE FOR ALL
+USING (public.is_account_active(auth.uid()))
+WITH CHECK (public.is_account_active(auth.uid()));
+
+CREATE POLICY "Deactivated accounts have no access"
+ON public.alert_reads AS RESTRICTIVE FOR ALL
+USING (public.is_account_active(auth.uid()))
+WITH CHECK (public.is_account_active(auth.uid()));
+
+CREATE POLICY "Deactivated accounts have no access"
+ON public.alert_events AS RESTRICTIVE FOR ALL
+USING (public.is_account_active(auth.uid()))
+WITH CHECK (public.is_account_active(auth.uid()));
+
+CREATE POLICY "Deactivated accounts have no access"
+ON public.triage_search_index AS RESTRICTIVE FOR ALL
+USING (public.is_account_active(auth.uid()))
+WITH CHECK (public.is_account_active(auth.uid()));
+
+CREATE POLICY "Deactivated accounts have no access"
+ON public.user_preferences AS RESTRICTIVE FOR ALL
+USING (public.is_account_active(auth.uid()))
+WITH CHECK (public.is_account_active(auth.uid()));
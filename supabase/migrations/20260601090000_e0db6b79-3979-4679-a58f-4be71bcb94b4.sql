@@ -0,0 +1,116 @@
+-- Claims may only change through claim_triage_result, release_triage_result
+-- and reassign_triage_result. The staff UPDATE policy would otherwise let a
+-- client write assigned_to and claimed_at directly and skip their checks.
+-- The functions mark their own updates with a transaction-local setting.
+CREATE OR REPLACE FUNCTION public.guard_triage_claim()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.assigned_to IS NOT DISTINCT FROM OLD.assigned_to
+       AND NEW.claimed_at IS NOT DISTINCT FROM OLD.claimed_at THEN
+        RETURN NEW;
+    END IF;
+
+    -- Server jobs, foreign keys clearing a deleted clinician, and closing a
+    -- case (which drops its owner) are not claims
+    IF auth.uid() IS NULL
+       OR pg_trigger_depth() > 1
+       OR current_setting('app.claim_change', true) = 'on'
+       OR (public.is_closed_queue_status(NEW.queue_status) AND NEW.assigned_to IS NULL AND NEW.claimed_at IS NULL) THEN
+        RETURN NEW;
+    END IF;
+
+    RAISE EXCEPTION 'Cases can only be claimed, released or reassigned through the queue'
+        USING ERRCODE = '42501';
+END;
+$$;
+
+-- Named to run after apply_triage_results_queue_transition, which clears the
+-- claim on closed cases
+CREATE TRIGGER guard_triage_results_claim
+    BEFORE UPDATE OF assigned_to, claimed_at, queue_status ON public.triage_results
+    FOR EACH ROW EXECUTE FUNCTION public.guard_triage_claim();
+
+CREATE OR REPLACE FUNCTION public.claim_triage_result(_triage_result_id UUID)
+RETURNS public.triage_results
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    _result public.triage_results;
+BEGIN
+    PERFORM set_config('app.claim_change', 'on', true);
+
+    UPDATE public.triage_results
+    SET assigned_to = auth.uid(), claimed_at = now()
+    WHERE id = _triage_result_id
+      AND (assigned_to IS NULL OR assigned_to = auth.uid() OR NOT public.is_claim_active(claimed_at))
+    RETURNING * INTO _result;
+
+    PERFORM set_config('app.claim_change', 'off', true);
+
+    IF _result.id IS NULL THEN
+        RAISE EXCEPTION 'Case is already claimed by someone else' USING ERRCODE = 'P0001';
+    END IF;
+
+    RETURN _result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.release_triage_result(_triage_result_id UUID)
+RETURNS public.triage_results
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    _result public.triage_results;
+BEGIN
+    PERFORM set_config('app.claim_change', 'on', true);
+
+    UPDATE public.triage_results
+    SET assigned_to = NULL, claimed_at = NULL
+    WHERE id = _triage_result_id
+      AND (assigned_to IS NULL OR assigned_to = auth.uid() OR NOT public.is_claim_active(claimed_at))
+    RETURNING * INTO _result;
+
+    PERFORM set_config('app.claim_change', 'off', true);
+
+    IF _result.id IS NULL THEN
+        RAISE EXCEPTION 'Only the clinician holding this case can release it' USING ERRCODE = 'P0001';
+    END IF;
+
+    RETURN _result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reassign_triage_result(_triage_result_id UUID, _assignee UUID)
+RETURNS public.triage_results
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    _result public.triage_results;
+BEGIN
+    IF NOT public.has_role(_assignee, 'healthcare_staff') THEN
+        RAISE EXCEPTION 'Cases can only be assigned to approved healthcare staff' USING ERRCODE = 'P0001';
+    END IF;
+
+    PERFORM set_config('app.claim_change', 'on', true);
+
+    UPDATE public.triage_results
+    SET assigned_to = _assignee, claimed_at = now()
+    WHERE id = _triage_result_id
+      AND (assigned_to IS NULL OR assigned_to = auth.uid() OR NOT public.is_claim_active(claimed_at))
+    RETURNING * INTO _result;
+
+    PERFORM set_config('app.claim_change', 'off', true);
+
+    IF _result.id IS NULL THEN
+        RAISE EXCEPTION 'Only the clinician holding this case can reassign it' USING ERRCODE = 'P0001';
+    END IF;
+
+    RETURN _result;
+END;
+$$;
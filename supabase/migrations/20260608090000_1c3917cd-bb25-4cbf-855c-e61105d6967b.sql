@@ -0,0 +1,36 @@
+-- The queue is ranked by priority score on the server, so paging follows the
+-- score rather than urgency alone and a long wait can lift a patient onto
+-- the first page. Mirrors computePriorityScore in src/lib/priorityScore.ts.
+-- Taking the row as its only argument exposes it to PostgREST as a
+-- priority_score column that can be selected, filtered and ordered by.
+CREATE OR REPLACE FUNCTION public.priority_score(_result public.triage_results)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT round(
+        CASE _result.urgency
+            WHEN 'high' THEN s.urgency_points_high
+            WHEN 'medium' THEN s.urgency_points_medium
+            ELSE s.urgency_points_low
+        END
+        -- Minutes waited to be seen, against the patient's own urgency target
+        + s.wait_points * greatest(0, floor(extract(epoch FROM
+              COALESCE(_result.called_at, _result.consultation_started_at, _result.left_at, now())
+              - _result.created_at) / 60))
+          / CASE _result.urgency
+                WHEN 'high' THEN s.max_wait_high_minutes
+                WHEN 'medium' THEN s.max_wait_medium_minutes
+                ELSE s.max_wait_low_minutes
+            END
+        + CASE WHEN i.age >= 65 OR i.age < 2 THEN s.age_risk_points ELSE 0 END
+        + CASE WHEN EXISTS (
+              SELECT 1
+              FROM unnest(i.existing_conditions) AS condition
+              JOIN unnest(s.flagged_conditions) AS flagged ON lower(flagged) = lower(condition)
+          ) THEN s.flagged_condition_points ELSE 0 END
+    )::INTEGER
+    FROM public.queue_settings s
+    LEFT JOIN public.patient_intake i ON i.id = _result.intake_id
+$$;
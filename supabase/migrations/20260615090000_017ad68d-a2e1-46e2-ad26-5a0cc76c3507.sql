@@ -0,0 +1,31 @@
+-- Saves some of the caller's preferences and keeps the rest as stored. Each
+-- top-level key sent replaces the stored one, so a save made before the
+-- client has loaded the document cannot reset the settings it did not touch.
+CREATE OR REPLACE FUNCTION public.update_my_preferences(_changes JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    _preferences JSONB;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not signed in' USING ERRCODE = '42501';
+    END IF;
+
+    IF jsonb_typeof(_changes) IS DISTINCT FROM 'object' THEN
+        RAISE EXCEPTION 'Preferences must be an object' USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO public.user_preferences AS stored (user_id, preferences)
+    VALUES (auth.uid(), _changes)
+    ON CONFLICT (user_id) DO UPDATE
+    SET preferences = stored.preferences || EXCLUDED.preferences
+    RETURNING stored.preferences INTO _preferences;
+
+    RETURN _preferences;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.update_my_preferences(JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.update_my_preferences(JSONB) TO authenticated;
@@ -0,0 +1,144 @@
+-- Paging the queue on priority_score compared each cursor with scores worked
+-- out again at a later now(), and waiting raises scores, so patients were
+-- skipped or repeated at page boundaries. The queue is now ranked as of one
+-- moment: list_queue picks it for the first page and returns it, and the
+-- client carries it in the cursor to every page after.
+CREATE OR REPLACE FUNCTION public.priority_score_at(
+    _result public.triage_results,
+    _as_of TIMESTAMP WITH TIME ZONE
+)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT round(
+        CASE _result.urgency
+            WHEN 'high' THEN s.urgency_points_high
+            WHEN 'medium' THEN s.urgency_points_medium
+            ELSE s.urgency_points_low
+        END
+        -- Minutes waited to be seen, against the patient's own urgency target
+        + s.wait_points * greatest(0, floor(extract(epoch FROM
+              COALESCE(_result.called_at, _result.consultation_started_at, _result.left_at, _as_of)
+              - _result.created_at) / 60))
+          / CASE _result.urgency
+                WHEN 'high' THEN s.max_wait_high_minutes
+                WHEN 'medium' THEN s.max_wait_medium_minutes
+                ELSE s.max_wait_low_minutes
+            END
+        + CASE WHEN i.age >= 65 OR i.age < 2 THEN s.age_risk_points ELSE 0 END
+        + CASE WHEN EXISTS (
+              SELECT 1
+              FROM unnest(i.existing_conditions) AS condition
+              JOIN unnest(s.flagged_conditions) AS flagged ON lower(flagged) = lower(condition)
+          ) THEN s.flagged_condition_points ELSE 0 END
+    )::INTEGER
+    FROM public.queue_settings s
+    LEFT JOIN public.patient_intake i ON i.id = _result.intake_id
+$$;
+
+-- Still read as a column by realtime catch-up, which shows the current score
+CREATE OR REPLACE FUNCTION public.priority_score(_result public.triage_results)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT public.priority_score_at(_result, now())
+$$;
+
+-- One page of the queue after the cursor, highest score first and then
+-- whoever arrived first. Scores cannot be indexed, so every call scores each
+-- row that passes the filters; the queue asks for active statuses, which
+-- triage_results_queue_status_idx keeps to the patients still waiting.
+-- _assigned_to is a user id or 'unassigned', and _search is to_tsquery text.
+CREATE OR REPLACE FUNCTION public.list_queue(
+    _as_of TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    _statuses TEXT[] DEFAULT NULL,
+    _urgency urgency_level DEFAULT NULL,
+    _assigned_to TEXT DEFAULT NULL,
+    _since TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    _before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    _search TEXT DEFAULT NULL,
+    _after_score INTEGER DEFAULT NULL,
+    _after_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    _after_id UUID DEFAULT NULL,
+    _limit INTEGER DEFAULT 26
+)
+RETURNS TABLE (
+    id UUID,
+    user_id UUID,
+    urgency urgency_level,
+    recommended_action TEXT,
+    assigned_to UUID,
+    claimed_at TIMESTAMP WITH TIME ZONE,
+    queue_status TEXT,
+    review_started_at TIMESTAMP WITH TIME ZONE,
+    called_at TIMESTAMP WITH TIME ZONE,
+    consultation_started_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    left_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE,
+    priority_score INTEGER,
+    ranked_at TIMESTAMP WITH TIME ZONE,
+    intake JSONB,
+    profile JSONB
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    WITH ranking AS (
+        SELECT COALESCE(_as_of, now()) AS as_of
+    ),
+    ranked AS (
+        SELECT t.*, public.priority_score_at(t, ranking.as_of) AS score, ranking.as_of
+        FROM public.triage_results t
+        CROSS JOIN ranking
+        WHERE (_statuses IS NULL OR t.queue_status = ANY (_statuses))
+          AND (_urgency IS NULL OR t.urgency = _urgency)
+          AND (_assigned_to IS NULL
+               OR (_assigned_to = 'unassigned' AND t.assigned_to IS NULL)
+               OR t.assigned_to::TEXT = _assigned_to)
+          AND (_since IS NULL OR t.created_at >= _since)
+          AND (_before IS NULL OR t.created_at < _before)
+          AND (_search IS NULL OR EXISTS (
+              SELECT 1 FROM public.triage_search_index s
+              WHERE s.triage_result_id = t.id
+                AND s.document @@ to_tsquery('english', _search)
+          ))
+    )
+    SELECT
+        r.id,
+        r.user_id,
+        r.urgency,
+        r.recommended_action,
+        r.assigned_to,
+        r.claimed_at,
+        r.queue_status,
+        r.review_started_at,
+        r.called_at,
+        r.consultation_started_at,
+        r.completed_at,
+        r.left_at,
+        r.created_at,
+        r.updated_at,
+        r.score,
+        r.as_of,
+        CASE WHEN i.id IS NOT NULL THEN
+            jsonb_build_object('age', i.age, 'existing_conditions', i.existing_conditions)
+        END,
+        CASE WHEN p.id IS NOT NULL THEN
+            jsonb_build_object('full_name', p.full_name, 'email', p.email)
+        END
+    FROM ranked r
+    LEFT JOIN public.patient_intake i ON i.id = r.intake_id
+    LEFT JOIN public.profiles p ON p.user_id = r.user_id
+    WHERE _after_id IS NULL
+       OR r.score < _after_score
+       OR (r.score = _after_score AND (r.created_at, r.id) > (_after_created_at, _after_id))
+    ORDER BY r.score DESC, r.created_at, r.id
+    LIMIT LEAST(GREATEST(_limit, 1), 101)
+$$;
@@ -0,0 +1,4 @@
+-- Alerts are raised for staff: their messages name the clinician who changed
+-- an urgency and quote emergency keywords from the patient's own chat. The
+-- patient is still the alert's user_id, but patients no longer read them.
+DROP POLICY "Users can view their own alerts" ON public.alerts;
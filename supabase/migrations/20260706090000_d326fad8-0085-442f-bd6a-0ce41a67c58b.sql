@@ -0,0 +1,41 @@
+-- Alerts are raised by triggers and escalated by the scheduled job, so staff
+-- no longer write to the table directly: the only change they make is to
+-- acknowledge an alert, through acknowledge_alert. Otherwise any staff member
+-- could raise critical alerts or rewrite the ones the audit trail describes.
+DROP POLICY "Healthcare staff can insert alerts" ON public.alerts;
+DROP POLICY "Healthcare staff can update alerts" ON public.alerts;
+DROP POLICY "Admins can acknowledge escalated alerts" ON public.alerts;
+
+-- Staff may acknowledge any alert, admins only those that have escalated to
+-- them. The caller and time are stamped by stamp_alert, which also keeps an
+-- earlier acknowledgement, so acknowledging twice returns the first one.
+CREATE OR REPLACE FUNCTION public.acknowledge_alert(_alert_id UUID)
+RETURNS public.alerts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _alert public.alerts;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not signed in' USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE public.alerts
+    SET acknowledged_at = now()
+    WHERE id = _alert_id
+      AND (public.has_role(auth.uid(), 'healthcare_staff')
+           OR (public.has_role(auth.uid(), 'admin') AND escalated_at IS NOT NULL))
+    RETURNING * INTO _alert;
+
+    IF _alert.id IS NULL THEN
+        RAISE EXCEPTION 'Alert not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    RETURN _alert;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.acknowledge_alert(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.acknowledge_alert(UUID) TO authenticated;
@@ -0,0 +1,131 @@
+-- The claim guard trusted a setting any session can write with set_config,
+-- and let through every nested update and every update that closed a case.
+-- The claim functions now run as the table's owner instead, and the guard
+-- only checks updates made as a client role, which a client cannot leave.
+-- Foreign keys clearing a deleted clinician and the server jobs run as the
+-- owner too.
+CREATE OR REPLACE FUNCTION public.guard_triage_claim()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.assigned_to IS NOT DISTINCT FROM OLD.assigned_to
+       AND NEW.claimed_at IS NOT DISTINCT FROM OLD.claimed_at THEN
+        RETURN NEW;
+    END IF;
+
+    IF current_user NOT IN ('anon', 'authenticated') THEN
+        RETURN NEW;
+    END IF;
+
+    -- Closing a case drops its claim, so only the clinician holding it, or
+    -- an admin, may close a case someone has claimed
+    IF public.is_closed_queue_status(NEW.queue_status)
+       AND NOT public.is_closed_queue_status(OLD.queue_status)
+       AND NEW.assigned_to IS NULL
+       AND NEW.claimed_at IS NULL
+       AND (OLD.assigned_to = auth.uid()
+            OR NOT public.is_claim_active(OLD.claimed_at)
+            OR public.has_role(auth.uid(), 'admin')) THEN
+        RETURN NEW;
+    END IF;
+
+    RAISE EXCEPTION 'Cases can only be claimed, released or reassigned through the queue'
+        USING ERRCODE = '42501';
+END;
+$$;
+
+-- Running as the owner skips the staff policies, so the functions check the
+-- caller's role themselves
+CREATE OR REPLACE FUNCTION public.claim_triage_result(_triage_result_id UUID)
+RETURNS public.triage_results
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _result public.triage_results;
+BEGIN
+    IF NOT public.has_role(auth.uid(), 'healthcare_staff') THEN
+        RAISE EXCEPTION 'Only approved healthcare staff can claim cases' USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE public.triage_results
+    SET assigned_to = auth.uid(), claimed_at = now()
+    WHERE id = _triage_result_id
+      AND (assigned_to IS NULL OR assigned_to = auth.uid() OR NOT public.is_claim_active(claimed_at))
+    RETURNING * INTO _result;
+
+    IF _result.id IS NULL THEN
+        RAISE EXCEPTION 'Case is already claimed by someone else' USING ERRCODE = 'P0001';
+    END IF;
+
+    RETURN _result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.release_triage_result(_triage_result_id UUID)
+RETURNS public.triage_results
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _result public.triage_results;
+BEGIN
+    IF NOT public.has_role(auth.uid(), 'healthcare_staff') THEN
+        RAISE EXCEPTION 'Only approved healthcare staff can release cases' USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE public.triage_results
+    SET assigned_to = NULL, claimed_at = NULL
+    WHERE id = _triage_result_id
+      AND (assigned_to IS NULL OR assigned_to = auth.uid() OR NOT public.is_claim_active(claimed_at))
+    RETURNING * INTO _result;
+
+    IF _result.id IS NULL THEN
+        RAISE EXCEPTION 'Only the clinician holding this case can release it' USING ERRCODE = 'P0001';
+    END IF;
+
+    RETURN _result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reassign_triage_result(_triage_result_id UUID, _assignee UUID)
+RETURNS public.triage_results
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _result public.triage_results;
+BEGIN
+    IF NOT public.has_role(auth.uid(), 'healthcare_staff') THEN
+        RAISE EXCEPTION 'Only approved healthcare staff can reassign cases' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT public.has_role(_assignee, 'healthcare_staff') THEN
+        RAISE EXCEPTION 'Cases can only be assigned to approved healthcare staff' USING ERRCODE = 'P0001';
+    END IF;
+
+    UPDATE public.triage_results
+    SET assigned_to = _assignee, claimed_at = now()
+    WHERE id = _triage_result_id
+      AND (assigned_to IS NULL OR assigned_to = auth.uid() OR NOT public.is_claim_active(claimed_at))
+    RETURNING * INTO _result;
+
+    IF _result.id IS NULL THEN
+        RAISE EXCEPTION 'Only the clinician holding this case can reassign it' USING ERRCODE = 'P0001';
+    END IF;
+
+    RETURN _result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_triage_result(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.release_triage_result(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.reassign_triage_result(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.claim_triage_result(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.release_triage_result(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reassign_triage_result(UUID, UUID) TO authenticated;
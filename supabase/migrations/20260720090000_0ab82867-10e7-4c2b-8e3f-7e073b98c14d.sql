@@ -0,0 +1,88 @@
+-- purge_expired_data read ROW_COUNT once, after the CASE, so it counted only
+-- the last statement a policy ran: the anonymised results but not the alerts
+-- deleted with them. Each statement now adds its own count.
+CREATE OR REPLACE FUNCTION public.purge_expired_data()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _policy public.retention_policies%ROWTYPE;
+    _cutoff TIMESTAMP WITH TIME ZONE;
+    _count INTEGER;
+    _purged INTEGER := 0;
+BEGIN
+    FOR _policy IN
+        SELECT * FROM public.retention_policies WHERE retention_days IS NOT NULL
+    LOOP
+        _cutoff := now() - make_interval(days => _policy.retention_days);
+
+        CASE _policy.table_name
+            WHEN 'alerts' THEN
+                DELETE FROM public.alerts WHERE created_at < _cutoff;
+                GET DIAGNOSTICS _count = ROW_COUNT;
+                _purged := _purged + _count;
+            WHEN 'triage_results' THEN
+                IF _policy.action = 'anonymise' THEN
+                    -- Alert messages name the patient
+                    DELETE FROM public.alerts a
+                    USING public.triage_results t
+                    WHERE a.triage_result_id = t.id
+                      AND t.user_id IS NOT NULL
+                      AND t.created_at < _cutoff
+                      AND public.is_closed_queue_status(t.queue_status);
+                    GET DIAGNOSTICS _count = ROW_COUNT;
+                    _purged := _purged + _count;
+
+                    UPDATE public.triage_results
+                    SET user_id = NULL,
+                        intake_id = NULL,
+                        chat_session_id = NULL,
+                        recommended_action = NULL,
+                        clinician_notes = NULL
+                    WHERE user_id IS NOT NULL
+                      AND created_at < _cutoff
+                      AND public.is_closed_queue_status(queue_status);
+                    GET DIAGNOSTICS _count = ROW_COUNT;
+                    _purged := _purged + _count;
+                ELSE
+                    DELETE FROM public.triage_results
+                    WHERE created_at < _cutoff
+                      AND public.is_closed_queue_status(queue_status);
+                    GET DIAGNOSTICS _count = ROW_COUNT;
+                    _purged := _purged + _count;
+                END IF;
+            WHEN 'patient_intake' THEN
+                DELETE FROM public.patient_intake i
+                WHERE i.created_at < _cutoff
+                  AND NOT EXISTS (
+                      SELECT 1 FROM public.triage_results t
+                      WHERE t.intake_id = i.id AND NOT public.is_closed_queue_status(t.queue_status)
+                  );
+                GET DIAGNOSTICS _count = ROW_COUNT;
+                _purged := _purged + _count;
+            WHEN 'chat_sessions' THEN
+                DELETE FROM public.chat_sessions c
+                WHERE c.updated_at < _cutoff
+                  AND NOT EXISTS (
+                      SELECT 1 FROM public.triage_results t
+                      WHERE t.chat_session_id = c.id AND NOT public.is_closed_queue_status(t.queue_status)
+                  );
+                GET DIAGNOSTICS _count = ROW_COUNT;
+                _purged := _purged + _count;
+        END CASE;
+    END LOOP;
+
+    -- Session-based data is purged at sign-out; this catches patients who
+    -- closed the browser instead, and cases that were still open then
+    SELECT _purged + COALESCE(sum(public.purge_user_records(p.user_id, now() - interval '1 day')), 0)
+    INTO _purged
+    FROM public.user_preferences p
+    WHERE p.preferences->'session_data' = 'true'::jsonb;
+
+    RETURN _purged;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_expired_data() FROM PUBLIC, anon, authenticated;
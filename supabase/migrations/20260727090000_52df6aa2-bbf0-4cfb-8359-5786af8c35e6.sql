@@ -0,0 +1,8 @@
+-- A client that retries a submission after losing the response sends the
+-- same submission_id again; triage-intake hands back the result it already
+-- wrote instead of recording the case twice.
+ALTER TABLE public.triage_results
+    ADD COLUMN submission_id UUID;
+
+CREATE UNIQUE INDEX triage_results_once_per_submission_idx
+    ON public.triage_results (user_id, submission_id);
@@ -0,0 +1,237 @@
+-- Account deletion: what the report counts, the order records go in, and the
+-- accounts that may not be deleted. Run with `supabase test db`.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(12);
+
+-- Fixtures are written with no signed-in user, as the server jobs are
+SELECT set_config('request.jwt.claims', '{}', true);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+    ('00000000-0000-0000-0000-00000000000a', 'patient@example.com', '{"full_name": "Pat Patient"}'),
+    ('00000000-0000-0000-0000-00000000000b', 'clinician@example.com',
+     '{"full_name": "Cal Clinician", "requested_role": "healthcare_staff"}'),
+    ('00000000-0000-0000-0000-00000000000c', 'admin@example.com', '{"full_name": "Ada Admin"}');
+
+UPDATE public.user_roles SET status = 'approved', approved_at = now()
+WHERE user_id = '00000000-0000-0000-0000-00000000000b';
+
+UPDATE public.user_roles SET role = 'admin'
+WHERE user_id = '00000000-0000-0000-0000-00000000000c';
+
+INSERT INTO public.chat_sessions (id, user_id, messages) VALUES
+    ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-00000000000a',
+     '[{"role": "user", "content": "I have chest pain"}]'),
+    ('00000000-0000-0000-0000-0000000000c2', '00000000-0000-0000-0000-00000000000a', '[]');
+
+INSERT INTO public.patient_intake (id, user_id, age, symptoms) VALUES
+    ('00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-00000000000a', 54, ARRAY['chest pain']);
+
+INSERT INTO public.triage_results (id, user_id, intake_id, chat_session_id, urgency) VALUES
+    ('00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-00000000000a',
+     '00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-0000000000c1', 'high');
+
+INSERT INTO public.user_preferences (user_id, preferences) VALUES
+    ('00000000-0000-0000-0000-00000000000a', '{"theme": "dark"}');
+
+-- The clinician claims the case, writes notes on it and acknowledges its alert
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000b"}', true);
+
+SELECT public.claim_triage_result('00000000-0000-0000-0000-0000000000e1');
+
+UPDATE public.triage_results SET clinician_notes = 'Sent to the emergency department'
+WHERE id = '00000000-0000-0000-0000-0000000000e1';
+
+SELECT public.acknowledge_alert(id) FROM public.alerts
+WHERE triage_result_id = '00000000-0000-0000-0000-0000000000e1' AND alert_type = 'high_urgency';
+
+-- Records the order rows are deleted in, by the table they leave
+CREATE SCHEMA tests;
+
+CREATE TABLE tests.deletion_log (
+    id SERIAL PRIMARY KEY,
+    table_name TEXT NOT NULL
+);
+
+CREATE FUNCTION tests.log_deletion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    INSERT INTO tests.deletion_log (table_name) VALUES (TG_TABLE_NAME);
+    RETURN OLD;
+END;
+$$;
+
+DO $$
+DECLARE
+    _table TEXT;
+BEGIN
+    FOREACH _table IN ARRAY ARRAY[
+        'alert_reads', 'alerts', 'triage_results', 'patient_intake',
+        'chat_sessions', 'user_preferences', 'user_roles', 'profiles'
+    ] LOOP
+        EXECUTE format(
+            'CREATE TRIGGER log_deletion AFTER DELETE ON public.%I FOR EACH ROW EXECUTE FUNCTION tests.log_deletion()',
+            _table
+        );
+    END LOOP;
+END;
+$$;
+
+-- Deleting the clinician
+
+SELECT set_config('tests.clinician_alert_events', (
+    SELECT count(*) FROM public.alert_events WHERE actor_id = '00000000-0000-0000-0000-00000000000b'
+)::text, true);
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('tests.report', public.delete_my_account()::text, true);
+RESET ROLE;
+
+SELECT is(
+    current_setting('tests.report')::jsonb -> 'anonymised',
+    jsonb_build_object(
+        'reviewed_cases', 1,
+        'assigned_cases', 1,
+        'acknowledged_alerts', 1,
+        'alert_events', current_setting('tests.clinician_alert_events')::integer,
+        'staff_invitations', 0
+    ),
+    'A clinician is told how many cases and alerts carried their name'
+);
+
+SELECT is(
+    current_setting('tests.report')::jsonb -> 'deleted',
+    '{"chat_sessions": 0, "patient_intake": 0, "triage_results": 0, "alerts": 0,
+      "alert_reads": 1, "user_preferences": 0, "user_roles": 1, "profiles": 1}'::jsonb,
+    'A clinician loses their own read marks, role and profile'
+);
+
+SELECT results_eq(
+    $$SELECT reviewed_by, assigned_to, clinician_notes FROM public.triage_results
+      WHERE id = '00000000-0000-0000-0000-0000000000e1'$$,
+    $$VALUES (NULL::uuid, NULL::uuid, 'Sent to the emergency department'::text)$$,
+    'The case a clinician worked on stays, without their name'
+);
+
+SELECT results_eq(
+    $$SELECT acknowledged_by, acknowledged_at IS NOT NULL FROM public.alerts
+      WHERE triage_result_id = '00000000-0000-0000-0000-0000000000e1' AND alert_type = 'high_urgency'$$,
+    $$VALUES (NULL::uuid, true)$$,
+    'An alert a clinician acknowledged stays acknowledged, without their name'
+);
+
+-- Deleting the patient
+
+SELECT set_config('tests.patient_deleted', jsonb_build_object(
+    'chat_sessions', 2,
+    'patient_intake', 1,
+    'triage_results', 1,
+    'alerts', (SELECT count(*) FROM public.alerts WHERE user_id = '00000000-0000-0000-0000-00000000000a'),
+    'alert_reads', 0,
+    'user_preferences', 1,
+    'user_roles', 1,
+    'profiles', 1
+)::text, true);
+
+TRUNCATE tests.deletion_log;
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000a"}', true);
+SET LOCAL ROLE authenticated;
+SELECT set_config('tests.report', public.delete_my_account()::text, true);
+RESET ROLE;
+
+SELECT is(
+    current_setting('tests.report')::jsonb -> 'deleted',
+    current_setting('tests.patient_deleted')::jsonb,
+    'A patient is told how many of each record was deleted'
+);
+
+-- Alerts go with their results through a cascade, which would leave them
+-- out of the report
+SELECT is(
+    (current_setting('tests.report')::jsonb -> 'deleted' ->> 'alerts')::integer,
+    2,
+    'The high urgency and emergency keyword alerts are both counted'
+);
+
+SELECT is(
+    (SELECT array_agg(table_name ORDER BY first_deleted)
+     FROM (SELECT table_name, min(id) AS first_deleted FROM tests.deletion_log GROUP BY table_name) AS tables),
+    ARRAY['alerts', 'triage_results', 'patient_intake', 'chat_sessions',
+          'user_preferences', 'user_roles', 'profiles'],
+    'Records are deleted before the records they belong to'
+);
+
+SELECT is(
+    (SELECT count(*)::integer FROM (
+        SELECT user_id FROM public.chat_sessions
+        UNION ALL SELECT user_id FROM public.patient_intake
+        UNION ALL SELECT user_id FROM public.triage_results
+        UNION ALL SELECT user_id FROM public.alerts
+        UNION ALL SELECT user_id FROM public.user_preferences
+        UNION ALL SELECT user_id FROM public.user_roles
+        UNION ALL SELECT user_id FROM public.profiles
+        UNION ALL SELECT id FROM auth.users
+    ) AS remaining WHERE user_id = '00000000-0000-0000-0000-00000000000a'),
+    0,
+    'Nothing about a deleted patient remains'
+);
+
+-- The only admin
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000c"}', true);
+SET LOCAL ROLE authenticated;
+
+SELECT throws_ok(
+    'SELECT public.delete_my_account()',
+    'P0001',
+    'Approve another administrator before deleting the only admin account',
+    'The only admin cannot delete their account'
+);
+
+RESET ROLE;
+
+SELECT ok(
+    EXISTS (SELECT 1 FROM public.profiles WHERE user_id = '00000000-0000-0000-0000-00000000000c'),
+    'A refused deletion keeps the account'
+);
+
+SELECT set_config('request.jwt.claims', '{}', true);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+    ('00000000-0000-0000-0000-00000000000d', 'second-admin@example.com', '{"full_name": "Sam Second"}');
+
+UPDATE public.user_roles SET role = 'admin'
+WHERE user_id = '00000000-0000-0000-0000-00000000000d';
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000c"}', true);
+SET LOCAL ROLE authenticated;
+
+SELECT lives_ok(
+    'SELECT public.delete_my_account()',
+    'An admin can delete their account once another admin is approved'
+);
+
+RESET ROLE;
+
+-- Signed out
+
+SELECT set_config('request.jwt.claims', '{}', true);
+SET LOCAL ROLE authenticated;
+
+SELECT throws_ok(
+    'SELECT public.delete_my_account()',
+    '42501',
+    'Not signed in',
+    'Deleting an account needs a signed-in user'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+
+ROLLBACK;
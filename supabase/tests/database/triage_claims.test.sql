@@ -0,0 +1,170 @@
+-- Claims on queue cases: they change only through the claim functions, and
+-- the ways around the guard that clients used to have are closed.
+-- Run with `supabase test db`.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(12);
+
+SELECT set_config('request.jwt.claims', '{}', true);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+    ('00000000-0000-0000-0000-00000000000a', 'patient@example.com', '{"full_name": "Pat Patient"}'),
+    ('00000000-0000-0000-0000-00000000000b', 'holder@example.com',
+     '{"full_name": "Hal Holder", "requested_role": "healthcare_staff"}'),
+    ('00000000-0000-0000-0000-00000000000c', 'other@example.com',
+     '{"full_name": "Olly Other", "requested_role": "healthcare_staff"}');
+
+UPDATE public.user_roles SET status = 'approved', approved_at = now()
+WHERE user_id IN ('00000000-0000-0000-0000-00000000000b', '00000000-0000-0000-0000-00000000000c');
+
+INSERT INTO public.triage_results (id, user_id, urgency) VALUES
+    ('00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-00000000000a', 'medium');
+
+-- A table whose trigger changes a claim, standing in for any trigger a
+-- client's write could set off
+CREATE SCHEMA tests;
+GRANT USAGE ON SCHEMA tests TO authenticated;
+
+CREATE TABLE tests.claim_requests (triage_result_id UUID NOT NULL);
+GRANT INSERT ON tests.claim_requests TO authenticated;
+
+CREATE FUNCTION tests.claim_from_trigger()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    UPDATE public.triage_results
+    SET assigned_to = auth.uid(), claimed_at = now()
+    WHERE id = NEW.triage_result_id;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER claim_from_trigger
+    AFTER INSERT ON tests.claim_requests
+    FOR EACH ROW EXECUTE FUNCTION tests.claim_from_trigger();
+
+-- The holder claims the case
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000b"}', true);
+SET LOCAL ROLE authenticated;
+
+SELECT throws_ok(
+    $$UPDATE public.triage_results SET assigned_to = auth.uid(), claimed_at = now()
+      WHERE id = '00000000-0000-0000-0000-0000000000e1'$$,
+    '42501',
+    'Cases can only be claimed, released or reassigned through the queue',
+    'Staff cannot claim a case by writing to it'
+);
+
+SELECT set_config('app.claim_change', 'on', true);
+
+SELECT throws_ok(
+    $$UPDATE public.triage_results SET assigned_to = auth.uid(), claimed_at = now()
+      WHERE id = '00000000-0000-0000-0000-0000000000e1'$$,
+    '42501',
+    'Cases can only be claimed, released or reassigned through the queue',
+    'The setting the claim functions once used no longer lets a write through'
+);
+
+SELECT set_config('app.claim_change', 'off', true);
+
+SELECT lives_ok(
+    $$SELECT public.claim_triage_result('00000000-0000-0000-0000-0000000000e1')$$,
+    'Staff can claim a case through claim_triage_result'
+);
+
+RESET ROLE;
+
+SELECT is(
+    (SELECT assigned_to FROM public.triage_results WHERE id = '00000000-0000-0000-0000-0000000000e1'),
+    '00000000-0000-0000-0000-00000000000b'::uuid,
+    'The claim is recorded for the caller'
+);
+
+-- Someone else tries to take it
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000c"}', true);
+SET LOCAL ROLE authenticated;
+
+SELECT throws_ok(
+    $$UPDATE public.triage_results SET assigned_to = auth.uid()
+      WHERE id = '00000000-0000-0000-0000-0000000000e1'$$,
+    '42501',
+    'Cases can only be claimed, released or reassigned through the queue',
+    'Staff cannot take over a claimed case by writing to it'
+);
+
+SELECT throws_ok(
+    $$INSERT INTO tests.claim_requests VALUES ('00000000-0000-0000-0000-0000000000e1')$$,
+    '42501',
+    'Cases can only be claimed, released or reassigned through the queue',
+    'A trigger set off by a client write cannot change a claim'
+);
+
+SELECT throws_ok(
+    $$SELECT public.release_triage_result('00000000-0000-0000-0000-0000000000e1')$$,
+    'P0001',
+    'Only the clinician holding this case can release it',
+    'Staff cannot release a case someone else holds'
+);
+
+SELECT throws_ok(
+    $$UPDATE public.triage_results SET queue_status = 'left_without_being_seen'
+      WHERE id = '00000000-0000-0000-0000-0000000000e1'$$,
+    '42501',
+    'Cases can only be claimed, released or reassigned through the queue',
+    'Staff cannot clear a claim by closing a case someone else holds'
+);
+
+RESET ROLE;
+
+-- Patients
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000a"}', true);
+SET LOCAL ROLE authenticated;
+
+SELECT throws_ok(
+    $$SELECT public.reassign_triage_result('00000000-0000-0000-0000-0000000000e1',
+                                            '00000000-0000-0000-0000-00000000000c')$$,
+    '42501',
+    'Only approved healthcare staff can reassign cases',
+    'Patients cannot use the claim functions'
+);
+
+RESET ROLE;
+
+-- The holder closes the case
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000b"}', true);
+SET LOCAL ROLE authenticated;
+
+SELECT lives_ok(
+    $$UPDATE public.triage_results SET queue_status = 'left_without_being_seen'
+      WHERE id = '00000000-0000-0000-0000-0000000000e1'$$,
+    'The clinician holding a case can close it'
+);
+
+RESET ROLE;
+
+SELECT is(
+    (SELECT assigned_to FROM public.triage_results WHERE id = '00000000-0000-0000-0000-0000000000e1'),
+    NULL::uuid,
+    'Closing a case drops its claim'
+);
+
+-- Server jobs run as the owner, with no signed-in user
+
+SELECT set_config('request.jwt.claims', '{}', true);
+
+SELECT lives_ok(
+    $$UPDATE public.triage_results SET assigned_to = '00000000-0000-0000-0000-00000000000c'
+      WHERE id = '00000000-0000-0000-0000-0000000000e1'$$,
+    'The server can still change a claim'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;